@@ -1,13 +1,32 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import Sidebar from './components/Sidebar';
-import Viewer3D from './components/Viewer3D';
+import Viewer3D, { ViewportPaint } from './components/Viewer3D';
 import ChatInterface from './components/ChatInterface';
-import { generateModelFromPrompt, generateTextureFromPrompt, generateBlockState, autoRigModel } from './services/geminiService';
-import { packUVs, drawTextureLayout, scaleModelUVs } from './services/textureMapper';
-import { parseModelFile } from './services/modelImporter';
-import { MinecraftModel, ChatMessage, ViewMode } from './types';
+import AnimationTimeline from './components/AnimationTimeline';
+import UVEditor from './components/UVEditor';
+import { generateModelFromPrompt, generateTextureFromPrompt, generateBlockState, autoRigModel, GenerationProgress } from './services/geminiService';
+import { isAbortError } from './services/generationProvider';
+import { repairModel } from './services/modelValidator';
+import { optimizeNodeBudget, countModelNodes, formatNodeBudgetReport, HYTALE_NODE_LIMIT, NodeBudgetReport } from './services/nodeBudget';
+import { packUVs, packUVLayout, padTextureImage, drawTextureLayout, scaleModelUVs, PackOptions, PackReport, DENSITY_SCALE } from './services/textureMapper';
+import { BakeOptions, bakeColorTexture } from './services/colorBaker';
+import { generatePrimitiveBone, PrimitiveParams } from './services/primitiveGenerator';
+import { generateProceduralAnimation, proceduralAnimationName, ProceduralAnimationParams } from './services/proceduralAnimation';
+import { importModelFile } from './services/modelImporter';
+import { VoxelizeOptions, DEFAULT_VOXELIZE_OPTIONS } from './services/meshVoxelizer';
+import { applySelectionTransform, isValidSelection } from './services/transformEditor';
+import { deleteBone } from './services/hierarchyEditor';
+import { applySymmetry } from './services/symmetry';
+import { ProjectState, saveProjectFile, loadProjectFile } from './services/projectFile';
+import {
+  AUTOSAVE_INTERVAL_MS, SESSION_HEARTBEAT_MS, writeAutosave, readCrashedAutosave, clearAutosave, pruneAutosaves, beginSession, touchSession, endSession
+} from './services/autosave';
+import { MinecraftModel, ChatMessage, ViewMode, AnimationDefinition, ModelSelection } from './types';
 import { INITIAL_MODEL, STEVE_MODEL } from './constants';
 import useHistory from './hooks/useHistory';
+import useTexturePainter from './hooks/useTexturePainter';
+
+const TEXTURE_HISTORY_LIMIT = 30;
 
 const App: React.FC = () => {
   // Replace simple useState with useHistory for the model
@@ -24,8 +43,19 @@ const App: React.FC = () => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.EDITOR);
   
-  // Texture State
-  const [textureData, setTextureData] = useState<string | null>(null);
+  // Texture State; painted strokes are undone separately from model edits.
+  // Only strokes are undo steps: any other replacement (generation, upload, baking,
+  // atlas growth) goes with a texture_size/uvScale change and clears the stroke history.
+  // Every step is a full PNG data URL, so only the recent ones are kept.
+  const {
+    state: textureData,
+    set: commitTextureStroke,
+    reset: setTextureData,
+    undo: undoTexture,
+    redo: redoTexture,
+    canUndo: canUndoTexture,
+    canRedo: canRedoTexture
+  } = useHistory<string | null>(null, TEXTURE_HISTORY_LIMIT);
   const [isGeneratingTexture, setIsGeneratingTexture] = useState(false);
   const [textureDensity, setTextureDensity] = useState<'16x'|'32x'|'64x'>('16x');
   
@@ -38,12 +68,148 @@ const App: React.FC = () => {
   // Animation State
   const [activeAnimation, setActiveAnimation] = useState<string | undefined>(undefined);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [animationTime, setAnimationTime] = useState(0);
+
+  // Each animation starts playing from its first frame
+  useEffect(() => {
+      setAnimationTime(0);
+  }, [activeAnimation]);
+
+  // Viewport / hierarchy selection, shared by the Sidebar and the gizmos
+  const [selection, setSelection] = useState<ModelSelection | null>(null);
+  // Live symmetry: gizmo edits are mirrored onto the opposite bone or cube
+  const [symmetryEdit, setSymmetryEdit] = useState(false);
+
+  // Pixel painting on the UV canvas and, in the texture view, on the model itself
+  const [paintMode, setPaintMode] = useState(false);
+  const texturePainter = useTexturePainter(textureData, model.bedrockData?.texture_size || [64, 64], commitTextureStroke);
+  const viewportPaint = useMemo<ViewportPaint>(() => ({
+      onStrokeStart: texturePainter.startStroke,
+      onStrokeMove: texturePainter.continueStroke,
+      onStrokeEnd: texturePainter.endStroke
+  }), [texturePainter.startStroke, texturePainter.continueStroke, texturePainter.endStroke]);
+
+  // Undo, redo or a regenerated model can leave the selection pointing at nothing
+  useEffect(() => {
+      if (selection && !isValidSelection(model, selection)) setSelection(null);
+  }, [model, selection]);
+
+  // Streaming State: the preview is shown in the viewer only, never pushed to history
+  const [previewModel, setPreviewModel] = useState<MinecraftModel | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Capture Ref for Screenshotting the 3D view
   const captureRef = useRef<(() => string) | null>(null);
 
+  // --- Project State & Autosave ---
+  const projectState: ProjectState = {
+      model,
+      textureData,
+      history,
+      settings: { textureDensity, uvScaleFactor, lastPrompt }
+  };
+  const projectStateRef = useRef<ProjectState>(projectState);
+  projectStateRef.current = projectState;
+
+  const applyProjectState = (project: ProjectState) => {
+      setModel(project.model);
+      setTextureData(project.textureData);
+      setHistory(project.history);
+      setTextureDensity(project.settings.textureDensity);
+      setUvScaleFactor(project.settings.uvScaleFactor);
+      setLastPrompt(project.settings.lastPrompt);
+      setActiveAnimation(undefined);
+      setIsPlaying(false);
+  };
+
+  useEffect(() => {
+      const crashedSessions = beginSession();
+      const heartbeat = window.setInterval(touchSession, SESSION_HEARTBEAT_MS);
+      const handlePageHide = () => endSession();
+      window.addEventListener('pagehide', handlePageHide);
+
+      // Snapshots of cleanly closed tabs are dropped; crashed ones wait for the prompt
+      pruneAutosaves()
+          .then(() => crashedSessions.length ? readCrashedAutosave(crashedSessions) : null)
+          .then(saved => {
+              if (!saved) return;
+              const when = new Date(saved.savedAt).toLocaleString();
+              if (confirm(`The last session did not close cleanly. Recover the autosave from ${when}?`)) {
+                  applyProjectState(saved);
+              } else {
+                  return Promise.all(crashedSessions.map(id => clearAutosave(id))).then(() => undefined);
+              }
+          })
+          .catch(e => console.warn("Autosave recovery failed", e));
+
+      // Only write when something changed since the last autosave
+      let lastSaved: ProjectState | null = null;
+      const timer = window.setInterval(() => {
+          const current = projectStateRef.current;
+          if (lastSaved &&
+              lastSaved.model === current.model &&
+              lastSaved.textureData === current.textureData &&
+              lastSaved.history === current.history &&
+              JSON.stringify(lastSaved.settings) === JSON.stringify(current.settings)) {
+              return;
+          }
+          lastSaved = current;
+          writeAutosave(current).catch(e => console.warn("Autosave failed", e));
+      }, AUTOSAVE_INTERVAL_MS);
+
+      return () => {
+          window.clearInterval(timer);
+          window.clearInterval(heartbeat);
+          window.removeEventListener('pagehide', handlePageHide);
+          endSession();
+      };
+  }, []);
+
+  const handleSaveProject = () => {
+      saveProjectFile(projectState);
+  };
+
+  const handleOpenProject = async (file: File) => {
+      try {
+          const project = await loadProjectFile(file);
+          applyProjectState(project);
+          setViewMode(ViewMode.EDITOR);
+      } catch (e: any) {
+          console.error(e);
+          alert(e.message || "Failed to open project.");
+      }
+  };
+
+  const handleProgress = (progress: GenerationProgress) => {
+      setGenerationProgress(progress);
+      if (progress.partialBones) {
+          const partial: MinecraftModel = {
+              ...model,
+              type: 'ENTITY',
+              sourceBlobUrl: undefined,
+              animations: undefined,
+              bedrockData: {
+                  format_version: "1.12.0",
+                  identifier: model.identifier,
+                  texture_size: model.bedrockData?.texture_size || [64, 64],
+                  bones: progress.partialBones
+              }
+          };
+          // Drop half-formed cubes so the viewer never sees a cube without a size
+          setPreviewModel(repairModel(partial, { dropUnrepairable: true }).model);
+      }
+  };
+
+  const handleCancelGeneration = () => {
+      abortControllerRef.current?.abort();
+  };
+
   const handleGenerate = async (prompt: string, imageBase64?: string) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsGenerating(true);
+    setGenerationProgress(null);
     setLastPrompt(prompt);
     
     // Add user message immediately
@@ -58,13 +224,23 @@ const App: React.FC = () => {
     try {
       // Pass the current model to the AI to allow for context-aware refinements
       // Force 'HYTALE' loader context
-      const { text, model: newModel } = await generateModelFromPrompt(
+      const { text, model: generatedModel } = await generateModelFromPrompt(
           prompt, 
           model.type, 
           'HYTALE', 
           imageBase64,
-          model 
+          model,
+          { signal: controller.signal, onProgress: handleProgress }
       );
+
+      // Enforce the Hytale node budget before the model ever reaches the editor
+      let newModel = generatedModel;
+      let budgetNote = "";
+      if (newModel && countModelNodes(newModel).total > HYTALE_NODE_LIMIT) {
+        const { model: optimized, report } = optimizeNodeBudget(newModel);
+        newModel = optimized;
+        budgetNote = `\n\nNode budget optimizer:\n${formatNodeBudgetReport(report)}`;
+      }
       
       if (newModel) {
         // Automatically pack UVs for the new model so it's ready for texturing
@@ -90,12 +266,22 @@ const App: React.FC = () => {
       const aiMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
         role: 'model',
-        text: text,
+        text: text + budgetNote,
         modelData: newModel || undefined
       };
       setHistory(prev => [...prev, aiMsg]);
 
     } catch (error) {
+      if (isAbortError(error)) {
+        // The previous model was never replaced, so there is nothing to roll back
+        const cancelMsg: ChatMessage = {
+          id: (Date.now() + 1).toString(),
+          role: 'model',
+          text: "Generation cancelled. Kept the previous model.",
+        };
+        setHistory(prev => [...prev, cancelMsg]);
+        return;
+      }
       console.error(error);
       const errorMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
@@ -105,10 +291,26 @@ const App: React.FC = () => {
       };
       setHistory(prev => [...prev, errorMsg]);
     } finally {
+      abortControllerRef.current = null;
+      setPreviewModel(null);
+      setGenerationProgress(null);
       setIsGenerating(false);
     }
   };
 
+  // Geometry edits rebuild the layout until a texture exists; after that only new or
+  // broken islands are placed so painted pixels stay where they are
+  const packForEdit = (edited: MinecraftModel): MinecraftModel => {
+      if (!textureData) return packUVs(edited, textureDensity);
+      const { model: packed, report } = packUVLayout(edited, { density: textureDensity, uvScale: uvScaleFactor, stable: true });
+      if (report?.grown) {
+          padTextureImage(textureData, ...report.textureSize)
+              .then(setTextureData)
+              .catch(e => console.error("Failed to grow texture", e));
+      }
+      return packed;
+  };
+
   const handleGenerateTexture = async (customPrompt?: string, existingImage?: string) => {
       // Use custom prompt if provided, otherwise fallback to lastPrompt
       const promptToUse = customPrompt || lastPrompt;
@@ -122,13 +324,18 @@ const App: React.FC = () => {
       try {
           // 1. Ensure Model has valid UVs packed for the TARGET DENSITY
           // This is critical. The UV map must match the requested detail level.
-          let workingModel = packUVs(model, textureDensity);
+          // A retexture keeps the current layout, which lives in the old texture's pixel space.
+          const keepLayout = !!textureData;
+          const layoutScale = keepLayout ? uvScaleFactor : DENSITY_SCALE[textureDensity];
+          let workingModel = keepLayout
+              ? packUVLayout(model, { density: textureDensity, uvScale: uvScaleFactor, stable: true }).model
+              : packUVs(model, textureDensity);
           
           // Get the base texture size derived from packing (e.g. 64x64 or 128x128)
           const packedW = workingModel.bedrockData?.texture_size[0] || 64;
 
           // 2. Generate Layout Reference Image (Wireframe)
-          const layoutImage = drawTextureLayout(workingModel, textureDensity);
+          const layoutImage = drawTextureLayout(workingModel, textureDensity, layoutScale);
 
           // 3. Send Layout to AI to paint over
           const base64Image = await generateTextureFromPrompt(
@@ -153,12 +360,8 @@ const App: React.FC = () => {
               // Ratio of Actual Image Width vs Packed Width
               const upScaleRatio = img.naturalWidth / packedW;
               
-              let densityBase = 1;
-              if (textureDensity === '32x') densityBase = 2;
-              if (textureDensity === '64x') densityBase = 4;
-              
-              // Final Scale = Density * UpScale
-              setUvScaleFactor(densityBase * upScaleRatio);
+              // Final Scale = Layout Scale (density, or the kept texture's) * UpScale
+              setUvScaleFactor(layoutScale * upScaleRatio);
 
               setTextureData(base64Image);
               setViewMode(ViewMode.TEXTURE);
@@ -195,21 +398,47 @@ const App: React.FC = () => {
   };
 
   const handleDeleteBone = (index: number) => {
-    setModel((prevModel) => {
-        // If Entity, delete bone
-        if (prevModel.type === 'ENTITY' && prevModel.bedrockData) {
-             const newBones = [...prevModel.bedrockData.bones];
-             newBones.splice(index, 1);
-             return {
-                 ...prevModel,
-                 bedrockData: {
-                     ...prevModel.bedrockData,
-                     bones: newBones
-                 }
-             };
-        }
-        return prevModel;
-    });
+    try {
+      // Children are moved up to the deleted bone's parent instead of being orphaned
+      const edited = deleteBone(model, index);
+      setSelection(null);
+      setModel(edited);
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const handleOptimizeNodes = (): NodeBudgetReport => {
+      const { model: optimized, report } = optimizeNodeBudget(model);
+      const changed = report.removedHiddenCubes + report.mergedCubes + report.collapsedBones > 0;
+      if (!changed) return report;
+      // Merged cubes lose their islands; every other island stays where it is
+      setModel(packForEdit(optimized));
+      return report;
+  };
+
+  const handleRepackUVs = async (options: PackOptions): Promise<PackReport | null> => {
+      // Once a texture is applied the layout lives in its pixel space, not the density's
+      const { model: packed, report } = packUVLayout(model, {
+          ...options,
+          density: textureDensity,
+          uvScale: textureData ? uvScaleFactor : undefined
+      });
+      if (report?.grown && options.stable && textureData) {
+          setTextureData(await padTextureImage(textureData, ...report.textureSize));
+      }
+      setModel(packed);
+      return report;
+  };
+
+  const handleBakeColors = (options: BakeOptions) => {
+      // Baking starts a fresh texture, so the layout is rebuilt at the chosen density
+      const packed = packUVs(model, textureDensity);
+      const scale = DENSITY_SCALE[textureDensity];
+      const baked = bakeColorTexture(packed, scale, options);
+      setModel(packed);
+      setUvScaleFactor(scale);
+      setTextureData(baked);
   };
 
   const handleLoadPlayerTemplate = () => {
@@ -226,8 +455,34 @@ const App: React.FC = () => {
   };
 
   const handleGenerateBlockState = async () => {
-      // Hytale blocks often use model logic, but if this legacy function is called:
-      alert("Hytale typically handles blockstates via model configuration files, not Java Edition blockstates.");
+      if (model.type !== 'BLOCK') {
+          alert("Hytale typically handles blockstates via model configuration files, not Java Edition blockstates.");
+          return;
+      }
+
+      const description = prompt(
+          "Describe the block's states (e.g. 'faces north/south/east/west', 'open and closed'). Leave empty for a single state.",
+          ""
+      );
+      if (description === null) return;
+
+      setIsGenerating(true);
+      try {
+          const blockState = await generateBlockState(model.identifier, description || "A single default state.");
+          setModel(prev => ({ ...prev, javaBlockState: blockState }));
+          const variantCount = Object.keys(blockState.variants || {}).length + (blockState.multipart || []).length;
+          const msg: ChatMessage = {
+              id: Date.now().toString(),
+              role: 'model',
+              text: `Generated blockstate for ${model.identifier} (${variantCount} ${blockState.multipart ? 'parts' : 'variants'}).`,
+          };
+          setHistory(prev => [...prev, msg]);
+      } catch (e) {
+          console.error("Failed to generate blockstate", e);
+          alert("Failed to generate blockstate. Please try again.");
+      } finally {
+          setIsGenerating(false);
+      }
   };
 
   const handleAutoRig = async () => {
@@ -235,7 +490,7 @@ const App: React.FC = () => {
       try {
           const riggedModel = await autoRigModel(model);
           // Don't forget to repack UVs after structure change
-          const packed = packUVs(riggedModel, textureDensity);
+          const packed = packForEdit(riggedModel);
           setModel(packed);
 
           const msg: ChatMessage = {
@@ -266,37 +521,101 @@ const App: React.FC = () => {
       );
   };
 
-  const handleAddPrimitive = (shape: string, radius: number) => {
-      // SPECIAL HANDLING FOR CYLINDERS TO AVOID "STAR" SHAPES
-      // Updated for Hytale's Arbitrary Rotation capability
-      let prompt = `Generate a ${shape} shape with a radius of ${radius} voxels. Ensure it is symmetric and centered.`;
-      
-      if (shape.toLowerCase() === 'cylinder') {
-          prompt += `
-          IMPORTANT: Do NOT create a cylinder by simply overlapping two cubes rotated 45 degrees (this creates a star).
-          Instead, use the "Rotated Ring" method: Create a circle of ${Math.max(8, radius * 2)} vertical planks/panels, and rotate each one freely around the Y axis to face the center (e.g., 360 / 12 = 30 degree steps).
-          The result must look ROUND.`;
+  const handleAddPrimitive = (params: PrimitiveParams) => {
+      if (model.type === 'BLOCK') {
+          alert("Primitives can only be added to entity models.");
+          return;
+      }
+
+      // Geometry is generated locally, so this is instant and exact (no API call)
+      const bones = model.bedrockData?.bones || [];
+      let name: string = params.shape;
+      for (let n = 2; bones.some(b => b.name === name); n++) name = `${params.shape}_${n}`;
+      const parent = bones.find(b => b.name === 'root')?.name;
+      const bone = generatePrimitiveBone(params, name, parent);
+      if (bone.cubes.length === 0) {
+          alert("These primitive settings produce no cubes. Check the size fields.");
+          return;
+      }
+
+      const withPrimitive: MinecraftModel = {
+          ...model,
+          type: 'ENTITY',
+          bedrockData: {
+              format_version: model.bedrockData?.format_version || "1.12.0",
+              identifier: model.bedrockData?.identifier || model.identifier,
+              texture_size: model.bedrockData?.texture_size || [64, 64],
+              bones: [...bones, bone]
+          }
+      };
+      setModel(packForEdit(withPrimitive));
+
+      const msg: ChatMessage = {
+          id: Date.now().toString(),
+          role: 'model',
+          text: `Added ${params.shape} primitive "${name}" (${bone.cubes.length} cubes).`,
+      };
+      setHistory(prev => [...prev, msg]);
+  };
+
+  const handleGenerateProceduralAnimation = (params: ProceduralAnimationParams) => {
+      // Generated locally and deterministically; regenerating replaces the previous take
+      try {
+          const name = proceduralAnimationName(model, params.type);
+          const animation = generateProceduralAnimation(model, params);
+          setModel({ ...model, animations: { ...(model.animations || {}), [name]: animation } });
+          setActiveAnimation(name);
+          setIsPlaying(true);
+      } catch (e: any) {
+          alert(e.message || "Could not generate animation.");
       }
-      
-      handleGenerate(prompt, undefined);
+  };
+
+  const handleRetargetAnimations = (animations: Record<string, AnimationDefinition>) => {
+      const clashes = Object.keys(animations).filter(name => model.animations?.[name]);
+      if (clashes.length > 0 && !confirm(`Replace existing animations?\n${clashes.join('\n')}`)) return;
+
+      setModel({ ...model, animations: { ...(model.animations || {}), ...animations } });
+      setActiveAnimation(Object.keys(animations)[0]);
+
+      const msg: ChatMessage = {
+          id: Date.now().toString(),
+          role: 'model',
+          text: `Retargeted ${Object.keys(animations).length} animation(s) onto this model.`,
+      };
+      setHistory(prev => [...prev, msg]);
   };
 
   const handleConvertToMinecraft = () => {
       alert("This version is strictly for Hytale. Use standard Export.");
   };
 
-  const handleImportFile = async (file: File) => {
+  const handleImportFile = async (file: File, meshOptions?: Partial<VoxelizeOptions>) => {
     try {
-        const newModel = await parseModelFile(file);
+        const { model: newModel, textureData: importedTexture, uvScale, resolution } = await importModelFile(file, meshOptions);
         
         if (newModel) {
             // Force Hytale loader on import
             newModel.loader = 'HYTALE';
             setModel(newModel);
+            if (importedTexture) setTextureData(importedTexture);
+            if (uvScale !== undefined) setUvScaleFactor(uvScale);
+            setActiveAnimation(undefined);
+
+            const animCount = Object.keys(newModel.animations || {}).length;
+            const extras = [
+                importedTexture ? 'texture' : '',
+                animCount > 0 ? `${animCount} animation${animCount === 1 ? '' : 's'}` : ''
+            ].filter(Boolean);
+            const requested = meshOptions?.resolution ?? DEFAULT_VOXELIZE_OPTIONS.resolution;
+            const voxelNote = resolution === undefined ? ''
+                : resolution < requested
+                    ? ` Voxelized at ${resolution} (reduced from ${requested} to fit the node budget).`
+                    : ` Voxelized at ${resolution}.`;
              const msg: ChatMessage = {
                 id: Date.now().toString(),
                 role: 'model',
-                text: `Imported ${file.name}. Converted to Hytale Workspace.`,
+                text: `Imported ${file.name}${extras.length ? ` with ${extras.join(' and ')}` : ''}. Converted to Hytale Workspace.${voxelNote}`,
             };
             setHistory(prev => [...prev, msg]);
             setViewMode(ViewMode.EDITOR);
@@ -310,6 +629,10 @@ const App: React.FC = () => {
     }
   };
 
+  const isPainting = paintMode && viewMode === ViewMode.TEXTURE && !previewModel;
+  // Painting takes the left button, so the viewport stops picking while it is on
+  const canPick = (viewMode === ViewMode.EDITOR || viewMode === ViewMode.TEXTURE) && !previewModel && !isPainting;
+
   return (
     <div className="flex h-screen w-full bg-[#1e1e1e] text-gray-200 font-sans overflow-hidden">
         {/* Left Sidebar */}
@@ -323,7 +646,15 @@ const App: React.FC = () => {
             canUndo={canUndo}
             canRedo={canRedo}
             onDeleteBone={handleDeleteBone}
+            selection={selection}
+            setSelection={setSelection}
+            symmetryEdit={symmetryEdit}
+            setSymmetryEdit={setSymmetryEdit}
+            onOptimizeNodes={handleOptimizeNodes}
+            onRepackUVs={handleRepackUVs}
+            onBakeColors={handleBakeColors}
             textureData={textureData}
+            uvScaleFactor={uvScaleFactor}
             onGenerateTexture={handleGenerateTexture}
             onUploadTexture={handleUploadTexture}
             onClearTexture={() => setTextureData(null)}
@@ -339,7 +670,11 @@ const App: React.FC = () => {
             onAutoRig={handleAutoRig}
             onEnhanceDetail={handleEnhanceDetail}
             onAddPrimitive={handleAddPrimitive}
+            onGenerateProceduralAnimation={handleGenerateProceduralAnimation}
+            onRetargetAnimations={handleRetargetAnimations}
             onImportJson={handleImportFile}
+            onSaveProject={handleSaveProject}
+            onOpenProject={handleOpenProject}
             onConvertToMinecraft={handleConvertToMinecraft}
             // Density
             textureDensity={textureDensity}
@@ -349,22 +684,77 @@ const App: React.FC = () => {
         {/* Main Content */}
         <div className="flex-1 flex flex-col h-full min-w-0">
             {/* 3D Viewport Area */}
-            <div className="flex-1 relative bg-[#121212]">
-                <Viewer3D 
-                    model={model} 
-                    textureData={textureData}
-                    activeAnimationName={activeAnimation}
+            <div className="flex-1 flex min-h-0">
+                <div className="flex-1 relative bg-[#121212] min-w-0">
+                    <Viewer3D
+                        model={previewModel || model}
+                        textureData={texturePainter.preview || textureData}
+                        activeAnimationName={activeAnimation}
+                        isPlaying={isPlaying}
+                        animationTime={animationTime}
+                        onAnimationTimeChange={setAnimationTime}
+                        captureRef={captureRef}
+                        uvScale={uvScaleFactor} // Pass the calculated scale factor
+                        // Picking and gizmos in the editor and UV view, never on a streaming preview
+                        selection={canPick ? selection : null}
+                        onSelect={canPick ? setSelection : undefined}
+                        onTransform={(sel, transform, gridSnap) => {
+                            const edited = applySelectionTransform(model, sel, transform, gridSnap);
+                            if (!symmetryEdit) return setModel(edited);
+                            try {
+                                setModel(applySymmetry(model, edited));
+                            } catch (err: any) {
+                                // Keep the edit itself even if its mirror cannot be built
+                                setModel(edited);
+                                alert(`Symmetry failed: ${err.message}`);
+                            }
+                        }}
+                        paint={isPainting ? viewportPaint : undefined}
+                    />
+                </div>
+
+                {/* 2D UV Editor */}
+                {viewMode === ViewMode.TEXTURE && !previewModel && (
+                    <UVEditor
+                        model={model}
+                        setModel={setModel}
+                        textureData={textureData}
+                        setTextureData={setTextureData}
+                        uvScale={uvScaleFactor}
+                        selection={selection}
+                        setSelection={setSelection}
+                        painter={texturePainter}
+                        paintMode={paintMode}
+                        setPaintMode={setPaintMode}
+                        onUndoTexture={undoTexture}
+                        onRedoTexture={redoTexture}
+                        canUndoTexture={canUndoTexture}
+                        canRedoTexture={canRedoTexture}
+                    />
+                )}
+            </div>
+
+            {/* Keyframe Timeline */}
+            {viewMode === ViewMode.ANIMATE && (
+                <AnimationTimeline
+                    model={model}
+                    setModel={setModel}
+                    activeAnimation={activeAnimation}
+                    setActiveAnimation={setActiveAnimation}
+                    time={animationTime}
+                    setTime={setAnimationTime}
                     isPlaying={isPlaying}
-                    captureRef={captureRef}
-                    uvScale={uvScaleFactor} // Pass the calculated scale factor
+                    setIsPlaying={setIsPlaying}
                 />
-            </div>
+            )}
 
             {/* Chat Area */}
             <ChatInterface 
                 onGenerate={handleGenerate} 
                 isGenerating={isGenerating}
                 history={history}
+                progress={generationProgress}
+                onCancel={handleCancelGeneration}
             />
         </div>
     </div>
@@ -0,0 +1,478 @@
+import React, { useRef, useState, useMemo } from 'react';
+import { Play, Pause, Plus, Copy, Pencil, Trash2, ChevronRight, ChevronDown, Diamond, SkipBack } from 'lucide-react';
+import { MinecraftModel, AnimationDefinition, LerpMode } from '../types';
+import { sampleChannel, getSortedKeyframes, getSortedEntries, LERP_MODES, DEFAULT_BEZIER, BezierHandles } from '../services/animationMath';
+import {
+    AnimationChannelName, ANIMATION_CHANNEL_NAMES, DEFAULT_ANIMATION_LENGTH, KEYFRAME_TIME_STEP,
+    snapKeyframeTime, defaultChannelValue, setKeyframe, setKeyframeCurve, removeKeyframe, moveKeyframe, getKeyframeValue,
+    setAnimationProperties, createAnimation, renameAnimation, duplicateAnimation, deleteAnimation, uniqueAnimationName
+} from '../services/animationEditor';
+
+interface AnimationTimelineProps {
+  model: MinecraftModel;
+  setModel: (val: MinecraftModel | ((prev: MinecraftModel) => MinecraftModel)) => void;
+  activeAnimation?: string;
+  setActiveAnimation: (name: string | undefined) => void;
+  time: number;
+  setTime: (time: number) => void;
+  isPlaying: boolean;
+  setIsPlaying: (val: boolean) => void;
+}
+
+interface KeyframeRef {
+  bone: string;
+  channel: AnimationChannelName;
+  time: number;
+}
+
+const CHANNEL_COLORS: Record<AnimationChannelName, string> = {
+  rotation: 'bg-orange-400',
+  position: 'bg-green-400',
+  scale: 'bg-blue-400'
+};
+
+const sameKeyframe = (a: KeyframeRef | null, b: KeyframeRef) =>
+  !!a && a.bone === b.bone && a.channel === b.channel && Math.abs(a.time - b.time) < KEYFRAME_TIME_STEP / 2;
+
+// Keeps keystrokes local and commits on Enter or blur, so typing "1.25" is one undo step
+const CommitNumberInput: React.FC<{
+  value: number;
+  onCommit: (value: number) => void;
+  step?: number;
+  min?: number;
+  className?: string;
+  title?: string;
+}> = ({ value, onCommit, ...inputProps }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const v = parseFloat(draft);
+    setDraft(null);
+    if (Number.isFinite(v) && v !== value) onCommit(v);
+  };
+
+  return (
+    <input
+      type="number"
+      {...inputProps}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        else if (e.key === 'Escape') setDraft(null);
+      }}
+    />
+  );
+};
+
+// Picks a ruler step that keeps labels readable for any animation length
+const rulerStep = (length: number) => [0.05, 0.1, 0.25, 0.5, 1, 2, 5].find(s => length / s <= 10) || 10;
+
+const AnimationTimeline: React.FC<AnimationTimelineProps> = ({
+  model,
+  setModel,
+  activeAnimation,
+  setActiveAnimation,
+  time,
+  setTime,
+  isPlaying,
+  setIsPlaying
+}) => {
+  const [expandedBones, setExpandedBones] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<KeyframeRef | null>(null);
+  const [drag, setDrag] = useState<(KeyframeRef & { toTime: number }) | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const animations = model.animations || {};
+  const animation: AnimationDefinition | undefined = activeAnimation ? animations[activeAnimation] : undefined;
+  const length = animation?.animation_length || DEFAULT_ANIMATION_LENGTH;
+  const bones = model.bedrockData?.bones || [];
+
+  const ticks = useMemo(() => {
+    const step = rulerStep(length);
+    const out: number[] = [];
+    for (let t = 0; t <= length + 1e-6; t += step) out.push(Number(t.toFixed(4)));
+    return out;
+  }, [length]);
+
+  const percent = (t: number) => `${Math.min(100, Math.max(0, (t / length) * 100))}%`;
+
+  const timeFromPointer = (clientX: number, track: HTMLElement) => {
+    const rect = track.getBoundingClientRect();
+    const ratio = rect.width > 0 ? (clientX - rect.left) / rect.width : 0;
+    return Math.min(length, Math.max(0, ratio * length));
+  };
+
+  // Runs onMove for every pointer move until the button is released
+  const trackPointer = (onMove: (e: MouseEvent) => void, onUp?: (e: MouseEvent) => void) => {
+    const handleUp = (e: MouseEvent) => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', handleUp);
+      onUp?.(e);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  // --- Model edits (all go through useHistory via setModel) ---
+
+  // Edits are evaluated eagerly so name clashes can be reported instead of throwing inside a state updater
+  const applyEdit = (edit: (m: MinecraftModel) => MinecraftModel) => {
+    try {
+      setModel(edit(model));
+    } catch (e: any) {
+      alert(e.message || "Edit failed.");
+    }
+  };
+
+  const handleCreate = () => {
+    const name = prompt("New animation name:", uniqueAnimationName(model, 'animation.new'));
+    if (!name) return;
+    if (animations[name]) { alert(`Animation "${name}" already exists.`); return; }
+    applyEdit(m => createAnimation(m, name));
+    setActiveAnimation(name);
+    setTime(0);
+  };
+
+  const handleRename = () => {
+    if (!activeAnimation) return;
+    const name = prompt("Rename animation:", activeAnimation);
+    if (!name || name === activeAnimation) return;
+    if (animations[name]) { alert(`Animation "${name}" already exists.`); return; }
+    applyEdit(m => renameAnimation(m, activeAnimation, name));
+    setActiveAnimation(name);
+  };
+
+  const handleDuplicate = () => {
+    if (!activeAnimation) return;
+    const name = uniqueAnimationName(model, `${activeAnimation}_copy`);
+    applyEdit(m => duplicateAnimation(m, activeAnimation, name));
+    setActiveAnimation(name);
+  };
+
+  const handleDelete = () => {
+    if (!activeAnimation || !confirm(`Delete animation "${activeAnimation}"?`)) return;
+    const remaining = Object.keys(animations).filter(n => n !== activeAnimation);
+    applyEdit(m => deleteAnimation(m, activeAnimation));
+    setActiveAnimation(remaining[0]);
+    setSelected(null);
+    setIsPlaying(false);
+    setTime(0);
+  };
+
+  const handleAddKeyframe = (bone: string, channel: AnimationChannelName, at: number) => {
+    if (!activeAnimation || !animation) return;
+    const snapped = Math.min(snapKeyframeTime(at), length);
+    // New keys start at the pose currently shown so adding one never makes the model jump
+    const value = sampleChannel(animation.bones?.[bone]?.[channel], snapped, defaultChannelValue(channel));
+    applyEdit(m => setKeyframe(m, activeAnimation, bone, channel, snapped, value));
+    setSelected({ bone, channel, time: snapped });
+  };
+
+  const handleDeleteSelected = () => {
+    if (!activeAnimation || !selected) return;
+    applyEdit(m => removeKeyframe(m, activeAnimation, selected.bone, selected.channel, selected.time));
+    setSelected(null);
+  };
+
+  // --- Pointer handlers ---
+
+  const handleScrubStart = (e: React.MouseEvent<HTMLDivElement>) => {
+    const track = e.currentTarget;
+    setIsPlaying(false);
+    setTime(timeFromPointer(e.clientX, track));
+    trackPointer(ev => setTime(timeFromPointer(ev.clientX, track)));
+  };
+
+  const handleKeyframeMouseDown = (e: React.MouseEvent, kf: KeyframeRef) => {
+    e.stopPropagation();
+    const track = (e.currentTarget as HTMLElement).parentElement;
+    if (!track || !activeAnimation) return;
+    setSelected(kf);
+    setIsPlaying(false);
+    setTime(kf.time);
+
+    let toTime = kf.time;
+    setDrag({ ...kf, toTime });
+    trackPointer(
+      ev => {
+        toTime = snapKeyframeTime(timeFromPointer(ev.clientX, track));
+        setDrag({ ...kf, toTime });
+      },
+      () => {
+        setDrag(null);
+        if (Math.abs(toTime - kf.time) >= KEYFRAME_TIME_STEP / 2) {
+          applyEdit(m => moveKeyframe(m, activeAnimation, kf.bone, kf.channel, kf.time, toTime));
+          setSelected({ ...kf, time: toTime });
+          setTime(toTime);
+        }
+      }
+    );
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.key === 'Delete' || e.key === 'Backspace') && selected && !(e.target instanceof HTMLInputElement)) {
+      e.preventDefault();
+      handleDeleteSelected();
+    }
+  };
+
+  const toggleBone = (name: string) => {
+    setExpandedBones(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  // --- Rendering helpers ---
+
+  const renderPlayhead = () => (
+    <div className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none" style={{ left: percent(time) }} />
+  );
+
+  const renderChannelKeys = (bone: string, channel: AnimationChannelName) => {
+    const keys = getSortedKeyframes(animation?.bones?.[bone]?.[channel]);
+    return keys.map(kf => {
+      const ref: KeyframeRef = { bone, channel, time: kf.time };
+      const isDragging = drag && sameKeyframe(drag, ref);
+      const t = isDragging ? drag!.toTime : kf.time;
+      return (
+        <div
+          key={kf.key}
+          onMouseDown={(e) => handleKeyframeMouseDown(e, ref)}
+          onDoubleClick={(e) => e.stopPropagation()}
+          className={`absolute top-1/2 w-2.5 h-2.5 -ml-[5px] -mt-[5px] rotate-45 cursor-ew-resize border ${CHANNEL_COLORS[channel]} ${
+            sameKeyframe(selected, ref) ? 'border-white ring-1 ring-white' : 'border-black/40'
+          }`}
+          style={{ left: percent(t) }}
+          title={`${channel} @ ${kf.time}s: [${kf.value.map(v => +v.toFixed(2)).join(', ')}]${kf.lerpMode !== 'linear' ? ` (${kf.lerpMode})` : ''}`}
+        />
+      );
+    });
+  };
+
+  const renderBoneSummary = (bone: string) => {
+    const times = new Set<number>();
+    const boneData = animation?.bones?.[bone];
+    ANIMATION_CHANNEL_NAMES.forEach(ch => getSortedKeyframes(boneData?.[ch]).forEach(kf => times.add(kf.time)));
+    // Shape tracks aren't editable here yet, but their keys still show up
+    [...getSortedEntries(boneData?.visible), ...getSortedEntries(boneData?.uv_offset)].forEach(kf => times.add(kf.time));
+    return Array.from(times).map(t => (
+      <div
+        key={t}
+        className="absolute top-1/2 w-2 h-2 -ml-1 -mt-1 rotate-45 bg-gray-400 pointer-events-none"
+        style={{ left: percent(t) }}
+      />
+    ));
+  };
+
+  const selectedValue = selected && activeAnimation
+    ? getKeyframeValue(model, activeAnimation, selected.bone, selected.channel, selected.time)
+    : undefined;
+
+  const selectedKeyframe = selected
+    ? getSortedKeyframes(animation?.bones?.[selected.bone]?.[selected.channel]).find(kf => sameKeyframe(selected, { ...selected, time: kf.time }))
+    : undefined;
+
+  const updateSelectedCurve = (lerpMode: LerpMode, bezier?: BezierHandles) => {
+    if (!selected || !activeAnimation) return;
+    applyEdit(m => setKeyframeCurve(m, activeAnimation, selected.bone, selected.channel, selected.time, lerpMode, bezier));
+  };
+
+  const updateSelectedBezier = (index: number, value: number) => {
+    const next = [...(selectedKeyframe?.bezier || DEFAULT_BEZIER)] as BezierHandles;
+    // Time handles must stay inside the segment, value handles may overshoot
+    next[index] = index % 2 === 0 ? Math.min(1, Math.max(0, value)) : value;
+    updateSelectedCurve('bezier', next);
+  };
+
+  const updateSelectedValue = (axis: number, value: number) => {
+    if (!selected || !selectedValue || !activeAnimation) return;
+    const next = [...selectedValue] as [number, number, number];
+    next[axis] = value;
+    applyEdit(m => setKeyframe(m, activeAnimation, selected.bone, selected.channel, selected.time, next));
+  };
+
+  const updateSelectedTime = (value: number) => {
+    if (!selected || !activeAnimation || !Number.isFinite(value)) return;
+    const target = Math.min(length, snapKeyframeTime(value));
+    applyEdit(m => moveKeyframe(m, activeAnimation, selected.bone, selected.channel, selected.time, target));
+    setSelected({ ...selected, time: target });
+    setTime(target);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="h-56 flex flex-col border-t border-[#3e3e42] bg-[#1e1e1e] text-xs text-gray-300 outline-none"
+    >
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 px-3 py-1.5 bg-[#252526] border-b border-[#3e3e42]">
+        <button
+          onClick={() => setIsPlaying(!isPlaying)}
+          disabled={!animation}
+          className="p-1 rounded hover:bg-[#3e3e42] disabled:opacity-40"
+          title={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <button onClick={() => setTime(0)} disabled={!animation} className="p-1 rounded hover:bg-[#3e3e42] disabled:opacity-40" title="Go to start">
+          <SkipBack size={14} />
+        </button>
+        <span className="font-mono text-[10px] text-gray-400 w-20">{time.toFixed(2)} / {length.toFixed(2)}s</span>
+
+        <select
+          value={activeAnimation || ''}
+          onChange={(e) => { setActiveAnimation(e.target.value || undefined); setSelected(null); setTime(0); }}
+          className="bg-[#1e1e1e] border border-[#3e3e42] text-white rounded px-1 py-0.5 max-w-[12rem]"
+        >
+          {!activeAnimation && <option value="">Select animation…</option>}
+          {Object.keys(animations).map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <button onClick={handleCreate} className="p-1 rounded hover:bg-[#3e3e42]" title="New animation"><Plus size={14} /></button>
+        <button onClick={handleRename} disabled={!animation} className="p-1 rounded hover:bg-[#3e3e42] disabled:opacity-40" title="Rename"><Pencil size={14} /></button>
+        <button onClick={handleDuplicate} disabled={!animation} className="p-1 rounded hover:bg-[#3e3e42] disabled:opacity-40" title="Duplicate"><Copy size={14} /></button>
+        <button onClick={handleDelete} disabled={!animation} className="p-1 rounded hover:bg-red-900/50 disabled:opacity-40" title="Delete animation"><Trash2 size={14} /></button>
+
+        {animation && activeAnimation && (
+          <>
+            <label className="flex items-center gap-1 ml-2 text-gray-400">
+              Length
+              <CommitNumberInput
+                min={KEYFRAME_TIME_STEP}
+                step={KEYFRAME_TIME_STEP}
+                value={animation.animation_length ?? DEFAULT_ANIMATION_LENGTH}
+                onCommit={(v) => {
+                  if (v > 0) applyEdit(m => setAnimationProperties(m, activeAnimation, { animation_length: v }));
+                }}
+                className="w-14 bg-[#1e1e1e] border border-[#3e3e42] rounded px-1 py-0.5 text-white"
+              />
+            </label>
+            <label className="flex items-center gap-1 text-gray-400">
+              <input
+                type="checkbox"
+                checked={!!animation.loop}
+                onChange={(e) => applyEdit(m => setAnimationProperties(m, activeAnimation, { loop: e.target.checked }))}
+              />
+              Loop
+            </label>
+          </>
+        )}
+
+        {/* Keyframe inspector */}
+        {selected && selectedValue && (
+          <div className="ml-auto flex items-center gap-1">
+            <Diamond size={10} className="text-gray-500" />
+            <span className="text-gray-400">{selected.bone}.{selected.channel}</span>
+            <CommitNumberInput
+              step={KEYFRAME_TIME_STEP}
+              value={selected.time}
+              onCommit={updateSelectedTime}
+              className="w-14 bg-[#1e1e1e] border border-[#3e3e42] rounded px-1 py-0.5 text-white"
+              title="Time (s)"
+            />
+            {(['X', 'Y', 'Z'] as const).map((axis, i) => (
+              <CommitNumberInput
+                key={axis}
+                step={selected.channel === 'scale' ? 0.1 : 1}
+                value={+selectedValue[i].toFixed(4)}
+                onCommit={(v) => updateSelectedValue(i, v)}
+                className="w-14 bg-[#1e1e1e] border border-[#3e3e42] rounded px-1 py-0.5 text-white"
+                title={axis}
+              />
+            ))}
+            <select
+              value={selectedKeyframe?.lerpMode || 'linear'}
+              onChange={(e) => updateSelectedCurve(e.target.value as LerpMode)}
+              className="bg-[#1e1e1e] border border-[#3e3e42] text-white rounded px-1 py-0.5"
+              title="Interpolation to the next keyframe"
+            >
+              {LERP_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+            </select>
+            {selectedKeyframe?.lerpMode === 'bezier' && (selectedKeyframe.bezier || DEFAULT_BEZIER).map((v, i) => (
+              <CommitNumberInput
+                key={i}
+                step={0.05}
+                value={v}
+                onCommit={(value) => updateSelectedBezier(i, value)}
+                className="w-12 bg-[#1e1e1e] border border-[#3e3e42] rounded px-1 py-0.5 text-white"
+                title={['Out handle time', 'Out handle value', 'In handle time', 'In handle value'][i]}
+              />
+            ))}
+            <button onClick={handleDeleteSelected} className="p-1 rounded hover:bg-red-900/50 text-red-300" title="Delete keyframe (Del)">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!animation ? (
+        <div className="flex-1 flex items-center justify-center text-gray-500">
+          {Object.keys(animations).length > 0 ? 'Select an animation to edit.' : 'No animations yet. Click + to create one.'}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {/* Ruler */}
+          <div className="flex sticky top-0 z-10 bg-[#252526] border-b border-[#3e3e42]">
+            <div className="w-40 shrink-0 px-2 py-1 text-[10px] text-gray-500">Double-click a track to key</div>
+            <div className="flex-1 relative h-6 cursor-pointer mr-3" onMouseDown={handleScrubStart}>
+              {ticks.map(t => (
+                <div key={t} className="absolute top-0 bottom-0 border-l border-[#3e3e42]" style={{ left: percent(t) }}>
+                  <span className="absolute top-0.5 left-1 text-[9px] text-gray-500">{t}</span>
+                </div>
+              ))}
+              <div className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none" style={{ left: percent(time) }}>
+                <div className="absolute -top-0.5 -left-1 w-2 h-2 bg-red-500 rotate-45" />
+              </div>
+            </div>
+          </div>
+
+          {/* Bone rows */}
+          {bones.map(bone => {
+            const expanded = expandedBones.has(bone.name);
+            return (
+              <React.Fragment key={bone.name}>
+                <div className="flex border-b border-[#2d2d2d] hover:bg-[#252526]">
+                  <button
+                    onClick={() => toggleBone(bone.name)}
+                    className="w-40 shrink-0 px-2 py-1 flex items-center gap-1 text-left truncate"
+                  >
+                    {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                    <span className={animation.bones?.[bone.name] ? 'text-white' : 'text-gray-500'}>{bone.name}</span>
+                  </button>
+                  <div className="flex-1 relative h-6 mr-3">
+                    {renderBoneSummary(bone.name)}
+                    {renderPlayhead()}
+                  </div>
+                </div>
+                {expanded && ANIMATION_CHANNEL_NAMES.map(channel => (
+                  <div key={channel} className="flex border-b border-[#2d2d2d] bg-[#1a1a1a]">
+                    <div className="w-40 shrink-0 pl-7 pr-2 py-1 flex items-center gap-1.5 text-gray-400">
+                      <span className={`w-1.5 h-1.5 rounded-full ${CHANNEL_COLORS[channel]}`} />
+                      {channel}
+                    </div>
+                    <div
+                      className="flex-1 relative h-6 mr-3 cursor-crosshair"
+                      onDoubleClick={(e) => handleAddKeyframe(bone.name, channel, timeFromPointer(e.clientX, e.currentTarget))}
+                    >
+                      {renderChannelKeys(bone.name, channel)}
+                      {renderPlayhead()}
+                    </div>
+                  </div>
+                ))}
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnimationTimeline;
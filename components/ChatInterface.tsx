@@ -1,14 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Image as ImageIcon, Loader2, Sparkles, X, Copy } from 'lucide-react';
+import { Send, Image as ImageIcon, Loader2, Sparkles, X, Copy, Square } from 'lucide-react';
 import { ChatMessage, MinecraftModel } from '../types';
+import { GenerationProgress } from '../services/geminiService';
 
 interface ChatInterfaceProps {
   onGenerate: (prompt: string, image?: string) => Promise<void>;
   isGenerating: boolean;
   history: ChatMessage[];
+  progress?: GenerationProgress | null;
+  onCancel?: () => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ onGenerate, isGenerating, history }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ onGenerate, isGenerating, history, progress, onCancel }) => {
   const [input, setInput] = useState('');
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -92,7 +95,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onGenerate, isGenerating,
            <div className="flex justify-start">
              <div className="bg-[#2d2d2d] rounded-lg px-4 py-3 border border-[#3e3e42] flex items-center gap-2 text-gray-400 text-sm">
                 <Loader2 className="w-4 h-4 animate-spin" />
-                Thinking & Sculpting...
+                {progress ? (
+                    <span>
+                        Sculpting... {progress.bonesParsed} bone{progress.bonesParsed === 1 ? '' : 's'}
+                        <span className="text-xs text-gray-500 ml-2">
+                            {progress.outputTokens !== undefined
+                                ? `${progress.outputTokens.toLocaleString()} tokens`
+                                : `${(progress.receivedChars / 1024).toFixed(1)} KB`}
+                            {progress.attempt > 1 && ` · correction ${progress.attempt - 1}`}
+                        </span>
+                    </span>
+                ) : (
+                    "Thinking & Sculpting..."
+                )}
              </div>
            </div>
         )}
@@ -136,14 +151,26 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onGenerate, isGenerating,
                 disabled={isGenerating}
             />
             
-            <button
-                type="submit"
-                disabled={(!input && !selectedImage) || isGenerating}
-                className="bg-blue-600 hover:bg-blue-500 disabled:bg-blue-900 disabled:text-gray-500 text-white px-4 py-2 rounded-lg font-medium transition-all flex items-center gap-2"
-            >
-                {isGenerating ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
-                Generate
-            </button>
+            {isGenerating && onCancel ? (
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="bg-red-900/50 hover:bg-red-800/60 text-red-200 border border-red-800 px-4 py-2 rounded-lg font-medium transition-all flex items-center gap-2"
+                    title="Stop generation and keep the previous model"
+                >
+                    <Square size={18} />
+                    Cancel
+                </button>
+            ) : (
+                <button
+                    type="submit"
+                    disabled={(!input && !selectedImage) || isGenerating}
+                    className="bg-blue-600 hover:bg-blue-500 disabled:bg-blue-900 disabled:text-gray-500 text-white px-4 py-2 rounded-lg font-medium transition-all flex items-center gap-2"
+                >
+                    {isGenerating ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
+                    Generate
+                </button>
+            )}
         </form>
       </div>
     </div>
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { FlipHorizontal2, FlipVertical2, Maximize2, Eye, EyeOff } from 'lucide-react';
+import { MinecraftModel, ModelSelection, CubeFaceName, CubeFaceUV } from '../types';
+import {
+  CUBE_FACE_NAMES, FACE_ROTATIONS, FaceRotation, CubeUvMode, createFace, flipFace, getFaceRect, getFaceSize,
+  isFaceTurned, setCubeBoxUv, setCubeFace, setCubeUvMode, setFaceRect
+} from '../services/faceUv';
+
+interface CubeUVEditorProps {
+  model: MinecraftModel;
+  setModel: (val: MinecraftModel | ((prev: MinecraftModel) => MinecraftModel)) => void;
+  selection: ModelSelection;
+  uvScale: number;
+}
+
+// Keeps a draft while typing and commits on blur or Enter, so one edit is one undo step
+const NumberField: React.FC<{ label: string; value: number; onCommit: (v: number) => void }> = ({ label, value, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const v = parseFloat(draft);
+    setDraft(null);
+    if (Number.isFinite(v) && v !== value) onCommit(v);
+  };
+
+  return (
+    <div className="flex items-center bg-[#121212] rounded px-1">
+      <span className="text-[8px] text-gray-500 mr-1">{label}</span>
+      <input
+        type="number"
+        value={draft ?? value}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          else if (e.key === 'Escape') setDraft(null);
+        }}
+        className="w-full bg-transparent text-[10px] text-gray-300 outline-none text-right"
+      />
+    </div>
+  );
+};
+
+const CubeUVEditor: React.FC<CubeUVEditorProps> = ({ model, setModel, selection, uvScale }) => {
+  const cube = selection.cubeIndex !== undefined ? model.bedrockData?.bones[selection.boneIndex]?.cubes[selection.cubeIndex] : undefined;
+  if (!cube) return null;
+
+  const mode: CubeUvMode = cube.faces ? 'faces' : 'box';
+
+  const applyEdit = (edit: () => MinecraftModel) => {
+    try {
+      setModel(edit());
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const updateFace = (name: CubeFaceName, face: CubeFaceUV | undefined) =>
+    applyEdit(() => setCubeFace(model, selection, name, face));
+
+  const fitFace = (name: CubeFaceName, face: CubeFaceUV) => {
+    const [w, h] = getFaceSize(cube, name, uvScale);
+    const { x, y } = getFaceRect(face);
+    updateFace(name, isFaceTurned(face) ? setFaceRect(face, [x, y], h, w) : setFaceRect(face, [x, y], w, h));
+  };
+
+  const renderFace = (name: CubeFaceName) => {
+    const face = cube.faces?.[name];
+    if (!face) {
+      return (
+        <div key={name} className="flex items-center gap-1 text-[10px] text-gray-600">
+          <button onClick={() => updateFace(name, createFace(cube, name, uvScale))} className="hover:text-gray-300" title="Show face">
+            <EyeOff size={10} />
+          </button>
+          <span className="w-9 capitalize">{name}</span>
+          <span>hidden</span>
+        </div>
+      );
+    }
+
+    const rect = getFaceRect(face);
+    const [u1, v1, u2, v2] = face.uv;
+    const moveTo = (x: number, y: number, w: number, h: number) => updateFace(name, setFaceRect(face, [x, y], w, h));
+
+    return (
+      <div key={name} className="space-y-1">
+        <div className="flex items-center gap-1 text-[10px] text-gray-400">
+          <button onClick={() => updateFace(name, undefined)} className="hover:text-white" title="Hide face">
+            <Eye size={10} />
+          </button>
+          <span className="w-9 capitalize">{name}</span>
+          <select
+            value={face.rotation || 0}
+            onChange={(e) => updateFace(name, { ...face, rotation: Number(e.target.value) as FaceRotation })}
+            className="bg-[#1e1e1e] border border-[#3e3e42] rounded px-0.5 text-[10px] text-gray-300"
+            title="Rotation"
+          >
+            {FACE_ROTATIONS.map(r => <option key={r} value={r}>{r}°</option>)}
+          </select>
+          <button
+            onClick={() => updateFace(name, flipFace(face, 'u'))}
+            className={`p-0.5 rounded ${u2 < u1 ? 'text-blue-300 bg-blue-900/40' : 'hover:text-white'}`}
+            title="Mirror horizontally"
+          >
+            <FlipHorizontal2 size={10} />
+          </button>
+          <button
+            onClick={() => updateFace(name, flipFace(face, 'v'))}
+            className={`p-0.5 rounded ${v2 < v1 ? 'text-blue-300 bg-blue-900/40' : 'hover:text-white'}`}
+            title="Mirror vertically"
+          >
+            <FlipVertical2 size={10} />
+          </button>
+          <button onClick={() => fitFace(name, face)} className="ml-auto p-0.5 rounded hover:text-white" title="Fit to cube size">
+            <Maximize2 size={10} />
+          </button>
+        </div>
+        <div className="grid grid-cols-4 gap-1">
+          <NumberField label="U" value={rect.x} onCommit={(x) => moveTo(x, rect.y, rect.w, rect.h)} />
+          <NumberField label="V" value={rect.y} onCommit={(y) => moveTo(rect.x, y, rect.w, rect.h)} />
+          <NumberField label="W" value={rect.w} onCommit={(w) => moveTo(rect.x, rect.y, Math.max(0, w), rect.h)} />
+          <NumberField label="H" value={rect.h} onCommit={(h) => moveTo(rect.x, rect.y, rect.w, Math.max(0, h))} />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-[#252526] p-3 rounded border border-[#3e3e42] space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] text-gray-500 font-bold uppercase">Cube {selection.cubeIndex! + 1} UV</label>
+        <div className="flex gap-1 bg-[#121212] p-0.5 rounded border border-[#3e3e42]">
+          {(['box', 'faces'] as const).map(m => (
+            <button
+              key={m}
+              onClick={() => applyEdit(() => setCubeUvMode(model, selection, m, uvScale))}
+              className={`text-[10px] px-2 py-0.5 rounded ${mode === m ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {m === 'box' ? 'Box' : 'Per-face'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'box' ? (
+        <div className="space-y-1">
+          <div className="grid grid-cols-2 gap-1">
+            <NumberField label="U" value={cube.uv?.[0] || 0} onCommit={(u) => applyEdit(() => setCubeBoxUv(model, selection, [u, cube.uv?.[1] || 0], !!cube.mirror))} />
+            <NumberField label="V" value={cube.uv?.[1] || 0} onCommit={(v) => applyEdit(() => setCubeBoxUv(model, selection, [cube.uv?.[0] || 0, v], !!cube.mirror))} />
+          </div>
+          <label className="flex items-center gap-2 text-[10px] text-gray-400">
+            <input
+              type="checkbox"
+              checked={!!cube.mirror}
+              onChange={(e) => applyEdit(() => setCubeBoxUv(model, selection, cube.uv || [0, 0], e.target.checked))}
+            />
+            Mirror
+          </label>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {CUBE_FACE_NAMES.map(renderFace)}
+          <p className="text-[10px] text-gray-600">Hidden faces are not drawn and take no texture space.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CubeUVEditor;
@@ -0,0 +1,246 @@
+import React, { useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, Copy, FolderPlus, PlusSquare, Trash2, Box } from 'lucide-react';
+import { MinecraftModel, ModelBone, ModelSelection } from '../types';
+import {
+  getParentName, reparentBone, renameBone, deleteBone, duplicateBone, addBone,
+  addCube, duplicateCube, deleteCube, moveCube
+} from '../services/hierarchyEditor';
+
+interface HierarchyOutlinerProps {
+  model: MinecraftModel;
+  setModel: (val: MinecraftModel | ((prev: MinecraftModel) => MinecraftModel)) => void;
+  selection: ModelSelection | null;
+  setSelection: (selection: ModelSelection | null) => void;
+}
+
+type DragItem = { kind: 'bone'; boneIndex: number } | { kind: 'cube'; boneIndex: number; cubeIndex: number };
+
+const HierarchyOutliner: React.FC<HierarchyOutlinerProps> = ({ model, setModel, selection, setSelection }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [renaming, setRenaming] = useState<{ index: number; value: string } | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | 'root' | null>(null);
+  const dragRef = useRef<DragItem | null>(null);
+
+  const bones = model.bedrockData?.bones || [];
+  const selectedBone = selection ? bones[selection.boneIndex] : undefined;
+  const selectedCube = selection?.cubeIndex !== undefined ? selection.cubeIndex : undefined;
+
+  // Runs a hierarchy edit as one undo step; refused edits are reported, not applied
+  const applyEdit = (edit: () => void) => {
+    try {
+      edit();
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const toggleCollapsed = (name: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  // --- Toolbar ---
+
+  const handleAddBone = () => applyEdit(() => {
+    const result = addBone(model, selectedBone?.name);
+    setModel(result.model);
+    setSelection({ boneIndex: result.index });
+  });
+
+  const handleAddCube = () => applyEdit(() => {
+    if (!selection) throw new Error("Select a bone to add the cube to.");
+    const result = addCube(model, selection.boneIndex);
+    setModel(result.model);
+    setSelection({ boneIndex: selection.boneIndex, cubeIndex: result.index });
+  });
+
+  const handleDuplicate = () => applyEdit(() => {
+    if (!selection) return;
+    if (selectedCube !== undefined) {
+      setModel(duplicateCube(model, selection.boneIndex, selectedCube));
+      setSelection({ boneIndex: selection.boneIndex, cubeIndex: selectedCube + 1 });
+    } else {
+      const result = duplicateBone(model, selection.boneIndex);
+      setModel(result.model);
+      setSelection({ boneIndex: result.index });
+    }
+  });
+
+  const handleDelete = () => applyEdit(() => {
+    if (!selection) return;
+    setModel(selectedCube !== undefined
+      ? deleteCube(model, selection.boneIndex, selectedCube)
+      : deleteBone(model, selection.boneIndex));
+    setSelection(selectedCube !== undefined ? { boneIndex: selection.boneIndex } : null);
+  });
+
+  const commitRename = () => {
+    if (!renaming) return;
+    const { index, value } = renaming;
+    setRenaming(null);
+    applyEdit(() => setModel(renameBone(model, index, value)));
+  };
+
+  // --- Drag & Drop ---
+
+  const handleDrop = (target: number | 'root') => {
+    const item = dragRef.current;
+    dragRef.current = null;
+    setDropTarget(null);
+    if (!item) return;
+
+    applyEdit(() => {
+      if (item.kind === 'bone') {
+        const parent = target === 'root' ? null : bones[target].name;
+        const next = reparentBone(model, item.boneIndex, parent);
+        if (next === model) return;
+        setModel(next);
+        setSelection({ boneIndex: item.boneIndex });
+        if (parent) setCollapsed(prev => { const s = new Set(prev); s.delete(parent); return s; });
+      } else if (target !== 'root') {
+        const result = moveCube(model, item.boneIndex, item.cubeIndex, target);
+        if (result.model === model) return;
+        setModel(result.model);
+        setSelection({ boneIndex: target, cubeIndex: result.index });
+      }
+    });
+  };
+
+  const dropProps = (target: number | 'root') => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragRef.current || (target === 'root' && dragRef.current.kind === 'cube')) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(t => (t === target ? null : t)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      handleDrop(target);
+    }
+  });
+
+  const startDrag = (e: React.DragEvent, item: DragItem) => {
+    dragRef.current = item;
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', '');
+    e.stopPropagation();
+  };
+
+  // --- Rows ---
+
+  const renderBone = (bone: ModelBone, depth: number): React.ReactNode => {
+    const index = bones.indexOf(bone);
+    const children = bones.filter(b => getParentName(bones, b) === bone.name);
+    const isOpen = !collapsed.has(bone.name);
+    const isSelected = selection?.boneIndex === index && selectedCube === undefined;
+    const hasContents = children.length > 0 || bone.cubes.length > 0;
+
+    return (
+      <div key={bone.name}>
+        <div
+          draggable={renaming?.index !== index}
+          onDragStart={(e) => startDrag(e, { kind: 'bone', boneIndex: index })}
+          onDragEnd={() => { dragRef.current = null; setDropTarget(null); }}
+          {...dropProps(index)}
+          onClick={() => setSelection({ boneIndex: index })}
+          onDoubleClick={() => setRenaming({ index, value: bone.name })}
+          style={{ paddingLeft: depth * 12 + 4 }}
+          className={`flex items-center gap-1.5 pr-1 py-1 rounded cursor-pointer text-xs border ${
+            dropTarget === index ? 'border-blue-500 bg-blue-900/30' :
+            isSelected ? 'bg-blue-900/50 text-blue-200 border-blue-800' : 'border-transparent text-gray-400 hover:bg-[#2d2d2d]'
+          }`}
+        >
+          <button
+            onClick={(e) => { e.stopPropagation(); toggleCollapsed(bone.name); }}
+            className={`text-gray-500 hover:text-white ${hasContents ? '' : 'invisible'}`}
+          >
+            {isOpen ? <ChevronDown size={10} /> : <ChevronRight size={10} />}
+          </button>
+          <div className={`w-2 h-2 rounded-full flex-shrink-0 ${bone.parent ? 'bg-gray-600' : 'bg-orange-500'}`} />
+          {renaming?.index === index ? (
+            <input
+              autoFocus
+              value={renaming.value}
+              onChange={(e) => setRenaming({ index, value: e.target.value })}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                else if (e.key === 'Escape') setRenaming(null);
+              }}
+              onClick={(e) => e.stopPropagation()}
+              className="flex-1 min-w-0 bg-[#1e1e1e] border border-blue-700 rounded px-1 text-white text-xs"
+            />
+          ) : (
+            <span className="truncate" title="Double-click to rename">{bone.name}</span>
+          )}
+          {bone.attachments && bone.attachments.length > 0 && (
+            <div className="ml-auto w-1.5 h-1.5 rounded-full bg-yellow-500" />
+          )}
+        </div>
+
+        {isOpen && (
+          <>
+            {bone.cubes.map((cube, cubeIndex) => (
+              <div
+                key={`cube-${cubeIndex}`}
+                draggable
+                onDragStart={(e) => startDrag(e, { kind: 'cube', boneIndex: index, cubeIndex })}
+                onDragEnd={() => { dragRef.current = null; setDropTarget(null); }}
+                onClick={() => setSelection({ boneIndex: index, cubeIndex })}
+                style={{ paddingLeft: (depth + 1) * 12 + 18 }}
+                className={`flex items-center gap-1.5 pr-1 py-0.5 rounded cursor-pointer text-[10px] border ${
+                  selection?.boneIndex === index && selectedCube === cubeIndex
+                    ? 'bg-blue-900/50 text-blue-200 border-blue-800'
+                    : 'border-transparent text-gray-500 hover:bg-[#2d2d2d]'
+                }`}
+              >
+                <Box size={10} className="flex-shrink-0" />
+                <span className="truncate">cube {cubeIndex + 1}</span>
+                <span className="ml-auto text-gray-600">{cube.size.join('×')}</span>
+              </div>
+            ))}
+            {children.map(child => renderBone(child, depth + 1))}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const roots = bones.filter(b => !getParentName(bones, b));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-1">
+        <button onClick={handleAddBone} disabled={!model.bedrockData} className="flex-1 bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-1 rounded text-[10px] flex items-center justify-center gap-1 border border-[#3e3e42] disabled:opacity-50" title={selectedBone ? `New bone under ${selectedBone.name}` : 'New root bone'}>
+          <FolderPlus size={12} /> Bone
+        </button>
+        <button onClick={handleAddCube} disabled={!selection} className="flex-1 bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-1 rounded text-[10px] flex items-center justify-center gap-1 border border-[#3e3e42] disabled:opacity-50" title="New cube in the selected bone">
+          <PlusSquare size={12} /> Cube
+        </button>
+        <button onClick={handleDuplicate} disabled={!selection} className="bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 px-2 py-1 rounded border border-[#3e3e42] disabled:opacity-50" title="Duplicate selection">
+          <Copy size={12} />
+        </button>
+        <button onClick={handleDelete} disabled={!selection} className="bg-[#2d2d2d] hover:bg-red-900/40 text-red-400 px-2 py-1 rounded border border-[#3e3e42] disabled:opacity-50" title="Delete selection (children are kept)">
+          <Trash2 size={12} />
+        </button>
+      </div>
+
+      <div
+        {...dropProps('root')}
+        className={`max-h-56 overflow-y-auto bg-[#121212] border rounded p-1 custom-scrollbar ${dropTarget === 'root' ? 'border-blue-500' : 'border-[#3e3e42]'}`}
+      >
+        {roots.map(bone => renderBone(bone, 0))}
+        {bones.length === 0 && <div className="text-[10px] text-gray-600 p-2 text-center">No bones yet</div>}
+      </div>
+      <p className="text-[10px] text-gray-600">Drag onto a bone to reparent, onto empty space to unparent. Double-click to rename.</p>
+    </div>
+  );
+};
+
+export default HierarchyOutliner;
@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import { AlertCircle, AlertTriangle, Info, CheckCircle2, Wrench } from 'lucide-react';
+import { MinecraftModel, ModelSelection } from '../types';
+import { lintModel, LintDiagnostic, LintSeverity } from '../services/modelLinter';
+import { PackOptions, PackReport, TextureDensity } from '../services/textureMapper';
+
+interface ProblemsPanelProps {
+  model: MinecraftModel;
+  setModel: (val: MinecraftModel | ((prev: MinecraftModel) => MinecraftModel)) => void;
+  setSelection: (selection: ModelSelection | null) => void;
+  uvScale: number;
+  textureDensity: TextureDensity;
+  onRepackUVs: (options: PackOptions) => Promise<PackReport | null>;
+}
+
+const SEVERITY_STYLE: Record<LintSeverity, { icon: React.ReactNode; text: string }> = {
+  error: { icon: <AlertCircle size={12} className="text-red-400 flex-shrink-0 mt-0.5" />, text: 'text-red-200' },
+  warning: { icon: <AlertTriangle size={12} className="text-yellow-400 flex-shrink-0 mt-0.5" />, text: 'text-yellow-100' },
+  info: { icon: <Info size={12} className="text-blue-400 flex-shrink-0 mt-0.5" />, text: 'text-gray-300' }
+};
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ model, setModel, setSelection, uvScale, textureDensity, onRepackUVs }) => {
+  const diagnostics = useMemo(() => lintModel(model, { uvScale, density: textureDensity }), [model, uvScale, textureDensity]);
+
+  const counts = diagnostics.reduce((acc, d) => ({ ...acc, [d.severity]: acc[d.severity] + 1 }), { error: 0, warning: 0, info: 0 });
+
+  const handleSelect = (d: LintDiagnostic) => {
+    if (d.boneIndex === undefined) return;
+    setSelection(d.cubeIndex !== undefined ? { boneIndex: d.boneIndex, cubeIndex: d.cubeIndex } : { boneIndex: d.boneIndex });
+  };
+
+  const handleFix = async (d: LintDiagnostic) => {
+    if (!d.fix) return;
+    try {
+      // UV fixes keep valid islands and go through the app so a painted texture stays aligned
+      if (d.fix.repacksUVs) await onRepackUVs({ stable: true });
+      else setModel(d.fix.apply(model));
+    } catch (err: any) {
+      alert(`Quick-fix failed: ${err.message}`);
+    }
+  };
+
+  if (diagnostics.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-[10px] text-green-400 bg-[#252526] border border-[#3e3e42] rounded p-2">
+        <CheckCircle2 size={12} /> No problems found
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-3 text-[10px] text-gray-500">
+        <span>{counts.error} errors</span>
+        <span>{counts.warning} warnings</span>
+        <span>{counts.info} notes</span>
+      </div>
+      <div className="max-h-48 overflow-y-auto bg-[#121212] border border-[#3e3e42] rounded p-1 space-y-0.5 custom-scrollbar">
+        {diagnostics.map((d, idx) => (
+          <div
+            key={idx}
+            onClick={() => handleSelect(d)}
+            className={`flex items-start gap-1.5 p-1 rounded text-[10px] ${d.boneIndex !== undefined ? 'cursor-pointer hover:bg-[#2d2d2d]' : ''}`}
+            title={d.rule}
+          >
+            {SEVERITY_STYLE[d.severity].icon}
+            <span className={`flex-1 ${SEVERITY_STYLE[d.severity].text}`}>{d.message}</span>
+            {d.fix && (
+              <button
+                onClick={(e) => { e.stopPropagation(); handleFix(d); }}
+                className="flex-shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 border border-[#3e3e42]"
+              >
+                <Wrench size={10} /> {d.fix.label}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProblemsPanel;
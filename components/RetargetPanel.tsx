@@ -0,0 +1,150 @@
+import React, { useRef, useState } from 'react';
+import { FileUp, Shuffle, X, RefreshCcw } from 'lucide-react';
+import { MinecraftModel, AnimationDefinition } from '../types';
+import { importModelFile } from '../services/modelImporter';
+import { isProjectFileName, loadProjectFile, PROJECT_FILE_EXTENSION } from '../services/projectFile';
+import { BoneMapping, suggestBoneMapping, retargetAnimations } from '../services/animationRetarget';
+
+interface RetargetPanelProps {
+  model: MinecraftModel;
+  onApply: (animations: Record<string, AnimationDefinition>) => void;
+}
+
+interface RetargetSource {
+  name: string;
+  model: MinecraftModel;
+}
+
+const RetargetPanel: React.FC<RetargetPanelProps> = ({ model, onApply }) => {
+  const [source, setSource] = useState<RetargetSource | null>(null);
+  const [mapping, setMapping] = useState<BoneMapping>({});
+  const [selectedAnimations, setSelectedAnimations] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const targetBones = model.bedrockData?.bones.map(b => b.name) || [];
+  const sourceAnimations = Object.keys(source?.model.animations || {});
+  // Only bones that are actually animated need a mapping
+  const animatedBones = source
+    ? Array.from(new Set(sourceAnimations.flatMap(name => Object.keys(source.model.animations![name].bones || {}))))
+    : [];
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (inputRef.current) inputRef.current.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    try {
+      const loaded = isProjectFileName(file.name) ? (await loadProjectFile(file)).model : (await importModelFile(file)).model;
+      if (!loaded?.bedrockData || !loaded.animations || Object.keys(loaded.animations).length === 0) {
+        alert("That file has no entity animations to retarget.");
+        return;
+      }
+      setSource({ name: file.name, model: loaded });
+      setMapping(suggestBoneMapping(loaded, model));
+      setSelectedAnimations(new Set(Object.keys(loaded.animations)));
+    } catch (err: any) {
+      console.error(err);
+      alert(`Failed to load source: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleAnimation = (name: string) => {
+    setSelectedAnimations(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!source) return;
+    const chosen = Object.fromEntries(
+      Object.entries(source.model.animations || {}).filter(([name]) => selectedAnimations.has(name))
+    );
+    if (Object.keys(chosen).length === 0) {
+      alert("Select at least one animation.");
+      return;
+    }
+    if (!Object.values(mapping).some(Boolean)) {
+      alert("Map at least one bone.");
+      return;
+    }
+    onApply(retargetAnimations(chosen, source.model, model, mapping));
+  };
+
+  if (!source) {
+    return (
+      <>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={isLoading || !model.bedrockData}
+          className="w-full bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-2 rounded text-xs flex items-center justify-center gap-2 border border-[#3e3e42] disabled:opacity-50"
+        >
+          <FileUp size={14} /> {isLoading ? 'Loading…' : 'Load Source Model…'}
+        </button>
+        <input type="file" ref={inputRef} className="hidden" accept={`${PROJECT_FILE_EXTENSION},.json,.blockymodel,.zip,.bbmodel`} onChange={handleFileChange} />
+      </>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-[10px] text-gray-400">
+        <span className="truncate" title={source.name}>From: <span className="text-white">{source.name}</span></span>
+        <button onClick={() => setSource(null)} className="p-1 hover:text-white" title="Close source">
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className="bg-[#252526] rounded border border-[#3e3e42] p-2 space-y-1 max-h-28 overflow-y-auto custom-scrollbar">
+        {sourceAnimations.map(name => (
+          <label key={name} className="flex items-center gap-2 text-[10px] text-gray-300">
+            <input type="checkbox" checked={selectedAnimations.has(name)} onChange={() => toggleAnimation(name)} />
+            <span className="truncate">{name}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold text-gray-500 uppercase">Bone Mapping</span>
+        <button
+          onClick={() => setMapping(suggestBoneMapping(source.model, model))}
+          className="text-[10px] text-gray-400 hover:text-white flex items-center gap-1"
+          title="Re-run automatic matching"
+        >
+          <RefreshCcw size={10} /> Auto
+        </button>
+      </div>
+      <div className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+        {animatedBones.map(boneName => (
+          <div key={boneName} className="flex items-center gap-1 text-[10px]">
+            <span className="flex-1 truncate text-gray-300" title={boneName}>{boneName}</span>
+            <span className="text-gray-600">→</span>
+            <select
+              value={mapping[boneName] || ''}
+              onChange={(e) => setMapping(m => ({ ...m, [boneName]: e.target.value || null }))}
+              className={`flex-1 bg-[#1e1e1e] border border-[#3e3e42] rounded px-1 py-0.5 ${mapping[boneName] ? 'text-white' : 'text-gray-500'}`}
+            >
+              <option value="">(skip)</option>
+              {targetBones.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={handleApply}
+        className="w-full bg-blue-900/40 hover:bg-blue-800/50 text-blue-200 py-2 rounded text-xs flex items-center justify-center gap-2 border border-blue-800"
+      >
+        <Shuffle size={14} /> Retarget {selectedAnimations.size} Animation{selectedAnimations.size === 1 ? '' : 's'}
+      </button>
+    </div>
+  );
+};
+
+export default RetargetPanel;
@@ -1,9 +1,23 @@
 import React, { useRef, useState, useMemo } from 'react';
-import { Box, Layers, Code, FileJson, Undo, Redo, Trash2, Image as ImageIcon, Wand2, Upload, Settings, Cuboid, Ghost, User, Grid2X2, Play, Pause, Film, Activity, AlertTriangle, Sparkles, Hammer, Shapes, FileUp, Download, Package, Gamepad2, RefreshCcw, Plus, MousePointer2 } from 'lucide-react';
-import { MinecraftModel, ViewMode, ModLoader, ModelType, ModelBone, ModelAttachment } from '../types';
+import { Box, Layers, Code, FileJson, Undo, Redo, Trash2, Image as ImageIcon, Wand2, Upload, Settings, Cuboid, Ghost, User, Grid2X2, Play, Pause, Film, Activity, AlertTriangle, Sparkles, Hammer, Shapes, FileUp, Download, Package, Gamepad2, RefreshCcw, Plus, MousePointer2, Minimize2, Save, FolderOpen, FlipHorizontal2, Palette } from 'lucide-react';
+import { MinecraftModel, ViewMode, ModLoader, ModelType, ModelBone, ModelAttachment, AnimationDefinition, ModelSelection } from '../types';
+import RetargetPanel from './RetargetPanel';
+import HierarchyOutliner from './HierarchyOutliner';
+import ProblemsPanel from './ProblemsPanel';
+import CubeUVEditor from './CubeUVEditor';
+import { mirrorSelection, symmetrizeModel } from '../services/symmetry';
 import { exportHytaleModel } from '../services/modelExporter';
+import { exportBlockbenchModel } from '../services/blockbenchFormat';
+import { exportBedrockResourcePack } from '../services/bedrockExporter';
+import { exportJavaBlockPack } from '../services/javaBlockExporter';
 import { HYTALE_TEMPLATE } from '../constants';
-import { packUVs } from '../services/textureMapper';
+import { PackOptions, PackReport, formatPackReport } from '../services/textureMapper';
+import { countModelNodes, HYTALE_NODE_LIMIT, NodeBudgetReport } from '../services/nodeBudget';
+import { PROJECT_FILE_EXTENSION } from '../services/projectFile';
+import { VoxelizeOptions, VOXEL_RESOLUTIONS, DEFAULT_VOXELIZE_OPTIONS } from '../services/meshVoxelizer';
+import { BakeOptions, DEFAULT_BAKE_OPTIONS } from '../services/colorBaker';
+import { PrimitiveParams, PrimitiveAxis, SphereMode, PRIMITIVE_SHAPES, DEFAULT_PRIMITIVE_RADIUS } from '../services/primitiveGenerator';
+import { ProceduralAnimationParams, PROCEDURAL_ANIMATION_TYPES, DEFAULT_PROCEDURAL_PARAMS, detectRig, describeRig } from '../services/proceduralAnimation';
 
 interface SidebarProps {
   model: MinecraftModel;
@@ -14,8 +28,16 @@ interface SidebarProps {
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
+  onOptimizeNodes: () => NodeBudgetReport;
+  onRepackUVs: (options: PackOptions) => Promise<PackReport | null>;
+  onBakeColors: (options: BakeOptions) => void;
   onDeleteBone: (index: number) => void;
+  selection: ModelSelection | null;
+  setSelection: (selection: ModelSelection | null) => void;
+  symmetryEdit: boolean;
+  setSymmetryEdit: (val: boolean) => void;
   textureData?: string | null;
+  uvScaleFactor: number;
   onGenerateTexture: (prompt?: string, existingImage?: string) => void;
   onUploadTexture: (data: string) => void;
   onClearTexture: () => void;
@@ -28,8 +50,12 @@ interface SidebarProps {
   setIsPlaying?: (val: boolean) => void;
   onAutoRig: () => void;
   onEnhanceDetail: () => void;
-  onAddPrimitive: (shape: string, radius: number) => void;
-  onImportJson: (file: File) => void;
+  onAddPrimitive: (params: PrimitiveParams) => void;
+  onGenerateProceduralAnimation: (params: ProceduralAnimationParams) => void;
+  onRetargetAnimations: (animations: Record<string, AnimationDefinition>) => void;
+  onImportJson: (file: File, meshOptions?: Partial<VoxelizeOptions>) => void;
+  onSaveProject: () => void;
+  onOpenProject: (file: File) => void;
   onConvertToMinecraft?: () => void; 
   textureDensity: '16x' | '32x' | '64x';
   setTextureDensity: (val: '16x' | '32x' | '64x') => void;
@@ -44,8 +70,16 @@ const Sidebar: React.FC<SidebarProps> = ({
   onRedo,
   canUndo,
   canRedo,
+  onOptimizeNodes,
+  onRepackUVs,
+  onBakeColors,
   onDeleteBone,
+  selection,
+  setSelection,
+  symmetryEdit,
+  setSymmetryEdit,
   textureData,
+  uvScaleFactor,
   onGenerateTexture,
   onUploadTexture,
   onClearTexture,
@@ -59,34 +93,39 @@ const Sidebar: React.FC<SidebarProps> = ({
   onAutoRig,
   onEnhanceDetail,
   onAddPrimitive,
+  onGenerateProceduralAnimation,
+  onRetargetAnimations,
   onImportJson,
+  onSaveProject,
+  onOpenProject,
   onConvertToMinecraft,
   textureDensity,
   setTextureDensity
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const importInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
   const [texturePrompt, setTexturePrompt] = useState("");
-  const [primitiveRadius, setPrimitiveRadius] = useState<number>(4);
-  const [selectedBoneIndex, setSelectedBoneIndex] = useState<number | null>(null);
+  const [proceduralParams, setProceduralParams] = useState<Omit<ProceduralAnimationParams, 'type'>>(DEFAULT_PROCEDURAL_PARAMS);
+  const detectedRig = useMemo(() => detectRig(model), [model]);
+  const [primitiveParams, setPrimitiveParams] = useState<Omit<PrimitiveParams, 'shape'>>({ radius: DEFAULT_PRIMITIVE_RADIUS, axis: 'y', sphereMode: 'voxel', hollow: false });
+  const selectedBoneIndex = selection ? selection.boneIndex : null;
   const [newAttachmentName, setNewAttachmentName] = useState("hand_right");
 
+  const [budgetReport, setBudgetReport] = useState<NodeBudgetReport | null>(null);
+  const [packOptions, setPackOptions] = useState<Pick<PackOptions, 'stable' | 'shareIslands'>>({ stable: true, shareIslands: false });
+  const [packReport, setPackReport] = useState<PackReport | null>(null);
+  const [bakeOptions, setBakeOptions] = useState<BakeOptions>(DEFAULT_BAKE_OPTIONS);
+  const [meshOptions, setMeshOptions] = useState<Pick<VoxelizeOptions, 'resolution' | 'bakeTexture'>>({
+    resolution: DEFAULT_VOXELIZE_OPTIONS.resolution,
+    bakeTexture: DEFAULT_VOXELIZE_OPTIONS.bakeTexture
+  });
+
   const stats = useMemo(() => {
-    let cubes = 0;
-    let bones = 0;
-    if (model.bedrockData?.bones) {
-        bones = model.bedrockData.bones.length;
-        const countCubes = (bArr: any[]) => {
-            bArr.forEach(b => {
-                cubes += b.cubes?.length || 0;
-            });
-        };
-        countCubes(model.bedrockData.bones);
-    }
-    
+    const { cubes, bones, total: totalNodes } = countModelNodes(model);
+
     // 255 Limit check
-    const totalNodes = bones + cubes;
-    const isOverLimit = totalNodes > 255;
+    const isOverLimit = totalNodes > HYTALE_NODE_LIMIT;
 
     let complexity = "Low";
     if (totalNodes > 100) complexity = "Medium";
@@ -98,21 +137,53 @@ const Sidebar: React.FC<SidebarProps> = ({
 
   const handleExportHytale = () => {
     if (stats.isOverLimit) {
-        if (!confirm(`Warning: Your model has ${stats.totalNodes} nodes, which exceeds the Hytale limit of 255. It may not load correctly. Export anyway?`)) {
+        if (!confirm(`Warning: Your model has ${stats.totalNodes} nodes, which exceeds the Hytale limit of ${HYTALE_NODE_LIMIT}. Try "Optimize Nodes" in the Edit tab first. Export anyway?`)) {
             return;
         }
     }
-    exportHytaleModel(model, textureData);
+    exportHytaleModel(model, textureData, uvScaleFactor);
+  };
+
+  const handleRepack = async () => {
+    if (textureData && !packOptions.stable &&
+        !confirm("Rebuilding the layout moves every island, so the current texture will no longer line up. Continue?")) {
+      return;
+    }
+    try {
+      setPackReport(await onRepackUVs(packOptions));
+    } catch (err: any) {
+      alert(`UV packing failed: ${err.message}`);
+    }
+  };
+
+  const handleBakeColors = () => {
+    if (textureData && !confirm("Baking repacks the UVs and replaces the current texture with the cube colors. Continue?")) {
+      return;
+    }
+    try {
+      onBakeColors(bakeOptions);
+      setPackReport(null);
+    } catch (err: any) {
+      alert(`Color baking failed: ${err.message}`);
+    }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      onImportJson(file);
+      onImportJson(file, meshOptions);
     }
     if (importInputRef.current) importInputRef.current.value = '';
   };
 
+  const handleProjectFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onOpenProject(file);
+    }
+    if (projectInputRef.current) projectInputRef.current.value = '';
+  };
+
   const handleTextureUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -192,6 +263,14 @@ const Sidebar: React.FC<SidebarProps> = ({
       });
   };
 
+  const handleSymmetryEdit = (edit: (m: MinecraftModel) => MinecraftModel) => {
+      try {
+          setModel(edit(model));
+      } catch (err: any) {
+          alert(err.message);
+      }
+  };
+
   const selectedBone = selectedBoneIndex !== null && model.bedrockData ? model.bedrockData.bones[selectedBoneIndex] : null;
 
   return (
@@ -245,35 +324,108 @@ const Sidebar: React.FC<SidebarProps> = ({
                 <span>Cubes: <span className="text-white">{stats.cubes}</span></span>
             </div>
             <div className="flex justify-between text-gray-400 border-t border-[#3e3e42] pt-1 mt-1">
-                <span>Total Nodes: <span className={stats.isOverLimit ? "text-red-500 font-bold" : "text-white"}>{stats.totalNodes} / 255</span></span>
+                <span>Total Nodes: <span className={stats.isOverLimit ? "text-red-500 font-bold" : "text-white"}>{stats.totalNodes} / {HYTALE_NODE_LIMIT}</span></span>
             </div>
         </div>
 
+        {currentMode === ViewMode.EDITOR && (
+            <div className="space-y-2">
+                <button
+                    onClick={() => setBudgetReport(onOptimizeNodes())}
+                    className={`w-full py-2 rounded text-xs font-medium flex items-center justify-center gap-2 border transition-colors ${
+                        stats.isOverLimit
+                            ? 'bg-red-900/50 text-red-200 border-red-800 hover:bg-red-800/60'
+                            : 'bg-[#2d2d2d] text-gray-300 border-[#3e3e42] hover:bg-[#3e3e42]'
+                    }`}
+                >
+                    <Minimize2 size={14} /> Optimize Nodes
+                </button>
+                {budgetReport && (
+                    <div className="bg-[#121212] p-2 rounded border border-[#3e3e42] text-[10px] text-gray-400 space-y-0.5">
+                        <div className="flex justify-between">
+                            <span>Nodes</span>
+                            <span className={budgetReport.withinLimit ? 'text-green-400' : 'text-red-400'}>
+                                {budgetReport.before.total} → {budgetReport.after.total}
+                            </span>
+                        </div>
+                        <div className="flex justify-between"><span>Hidden cubes removed</span><span className="text-white">{budgetReport.removedHiddenCubes}</span></div>
+                        <div className="flex justify-between"><span>Cubes merged</span><span className="text-white">{budgetReport.mergedCubes}</span></div>
+                        {budgetReport.recoloredMerges > 0 && (
+                            <div className="flex justify-between text-yellow-500"><span>Merged across colours</span><span>{budgetReport.recoloredMerges}</span></div>
+                        )}
+                        <div className="flex justify-between"><span>Empty bones collapsed</span><span className="text-white">{budgetReport.collapsedBones}</span></div>
+                    </div>
+                )}
+            </div>
+        )}
+
+        {currentMode === ViewMode.EDITOR && model.type === 'BLOCK' && (
+            <div className="space-y-2">
+                <h3 className="text-xs font-bold text-gray-500 uppercase">Java Blockstate</h3>
+                <div className="bg-[#121212] p-2 rounded border border-[#3e3e42] text-[10px] text-gray-400">
+                    {model.javaBlockState?.multipart?.length
+                        ? `${model.javaBlockState.multipart.length} multipart case(s)`
+                        : model.javaBlockState?.variants && Object.keys(model.javaBlockState.variants).length > 0
+                            ? Object.keys(model.javaBlockState.variants).map(k => k || '(default)').join(', ')
+                            : 'Single default state'}
+                </div>
+                <button onClick={onGenerateBlockState} className="w-full bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-2 rounded text-xs font-medium flex items-center justify-center gap-2 border border-[#3e3e42]">
+                    <Sparkles size={14} /> Generate Blockstate
+                </button>
+            </div>
+        )}
+
         {currentMode === ViewMode.EDITOR && (
             <>  
                 {/* Bone List & Selection */}
                 <div className="space-y-2">
                     <h3 className="text-xs font-bold text-gray-500 uppercase flex justify-between items-center">
                         Hierarchy
-                        <span className="text-[10px] font-normal lowercase">(Click bone to edit)</span>
+                        <span className="text-[10px] font-normal lowercase">(Click or pick in viewport)</span>
                     </h3>
-                    <div className="max-h-40 overflow-y-auto bg-[#121212] border border-[#3e3e42] rounded p-1">
-                        {model.bedrockData?.bones.map((bone, idx) => (
-                            <div 
-                                key={idx} 
-                                onClick={() => setSelectedBoneIndex(idx)}
-                                className={`flex items-center gap-2 p-1.5 rounded cursor-pointer text-xs ${selectedBoneIndex === idx ? 'bg-blue-900/50 text-blue-200 border border-blue-800' : 'text-gray-400 hover:bg-[#2d2d2d]'}`}
-                            >
-                                <div className={`w-2 h-2 rounded-full ${bone.parent ? 'bg-gray-600' : 'bg-orange-500'}`} />
-                                <span className="truncate">{bone.name}</span>
-                                {bone.attachments && bone.attachments.length > 0 && (
-                                    <div className="ml-auto flex gap-0.5">
-                                        <div className="w-1.5 h-1.5 rounded-full bg-yellow-500" />
-                                    </div>
-                                )}
-                            </div>
-                        ))}
+                    <HierarchyOutliner model={model} setModel={setModel} selection={selection} setSelection={setSelection} />
+                </div>
+
+                {/* Problems */}
+                <div className="space-y-2">
+                    <h3 className="text-xs font-bold text-gray-500 uppercase flex items-center gap-2">
+                        <AlertTriangle size={12} /> Problems
+                    </h3>
+                    <ProblemsPanel
+                        model={model}
+                        setModel={setModel}
+                        setSelection={setSelection}
+                        uvScale={uvScaleFactor}
+                        textureDensity={textureDensity}
+                        onRepackUVs={onRepackUVs}
+                    />
+                </div>
+
+                {/* Symmetry */}
+                <div className="space-y-2">
+                    <h3 className="text-xs font-bold text-gray-500 uppercase flex items-center gap-2">
+                        <FlipHorizontal2 size={12} /> Symmetry
+                    </h3>
+                    <button
+                        onClick={() => handleSymmetryEdit(m => mirrorSelection(m, selection!))}
+                        disabled={!selection}
+                        className="w-full bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-1.5 rounded text-xs flex items-center justify-center gap-2 border border-[#3e3e42] disabled:opacity-50"
+                        title="Mirror the selected bone onto the other side, or copy the selected cube across X"
+                    >
+                        <FlipHorizontal2 size={12} /> Mirror Selection
+                    </button>
+                    <div className="grid grid-cols-2 gap-2">
+                        <button onClick={() => handleSymmetryEdit(m => symmetrizeModel(m, 'left'))} disabled={!model.bedrockData} className="bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-1.5 rounded text-[10px] border border-[#3e3e42] disabled:opacity-50" title="Rebuild the right side (-X) from the left side (+X)">
+                            Symmetrize L → R
+                        </button>
+                        <button onClick={() => handleSymmetryEdit(m => symmetrizeModel(m, 'right'))} disabled={!model.bedrockData} className="bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-1.5 rounded text-[10px] border border-[#3e3e42] disabled:opacity-50" title="Rebuild the left side (+X) from the right side (-X)">
+                            Symmetrize R → L
+                        </button>
                     </div>
+                    <label className="flex items-center gap-2 text-[10px] text-gray-400">
+                        <input type="checkbox" checked={symmetryEdit} onChange={(e) => setSymmetryEdit(e.target.checked)} />
+                        Live symmetry: gizmo edits update the mirrored bone or cube
+                    </label>
                 </div>
 
                 {/* Attachment Editor */}
@@ -347,26 +499,70 @@ const Sidebar: React.FC<SidebarProps> = ({
                     </div>
                 )}
 
+                {selection?.cubeIndex !== undefined && model.bedrockData && (
+                    <CubeUVEditor model={model} setModel={setModel} selection={selection} uvScale={uvScaleFactor} />
+                )}
+
                 {/* Primitives Section */}
                 <div className="space-y-3 pt-4 border-t border-[#3e3e42]">
                     <h3 className="text-xs font-bold text-gray-500 uppercase">Add Primitive</h3>
-                    <div className="flex items-center gap-2 mb-2">
-                         <span className="text-xs text-gray-400">Radius:</span>
-                         <input 
-                            type="number" 
-                            min={1} 
-                            max={16} 
-                            value={primitiveRadius}
-                            onChange={(e) => setPrimitiveRadius(parseInt(e.target.value) || 4)}
-                            className="w-12 bg-[#1e1e1e] border border-[#3e3e42] rounded px-1 py-0.5 text-xs text-white"
-                         />
+                    <div className="grid grid-cols-2 gap-x-2 gap-y-1 mb-2">
+                        {([
+                            { key: 'radius', label: 'Radius', min: 0.5, step: 0.5 },
+                            { key: 'height', label: 'Height', min: 0, step: 0.5 },
+                            { key: 'segments', label: 'Segments', min: 1, step: 1 },
+                            { key: 'thickness', label: 'Thickness', min: 0.25, step: 0.25 },
+                        ] as const).map(field => (
+                            <label key={field.key} className="flex items-center justify-between gap-1 text-[10px] text-gray-400">
+                                {field.label}
+                                <input
+                                    type="number"
+                                    min={field.min}
+                                    step={field.step}
+                                    value={primitiveParams[field.key] ?? ''}
+                                    onChange={(e) => setPrimitiveParams(p => ({ ...p, [field.key]: e.target.value === '' ? undefined : Number(e.target.value) }))}
+                                    className="w-12 bg-[#1e1e1e] border border-[#3e3e42] rounded px-1 py-0.5 text-xs text-white"
+                                />
+                            </label>
+                        ))}
+                        <label className="flex items-center justify-between gap-1 text-[10px] text-gray-400">
+                            Axis
+                            <select
+                                value={primitiveParams.axis}
+                                onChange={(e) => setPrimitiveParams(p => ({ ...p, axis: e.target.value as PrimitiveAxis }))}
+                                className="w-12 bg-[#1e1e1e] border border-[#3e3e42] rounded text-xs text-white"
+                            >
+                                <option value="x">X</option>
+                                <option value="y">Y</option>
+                                <option value="z">Z</option>
+                            </select>
+                        </label>
+                        <label className="flex items-center justify-between gap-1 text-[10px] text-gray-400">
+                            Sphere
+                            <select
+                                value={primitiveParams.sphereMode}
+                                onChange={(e) => setPrimitiveParams(p => ({ ...p, sphereMode: e.target.value as SphereMode }))}
+                                className="w-12 bg-[#1e1e1e] border border-[#3e3e42] rounded text-xs text-white"
+                            >
+                                <option value="voxel">Voxel</option>
+                                <option value="ring">Ring</option>
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-1 text-[10px] text-gray-400 col-span-2">
+                            <input
+                                type="checkbox"
+                                checked={!!primitiveParams.hollow}
+                                onChange={(e) => setPrimitiveParams(p => ({ ...p, hollow: e.target.checked }))}
+                            />
+                            Hollow
+                        </label>
                     </div>
                     <div className="grid grid-cols-2 gap-2">
-                        {['Cube', 'Sphere', 'Cylinder', 'Cone'].map(shape => (
-                            <button 
+                        {PRIMITIVE_SHAPES.map(shape => (
+                            <button
                                 key={shape}
-                                onClick={() => onAddPrimitive(shape, primitiveRadius)}
-                                className="flex items-center justify-center gap-2 bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 px-2 py-2 rounded text-xs transition-colors border border-[#3e3e42]"
+                                onClick={() => onAddPrimitive({ ...primitiveParams, shape })}
+                                className="flex items-center justify-center gap-2 bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 px-2 py-2 rounded text-xs transition-colors border border-[#3e3e42] capitalize"
                             >
                                 <Shapes size={14} /> {shape}
                             </button>
@@ -401,6 +597,62 @@ const Sidebar: React.FC<SidebarProps> = ({
                      </p>
                  </div>
 
+                 {/* UV Layout */}
+                 <div className="space-y-1">
+                     <label className="text-[10px] text-gray-400 font-bold uppercase">UV Layout</label>
+                     <label className="flex items-center gap-2 text-[10px] text-gray-400 cursor-pointer" title="Only cubes without a valid island are placed; painted areas stay put">
+                         <input type="checkbox" checked={!!packOptions.stable} onChange={(e) => setPackOptions(o => ({ ...o, stable: e.target.checked }))} />
+                         Keep existing UVs
+                     </label>
+                     <label className="flex items-center gap-2 text-[10px] text-gray-400 cursor-pointer" title="Left/right limbs and mirror-image cubes of the same size sample one island">
+                         <input type="checkbox" checked={!!packOptions.shareIslands} onChange={(e) => setPackOptions(o => ({ ...o, shareIslands: e.target.checked }))} />
+                         Share mirrored islands
+                     </label>
+                     <button
+                        onClick={handleRepack}
+                        disabled={!model.bedrockData}
+                        className="w-full bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-1.5 rounded text-xs flex items-center justify-center gap-2 border border-[#3e3e42] disabled:opacity-50"
+                     >
+                         <Grid2X2 size={14} /> Pack UVs
+                     </button>
+                     {packReport && <p className="text-[10px] text-gray-500">{formatPackReport(packReport)}</p>}
+                 </div>
+
+                 {/* Bake Colors */}
+                 <div className="space-y-1">
+                     <label className="text-[10px] text-gray-400 font-bold uppercase">Bake Colors</label>
+                     <div className="flex items-center gap-3">
+                         <label className="flex items-center gap-2 text-[10px] text-gray-400 cursor-pointer" title="Top faces lighter, bottom faces darker">
+                             <input type="checkbox" checked={bakeOptions.shading} onChange={(e) => setBakeOptions(o => ({ ...o, shading: e.target.checked }))} />
+                             Shading
+                         </label>
+                         <label className="flex items-center gap-2 text-[10px] text-gray-400 cursor-pointer" title="Darker border around every face">
+                             <input type="checkbox" checked={bakeOptions.outline} onChange={(e) => setBakeOptions(o => ({ ...o, outline: e.target.checked }))} />
+                             Outline
+                         </label>
+                     </div>
+                     <label className="flex items-center gap-2 text-[10px] text-gray-400" title="Per-pixel brightness variation">
+                         Noise
+                         <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.1}
+                            value={bakeOptions.noise}
+                            onChange={(e) => setBakeOptions(o => ({ ...o, noise: Number(e.target.value) }))}
+                            className="flex-1"
+                         />
+                         <span className="w-6 text-right">{Math.round(bakeOptions.noise * 100)}%</span>
+                     </label>
+                     <button
+                        onClick={handleBakeColors}
+                        disabled={!model.bedrockData}
+                        className="w-full bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-1.5 rounded text-xs flex items-center justify-center gap-2 border border-[#3e3e42] disabled:opacity-50"
+                     >
+                         <Palette size={14} /> Bake Cube Colors
+                     </button>
+                 </div>
+
                  <div className="space-y-2 pt-2">
                     <label className="text-xs text-gray-400">AI Texture Generation</label>
                     <textarea 
@@ -481,6 +733,54 @@ const Sidebar: React.FC<SidebarProps> = ({
                         No animations found in this model.
                     </div>
                 )}
+
+                {/* Retargeting Section */}
+                {model.type !== 'BLOCK' && (
+                    <div className="space-y-3 pt-4 border-t border-[#3e3e42]">
+                        <h3 className="text-xs font-bold text-gray-500 uppercase">Retarget From Another Model</h3>
+                        <RetargetPanel model={model} onApply={onRetargetAnimations} />
+                    </div>
+                )}
+
+                {/* Procedural Animation Section */}
+                {model.type !== 'BLOCK' && (
+                    <div className="space-y-3 pt-4 border-t border-[#3e3e42]">
+                        <h3 className="text-xs font-bold text-gray-500 uppercase">Procedural Animation</h3>
+                        <p className="text-[10px] text-gray-500">Detected: {describeRig(detectedRig)}</p>
+                        <div className="grid grid-cols-3 gap-x-2 gap-y-1">
+                            {([
+                                { key: 'speed', label: 'Speed' },
+                                { key: 'stride', label: 'Stride' },
+                                { key: 'amplitude', label: 'Amp' },
+                            ] as const).map(field => (
+                                <label key={field.key} className="flex flex-col gap-0.5 text-[10px] text-gray-400">
+                                    {field.label}
+                                    <input
+                                        type="number"
+                                        min={0.1}
+                                        max={3}
+                                        step={0.1}
+                                        value={proceduralParams[field.key]}
+                                        onChange={(e) => setProceduralParams(p => ({ ...p, [field.key]: Math.max(0.1, Number(e.target.value) || 0.1) }))}
+                                        className="w-full bg-[#1e1e1e] border border-[#3e3e42] rounded px-1 py-0.5 text-xs text-white"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                            {PROCEDURAL_ANIMATION_TYPES.map(type => (
+                                <button
+                                    key={type}
+                                    onClick={() => onGenerateProceduralAnimation({ ...proceduralParams, type })}
+                                    className="bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 px-2 py-2 rounded text-xs transition-colors border border-[#3e3e42] capitalize"
+                                    title={`Generate a ${type} animation (replaces an existing one of the same type)`}
+                                >
+                                    {type}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
              </div>
         )}
 
@@ -503,10 +803,48 @@ const Sidebar: React.FC<SidebarProps> = ({
             <Download size={16} /> Export Hytale Model
         </button>
         <div className="flex gap-2">
+             <button onClick={() => exportBlockbenchModel(model, textureData, uvScaleFactor)} className="flex-1 bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-2 rounded text-xs flex items-center justify-center gap-2 border border-[#3e3e42]" title="Export a Blockbench project (.bbmodel)">
+                <Box size={14} /> Blockbench
+             </button>
+             <button onClick={() => exportBedrockResourcePack(model, textureData, uvScaleFactor)} className="flex-1 bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-2 rounded text-xs flex items-center justify-center gap-2 border border-[#3e3e42]" title="Export a Bedrock resource pack (.geo.json, .animation.json, texture)">
+                <Package size={14} /> Bedrock
+             </button>
+             {model.type === 'BLOCK' && (
+                 <button onClick={() => exportJavaBlockPack(model, textureData)} className="flex-1 bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-2 rounded text-xs flex items-center justify-center gap-2 border border-[#3e3e42]" title="Export Java block model, blockstate and texture">
+                    <Cuboid size={14} /> Java Block
+                 </button>
+             )}
+        </div>
+        <div className="flex gap-2">
+             <button onClick={onSaveProject} className="flex-1 bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-2 rounded text-xs flex items-center justify-center gap-2 border border-[#3e3e42]" title="Save model, texture, chat and settings">
+                <Save size={14} /> Save
+             </button>
+             <button onClick={() => projectInputRef.current?.click()} className="flex-1 bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-2 rounded text-xs flex items-center justify-center gap-2 border border-[#3e3e42]">
+                <FolderOpen size={14} /> Open
+             </button>
+             <input type="file" ref={projectInputRef} className="hidden" accept={PROJECT_FILE_EXTENSION} onChange={handleProjectFileChange} />
              <button onClick={() => importInputRef.current?.click()} className="flex-1 bg-[#2d2d2d] hover:bg-[#3e3e42] text-gray-300 py-2 rounded text-xs flex items-center justify-center gap-2 border border-[#3e3e42]">
                 <FileUp size={14} /> Import
              </button>
-             <input type="file" ref={importInputRef} className="hidden" accept=".json,.gltf,.glb,.obj" onChange={handleFileChange} />
+             <input type="file" ref={importInputRef} className="hidden" accept=".json,.gltf,.glb,.obj,.stl,.blockymodel,.zip,.bbmodel" onChange={handleFileChange} />
+        </div>
+        <div className="flex items-center gap-2 text-[10px] text-gray-500" title="How GLTF/OBJ/STL meshes are converted to cubes">
+             <span>Mesh import:</span>
+             <select
+                value={meshOptions.resolution}
+                onChange={(e) => setMeshOptions(o => ({ ...o, resolution: Number(e.target.value) }))}
+                className="bg-[#1e1e1e] border border-[#3e3e42] rounded px-1 py-0.5 text-gray-300"
+             >
+                {VOXEL_RESOLUTIONS.map(r => <option key={r} value={r}>{r} voxels</option>)}
+             </select>
+             <label className="flex items-center gap-1 cursor-pointer">
+                <input
+                   type="checkbox"
+                   checked={meshOptions.bakeTexture}
+                   onChange={(e) => setMeshOptions(o => ({ ...o, bakeTexture: e.target.checked }))}
+                />
+                Bake texture
+             </label>
         </div>
       </div>
     </div>
@@ -0,0 +1,387 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ZoomIn, ZoomOut, AlertTriangle, Scaling, MousePointer2, Brush, Pencil, Eraser, PaintBucket, Pipette, Slash, Undo, Redo
+} from 'lucide-react';
+import { MinecraftModel, ModelSelection } from '../types';
+import { padTextureImage } from '../services/textureMapper';
+import {
+  UvIsland, getUvIslands, findUvProblems, islandHasCube, moveUvIsland, resizeUvIsland, setTextureSize
+} from '../services/uvEditor';
+import { PaintTool, Texel, getModelPalette } from '../services/texturePainter';
+import { TexturePainter } from '../hooks/useTexturePainter';
+
+interface UVEditorProps {
+  model: MinecraftModel;
+  setModel: (val: MinecraftModel | ((prev: MinecraftModel) => MinecraftModel)) => void;
+  textureData: string | null;
+  setTextureData: (data: string) => void;
+  uvScale: number;
+  selection: ModelSelection | null;
+  setSelection: (selection: ModelSelection | null) => void;
+  painter: TexturePainter;
+  paintMode: boolean;
+  setPaintMode: (paintMode: boolean) => void;
+  onUndoTexture: () => void;
+  onRedoTexture: () => void;
+  canUndoTexture: boolean;
+  canRedoTexture: boolean;
+}
+
+interface DragState {
+  island: UvIsland;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  dx: number;
+  dy: number;
+}
+
+const PAINT_TOOLS: { tool: PaintTool; Icon: typeof Pencil; label: string; key: string }[] = [
+  { tool: 'pencil', Icon: Pencil, label: 'Pencil', key: 'b' },
+  { tool: 'eraser', Icon: Eraser, label: 'Eraser', key: 'e' },
+  { tool: 'fill', Icon: PaintBucket, label: 'Fill', key: 'g' },
+  { tool: 'picker', Icon: Pipette, label: 'Color picker', key: 'i' },
+  { tool: 'line', Icon: Slash, label: 'Line', key: 'l' }
+];
+
+const ZOOM_LEVELS = [1, 2, 3, 4, 6, 8, 12, 16];
+const MARGIN = 16; // screen pixels around the atlas so out-of-bounds islands stay visible
+
+const CHECKER = {
+  backgroundColor: '#2a2a2a',
+  backgroundImage: 'linear-gradient(45deg, #333 25%, transparent 25%), linear-gradient(-45deg, #333 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #333 75%), linear-gradient(-45deg, transparent 75%, #333 75%)',
+  backgroundSize: '16px 16px',
+  backgroundPosition: '0 0, 0 8px, 8px -8px, -8px 0'
+};
+
+const UVEditor: React.FC<UVEditorProps> = ({
+  model, setModel, textureData, setTextureData, uvScale, selection, setSelection,
+  painter, paintMode, setPaintMode, onUndoTexture, onRedoTexture, canUndoTexture, canRedoTexture
+}) => {
+  const [texW, texH] = model.bedrockData?.texture_size || [64, 64];
+  const [zoom, setZoom] = useState(() => ZOOM_LEVELS.filter(z => Math.max(texW, texH) * z <= 512).pop() || 1);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [sizeDraft, setSizeDraft] = useState<[number, number]>([texW, texH]);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => setSizeDraft([texW, texH]), [texW, texH]);
+
+  const islands = useMemo(() => getUvIslands(model, uvScale), [model, uvScale]);
+  const problems = useMemo(() => findUvProblems(islands, [texW, texH]), [islands, texW, texH]);
+  const palette = useMemo(() => getModelPalette(model), [model]);
+
+  // The active island follows the 3D selection unless it already belongs to the selected cube
+  const active = islands.find(i => i.id === activeId && islandHasCube(i, selection)) ||
+    islands.find(i => islandHasCube(i, selection)) || null;
+
+  const applyEdit = (edit: () => MinecraftModel) => {
+    try {
+      setModel(edit());
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const selectIsland = (island: UvIsland) => {
+    setActiveId(island.id);
+    setSelection({ boneIndex: island.cubes[0].boneIndex, cubeIndex: island.cubes[0].cubeIndex });
+  };
+
+  // --- Dragging ---
+
+  const startDrag = (e: React.MouseEvent, island: UvIsland, mode: DragState['mode']) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    selectIsland(island);
+    containerRef.current?.focus();
+
+    const start = { island, mode, startX: e.clientX, startY: e.clientY, dx: 0, dy: 0 };
+    setDrag(start);
+    let current = start;
+    const handleMove = (ev: MouseEvent) => {
+      current = { ...start, dx: Math.round((ev.clientX - start.startX) / zoom), dy: Math.round((ev.clientY - start.startY) / zoom) };
+      setDrag(current);
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setDrag(null);
+      if (current.dx === 0 && current.dy === 0) return;
+      if (mode === 'move') {
+        applyEdit(() => moveUvIsland(model, island, current.dx, current.dy));
+      } else {
+        applyEdit(() => resizeUvIsland(model, island, island.bounds.w + current.dx, island.bounds.h + current.dy));
+      }
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  // Where an island is drawn, including an in-progress drag
+  const displayRects = (island: UvIsland) => {
+    if (!drag || drag.island.id !== island.id) return island.rects;
+    if (drag.mode === 'move') return island.rects.map(r => ({ ...r, x: r.x + drag.dx, y: r.y + drag.dy }));
+    return [{ ...island.bounds, w: Math.max(1, island.bounds.w + drag.dx), h: Math.max(1, island.bounds.h + drag.dy) }];
+  };
+
+  // --- Painting ---
+
+  const texelAt = (e: { clientX: number; clientY: number }, atlas: HTMLElement): Texel => {
+    const rect = atlas.getBoundingClientRect();
+    return [Math.floor((e.clientX - rect.left) / zoom), Math.floor((e.clientY - rect.top) / zoom)];
+  };
+
+  const startPaint = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    containerRef.current?.focus();
+
+    const atlas = e.currentTarget;
+    const [x, y] = texelAt(e, atlas);
+    if (x < 0 || y < 0 || x >= texW || y >= texH) return;
+    painter.startStroke([x, y]);
+    const handleMove = (ev: MouseEvent) => painter.continueStroke(texelAt(ev, atlas));
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      painter.endStroke();
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  // Ctrl+Z / Ctrl+Y undo strokes, single letters switch tools
+  const handlePaintKeyDown = (e: React.KeyboardEvent) => {
+    const key = e.key.toLowerCase();
+    if (e.ctrlKey || e.metaKey) {
+      if (key === 'z' && !e.shiftKey) onUndoTexture();
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) onRedoTexture();
+      else return;
+      e.preventDefault();
+      return;
+    }
+    const entry = PAINT_TOOLS.find(t => t.key === key);
+    if (entry) painter.setTool(entry.tool);
+  };
+
+  // Arrow keys nudge the active island a pixel, Shift for eight
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (paintMode) return handlePaintKeyDown(e);
+    if (!active) return;
+    const step = e.shiftKey ? 8 : 1;
+    const delta: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step]
+    };
+    if (!delta[e.key]) return;
+    e.preventDefault();
+    applyEdit(() => moveUvIsland(model, active, ...delta[e.key]));
+  };
+
+  // --- Texture Size ---
+
+  const handleResizeTexture = async () => {
+    const [w, h] = sizeDraft;
+    if (w === texW && h === texH) return;
+    if (textureData && (w < texW || h < texH) &&
+        !confirm(`Shrinking the texture to ${w}×${h} crops the pixels outside it. Continue?`)) {
+      return;
+    }
+    try {
+      const resized = setTextureSize(model, w, h);
+      // Pixels keep their coordinates, so the image grows or shrinks from its top-left corner
+      if (textureData) setTextureData(await padTextureImage(textureData, w, h));
+      setModel(resized);
+    } catch (err: any) {
+      alert(`Texture resize failed: ${err.message}`);
+    }
+  };
+
+  const islandStyle = (island: UvIsland) => {
+    if (active?.id === island.id) return 'border-yellow-300 bg-yellow-300/25 z-20';
+    if (islandHasCube(island, selection)) return 'border-yellow-500/80 bg-yellow-500/10 z-10';
+    if (problems.overlapping.has(island.id)) return 'border-red-500 bg-red-500/25';
+    if (problems.outOfBounds.has(island.id)) return 'border-orange-400 border-dashed bg-orange-400/20';
+    return 'border-sky-400/70 bg-sky-400/10 hover:bg-sky-400/25';
+  };
+
+  const zoomBy = (dir: 1 | -1) => {
+    const idx = ZOOM_LEVELS.indexOf(zoom) + dir;
+    if (idx >= 0 && idx < ZOOM_LEVELS.length) setZoom(ZOOM_LEVELS[idx]);
+  };
+
+  if (!model.bedrockData) {
+    return (
+      <div className="w-[45%] min-w-[320px] border-l border-[#3e3e42] bg-[#1e1e1e] flex items-center justify-center text-xs text-gray-500">
+        UV editing needs an entity model.
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-[45%] min-w-[320px] border-l border-[#3e3e42] bg-[#1e1e1e] flex flex-col min-h-0">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 px-2 py-1.5 border-b border-[#3e3e42] text-[10px] text-gray-400">
+        <span className="font-bold uppercase text-gray-500">UV</span>
+        <div className="flex gap-0.5 bg-[#121212] p-0.5 rounded border border-[#3e3e42]">
+          <button
+            onClick={() => setPaintMode(false)}
+            className={`p-1 rounded ${!paintMode ? 'bg-blue-600 text-white' : 'hover:text-white'}`}
+            title="Arrange islands"
+          >
+            <MousePointer2 size={12} />
+          </button>
+          <button
+            onClick={() => setPaintMode(true)}
+            className={`p-1 rounded ${paintMode ? 'bg-blue-600 text-white' : 'hover:text-white'}`}
+            title="Paint texture (also on the 3D model)"
+          >
+            <Brush size={12} />
+          </button>
+        </div>
+        <button onClick={() => zoomBy(-1)} className="p-1 rounded hover:bg-[#2d2d2d] hover:text-white" title="Zoom out"><ZoomOut size={12} /></button>
+        <span className="w-6 text-center">{zoom}×</span>
+        <button onClick={() => zoomBy(1)} className="p-1 rounded hover:bg-[#2d2d2d] hover:text-white" title="Zoom in"><ZoomIn size={12} /></button>
+
+        <div className="flex items-center gap-1 ml-2" title="Texture size in pixels; islands keep their pixel positions">
+          <input
+            type="number"
+            value={sizeDraft[0]}
+            onChange={(e) => setSizeDraft([Number(e.target.value) || 0, sizeDraft[1]])}
+            className="w-12 bg-[#121212] border border-[#3e3e42] rounded px-1 text-gray-300"
+          />
+          ×
+          <input
+            type="number"
+            value={sizeDraft[1]}
+            onChange={(e) => setSizeDraft([sizeDraft[0], Number(e.target.value) || 0])}
+            className="w-12 bg-[#121212] border border-[#3e3e42] rounded px-1 text-gray-300"
+          />
+          <button
+            onClick={handleResizeTexture}
+            disabled={sizeDraft[0] === texW && sizeDraft[1] === texH}
+            className="p-1 rounded hover:bg-[#2d2d2d] hover:text-white disabled:opacity-40"
+            title="Resize texture canvas"
+          >
+            <Scaling size={12} />
+          </button>
+        </div>
+
+        {(problems.overlapping.size > 0 || problems.outOfBounds.size > 0) && (
+          <span className="ml-auto flex items-center gap-1 text-yellow-400">
+            <AlertTriangle size={10} />
+            {problems.overlapping.size > 0 && <span className="text-red-400">{problems.overlapping.size} overlapping</span>}
+            {problems.outOfBounds.size > 0 && <span className="text-orange-400">{problems.outOfBounds.size} outside</span>}
+          </span>
+        )}
+      </div>
+
+      {/* Paint Toolbar */}
+      {paintMode && (
+        <div className="flex items-center gap-1 px-2 py-1.5 border-b border-[#3e3e42] text-[10px] text-gray-400 flex-wrap">
+          {PAINT_TOOLS.map(({ tool, Icon, label, key }) => (
+            <button
+              key={tool}
+              onClick={() => painter.setTool(tool)}
+              className={`p-1 rounded ${painter.tool === tool ? 'bg-blue-600 text-white' : 'hover:bg-[#2d2d2d] hover:text-white'}`}
+              title={`${label} (${key.toUpperCase()})`}
+            >
+              <Icon size={12} />
+            </button>
+          ))}
+          <input
+            type="color"
+            value={painter.color}
+            onChange={(e) => painter.setColor(e.target.value)}
+            className="w-6 h-5 ml-1 bg-transparent border border-[#3e3e42] rounded cursor-pointer"
+            title="Paint color"
+          />
+          <div className="flex items-center gap-0.5 flex-wrap ml-1">
+            {palette.map(c => (
+              <button
+                key={c}
+                onClick={() => painter.setColor(c)}
+                className={`w-3.5 h-3.5 rounded-sm border ${painter.color === c ? 'border-white' : 'border-black/50'}`}
+                style={{ backgroundColor: c }}
+                title={`Cube color ${c}`}
+              />
+            ))}
+          </div>
+          <div className="flex items-center gap-0.5 ml-auto">
+            <button onClick={onUndoTexture} disabled={!canUndoTexture} className="p-1 rounded hover:bg-[#2d2d2d] hover:text-white disabled:opacity-40" title="Undo stroke (Ctrl+Z)">
+              <Undo size={12} />
+            </button>
+            <button onClick={onRedoTexture} disabled={!canRedoTexture} className="p-1 rounded hover:bg-[#2d2d2d] hover:text-white disabled:opacity-40" title="Redo stroke (Ctrl+Y)">
+              <Redo size={12} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Canvas */}
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onMouseDown={() => !paintMode && setSelection(null)}
+        className="flex-1 overflow-auto outline-none custom-scrollbar"
+      >
+        <div className="relative" style={{ width: texW * zoom + MARGIN * 2, height: texH * zoom + MARGIN * 2 }}>
+          <div
+            onMouseDown={paintMode ? startPaint : undefined}
+            className={`absolute border border-[#3e3e42] ${paintMode ? 'cursor-crosshair' : ''}`}
+            style={{ left: MARGIN, top: MARGIN, width: texW * zoom, height: texH * zoom, ...CHECKER }}
+          >
+            {(painter.preview || textureData) && (
+              <img
+                src={painter.preview || textureData!}
+                alt="Texture"
+                draggable={false}
+                className="absolute inset-0 w-full h-full"
+                style={{ imageRendering: 'pixelated' }}
+              />
+            )}
+          </div>
+
+          {islands.map(island => {
+            const rects = displayRects(island);
+            const bounds = island.face ? rects[0] : null;
+            const isActive = active?.id === island.id;
+            return (
+              <React.Fragment key={island.id}>
+                {rects.map((r, idx) => (
+                  <div
+                    key={idx}
+                    onMouseDown={(e) => startDrag(e, island, 'move')}
+                    className={paintMode
+                      ? 'absolute border border-sky-400/40 pointer-events-none z-10'
+                      : `absolute border cursor-move ${islandStyle(island)}`}
+                    style={{ left: MARGIN + r.x * zoom, top: MARGIN + r.y * zoom, width: r.w * zoom, height: r.h * zoom }}
+                    title={island.cubes.map(c => `${model.bedrockData!.bones[c.boneIndex].name} · cube ${c.cubeIndex + 1}`).join('\n') + (island.face ? ` · ${island.face}` : '')}
+                  />
+                ))}
+                {isActive && bounds && !paintMode && (
+                  <div
+                    onMouseDown={(e) => startDrag(e, island, 'resize')}
+                    className="absolute z-30 w-2 h-2 bg-yellow-300 border border-black cursor-nwse-resize"
+                    style={{ left: MARGIN + (bounds.x + bounds.w) * zoom - 4, top: MARGIN + (bounds.y + bounds.h) * zoom - 4 }}
+                    title="Drag to resize face"
+                  />
+                )}
+              </React.Fragment>
+            );
+          })}
+        </div>
+      </div>
+      <p className="px-2 py-1 text-[10px] text-gray-600 border-t border-[#3e3e42]">
+        {paintMode
+          ? `Paint here or on the model in the viewport. Each stroke is one undo step${textureData ? '' : '; the first stroke starts a blank texture'}.`
+          : 'Drag islands to move them, arrow keys nudge (Shift ×8). Per-face islands can be resized from their corner.'}
+      </p>
+    </div>
+  );
+};
+
+export default UVEditor;
@@ -1,11 +1,16 @@
-import React, { useEffect, useState, useMemo, useRef } from 'react';
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { OrbitControls, PerspectiveCamera, Grid, GizmoHelper, GizmoViewport, Center } from '@react-three/drei';
+import React, { useEffect, useLayoutEffect, useState, useMemo, useRef, useContext, createContext } from 'react';
+import { Canvas, useFrame, useThree, ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, PerspectiveCamera, Grid, GizmoHelper, GizmoViewport, Center, TransformControls } from '@react-three/drei';
+import { Move3d, Rotate3d, Scale3d } from 'lucide-react';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
 import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader';
 import { STLLoader } from 'three/examples/jsm/loaders/STLLoader';
-import { MinecraftModel, ModelBone, ModelCube, JavaBlockModel, JavaBlockElement, AnimationDefinition } from '../types';
+import { MinecraftModel, ModelBone, ModelCube, JavaBlockModel, JavaBlockElement, AnimationDefinition, ModelSelection } from '../types';
 import * as THREE from 'three';
+import { sampleChannel, sampleVisibility, sampleUvOffset } from '../services/animationMath';
+import { CUBE_FACE_NAMES, getFaceCornerUVs } from '../services/faceUv';
+import { TransformMode, SelectionTransform, TRANSLATION_SNAPS, ROTATION_SNAPS, getSelectionTransform, isValidSelection } from '../services/transformEditor';
+import { Texel, uvToTexel } from '../services/texturePainter';
 
 // Fix for strict TypeScript environments where JSX.IntrinsicElements is not automatically augmented by R3F
 declare global {
@@ -21,6 +26,9 @@ declare global {
       lineSegments: any;
       edgesGeometry: any;
       lineBasicMaterial: any;
+      meshBasicMaterial: any;
+      boxGeometry: any;
+      octahedronGeometry: any;
       // HTML Elements
       div: any;
       span: any;
@@ -49,9 +57,26 @@ interface ViewerProps {
   playbackSpeed?: number;
   captureRef?: React.MutableRefObject<(() => string) | null>;
   uvScale?: number; // Exact scale factor (e.g. 16, 32, 64)
+  // Playhead in seconds; owned by the parent so the timeline can scrub it
+  animationTime?: number;
+  onAnimationTimeChange?: (time: number) => void;
+  // Viewport editing; picking is off unless onSelect is given
+  selection?: ModelSelection | null;
+  onSelect?: (selection: ModelSelection | null) => void;
+  onTransform?: (selection: ModelSelection, transform: SelectionTransform, gridSnap: number) => void;
+  // Texture painting; while set, the left button paints cube faces and the right button orbits
+  paint?: ViewportPaint;
+}
+
+export interface ViewportPaint {
+  onStrokeStart: (texel: Texel) => void;
+  onStrokeMove: (texel: Texel) => void;
+  onStrokeEnd: () => void;
 }
 
 const SCALE_FACTOR = 1 / 16; 
+// Seconds between playhead updates sent to the parent while playing
+const TIME_SYNC_INTERVAL = 0.1;
 
 // --- Screenshot Manager ---
 // Allows the parent component to request a snapshot of the current WebGL canvas
@@ -71,6 +96,90 @@ const ScreenshotManager: React.FC<{ captureRef?: React.MutableRefObject<(() => s
     return null;
 };
 
+// --- Selection & Gizmos ---
+// Picking happens on the cube meshes; the gizmo drives an invisible proxy group
+// placed in the selection's parent frame, and the edit is committed on release.
+
+interface EditContextValue {
+    model: MinecraftModel;
+    selection: ModelSelection | null;
+    select: (selection: ModelSelection | null) => void;
+    setProxy: (proxy: THREE.Object3D | null) => void;
+    // True while a gizmo handle is held, so the click that ends a drag does not re-pick
+    gizmoBusyRef: React.MutableRefObject<boolean>;
+}
+
+const EditContext = createContext<EditContextValue | null>(null);
+
+// Painting maps the hit's interpolated UV to a texel, so it follows box and per-face UVs alike
+const PaintContext = createContext<ViewportPaint | null>(null);
+
+const PAINT_MOUSE_BUTTONS = { MIDDLE: THREE.MOUSE.DOLLY, RIGHT: THREE.MOUSE.ROTATE };
+const ORBIT_MOUSE_BUTTONS = { LEFT: THREE.MOUSE.ROTATE, MIDDLE: THREE.MOUSE.DOLLY, RIGHT: THREE.MOUSE.PAN };
+
+const HIGHLIGHT_COLOR = '#facc15';
+
+// Model units -> scene units, and degrees -> radians
+const toScene = (v: number[]) => v.map(n => n * SCALE_FACTOR) as [number, number, number];
+const toRadians = (v: number[]) => v.map(r => THREE.MathUtils.degToRad(r || 0)) as [number, number, number];
+// Pointer travel (px) beyond which a click is treated as the end of a camera drag
+const CLICK_TOLERANCE = 4;
+
+// Wireframe box centred on the current frame; never pickable itself
+const CubeOutline: React.FC<{ cube: ModelCube }> = ({ cube }) => {
+    const inflate = cube.inflate || 0;
+    return (
+        <mesh raycast={() => null} renderOrder={999}>
+            <boxGeometry args={toScene(cube.size.map(v => v + inflate * 2 + 0.03))} />
+            <meshBasicMaterial color={HIGHLIGHT_COLOR} wireframe depthTest={false} transparent opacity={0.9} />
+        </mesh>
+    );
+};
+
+// Rendered inside every bone frame; only the frame that owns the current selection draws it
+const SelectionProxy: React.FC<{ frameBone?: string }> = ({ frameBone }) => {
+    const edit = useContext(EditContext);
+    if (!edit || !isValidSelection(edit.model, edit.selection)) return null;
+
+    const { model, selection, setProxy } = edit;
+    const bones = model.bedrockData!.bones;
+    const bone = bones[selection.boneIndex];
+    const isCube = selection.cubeIndex !== undefined;
+    const parent = bone.parent && bones.some(b => b.name === bone.parent) ? bone.parent : undefined;
+    if ((isCube ? bone.name : parent) !== frameBone) return null;
+
+    const transform = getSelectionTransform(model, selection)!;
+    return (
+        <group
+            ref={setProxy}
+            position={toScene(transform.position)}
+            rotation={toRadians(transform.rotation)}
+        >
+            {isCube ? (
+                // The proxy already sits on the cube's centre with its rotation
+                <CubeOutline cube={bone.cubes[selection.cubeIndex!]} />
+            ) : (
+                <>
+                    {/* The proxy sits on the pivot with the bone's rotation, i.e. the bone's own frame */}
+                    <mesh raycast={() => null} renderOrder={999}>
+                        <octahedronGeometry args={[0.06]} />
+                        <meshBasicMaterial color={HIGHLIGHT_COLOR} depthTest={false} transparent />
+                    </mesh>
+                    {bone.cubes.map((cube, idx) => (
+                        <group
+                            key={idx}
+                            position={toScene(cube.origin.map((o, a) => o + cube.size[a] / 2 - bone.pivot[a]))}
+                            rotation={toRadians(cube.rotation || [0, 0, 0])}
+                        >
+                            <CubeOutline cube={cube} />
+                        </group>
+                    ))}
+                </>
+            )}
+        </group>
+    );
+};
+
 // --- Adapters ---
 
 const javaElementToCube = (el: JavaBlockElement): ModelCube => {
@@ -90,48 +199,6 @@ const javaElementToCube = (el: JavaBlockElement): ModelCube => {
     };
 };
 
-// --- Interpolation Logic ---
-const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
-
-const getInterpolatedValue = (channel: any, time: number): [number, number, number] => {
-    const keyframes = Object.keys(channel).map(key => ({
-        time: parseFloat(key),
-        data: channel[key]
-    })).sort((a, b) => a.time - b.time);
-
-    if (keyframes.length === 0) return [0, 0, 0];
-    
-    let prev = keyframes[0];
-    let next = keyframes[keyframes.length - 1];
-
-    for (let i = 0; i < keyframes.length; i++) {
-        if (keyframes[i].time <= time) {
-            prev = keyframes[i];
-        } else {
-            next = keyframes[i];
-            break;
-        }
-    }
-
-    const prevVal = prev.data;
-    const nextVal = next.data;
-
-    if (!prevVal || !nextVal) return [0, 0, 0];
-
-    const pV = Array.isArray(prevVal) ? prevVal : (prevVal.post || [0,0,0]);
-    const nV = Array.isArray(nextVal) ? nextVal : (nextVal.post || [0,0,0]);
-
-    if (prev.time === next.time) return pV as [number, number, number];
-
-    const factor = (time - prev.time) / (next.time - prev.time);
-    
-    return [
-        lerp(pV[0], nV[0], factor),
-        lerp(pV[1], nV[1], factor),
-        lerp(pV[2], nV[2], factor)
-    ];
-};
-
 // --- Components ---
 
 const ExternalModelRenderer: React.FC<{ url: string, format: string }> = ({ url, format }) => {
@@ -194,11 +261,19 @@ const CustomBoxMesh: React.FC<{
     textureSize: [number, number];
     isJavaBlock?: boolean;
     uvScale: number;
-}> = ({ cube, pivot, textureMap, textureSize, isJavaBlock, uvScale = 1 }) => {
+    uvOffset?: [number, number]; // animated, in texture pixels
+    boneIndex?: number; // set for pickable entity cubes
+    cubeIndex?: number;
+}> = ({ cube, pivot, textureMap, textureSize, isJavaBlock, uvScale = 1, uvOffset = [0, 0], boneIndex, cubeIndex }) => {
+    const edit = useContext(EditContext);
+    const paint = useContext(PaintContext);
     const [ox, oy, oz] = cube.origin;
     const [w, h, d] = cube.size;
     const [px, py, pz] = pivot;
     const [texW, texH] = textureSize;
+    const inflate = cube.inflate || 0;
+    const mirror = !!cube.mirror;
+    const [offU, offV] = uvOffset;
     
     let x, y, z;
 
@@ -218,9 +293,21 @@ const CustomBoxMesh: React.FC<{
     }
 
     const geometry = useMemo(() => {
-        const geo = new THREE.BoxGeometry(w * SCALE_FACTOR, h * SCALE_FACTOR, d * SCALE_FACTOR);
+        const geo = new THREE.BoxGeometry((w + inflate * 2) * SCALE_FACTOR, (h + inflate * 2) * SCALE_FACTOR, (d + inflate * 2) * SCALE_FACTOR);
         
-        if (textureMap && cube.uv) {
+        // UVs are set even without a texture so the painter can find texels on bare cubes
+        if (cube.faces) {
+             // Per-face rects are already in texture pixels, flips and turns included
+             const uvAttribute = geo.attributes.uv;
+             CUBE_FACE_NAMES.forEach((name, faceIdx) => {
+                 const face = cube.faces![name];
+                 if (!face) return;
+                 getFaceCornerUVs(name, face).forEach(([u, v], corner) => {
+                     uvAttribute.setXY(faceIdx * 4 + corner, u / texW, 1 - v / texH);
+                 });
+             });
+             uvAttribute.needsUpdate = true;
+        } else if (cube.uv) {
              const [u, v] = cube.uv;
              const ru = Math.floor(u);
              const rv = Math.floor(v);
@@ -237,8 +324,9 @@ const CustomBoxMesh: React.FC<{
              
              const setFaceUV = (faceIdx: number, uStart: number, vStart: number, width: number, height: number) => {
                  const offset = faceIdx * 4;
-                 const u0 = n(uStart, texW);
-                 const u1 = n(uStart + width, texW);
+                 // Mirrored cubes read every face right-to-left
+                 const u0 = n(mirror ? uStart + width : uStart, texW);
+                 const u1 = n(mirror ? uStart : uStart + width, texW);
                  const v0 = nv(vStart);
                  const v1 = nv(vStart + height); 
 
@@ -249,8 +337,9 @@ const CustomBoxMesh: React.FC<{
              };
 
              // Using Standard Box UV Mapping logic with scaled dimensions
-             setFaceUV(0, ru, rv + rd, rd, rh); // Side 1 (Right)
-             setFaceUV(1, ru + rd + rw, rv + rd, rd, rh); // Side 2 (Left)
+             // Mirroring also swaps which side region lands on which side
+             setFaceUV(mirror ? 1 : 0, ru, rv + rd, rd, rh); // Side 1 (Right)
+             setFaceUV(mirror ? 0 : 1, ru + rd + rw, rv + rd, rd, rh); // Side 2 (Left)
              setFaceUV(2, ru + rd, rv, rw, rd); // Top
              setFaceUV(3, ru + rd + rw, rv, rw, rd); // Bottom
              setFaceUV(4, ru + rd, rv + rd, rw, rh); // Front
@@ -259,8 +348,69 @@ const CustomBoxMesh: React.FC<{
              uvAttribute.needsUpdate = true;
         }
 
+        // Per-face cubes only draw the faces they have a rect for
+        if (cube.faces) {
+            const index = geo.getIndex()!;
+            const kept: number[] = [];
+            geo.groups.forEach((group, faceIdx) => {
+                if (!cube.faces![CUBE_FACE_NAMES[faceIdx]]) return;
+                for (let i = group.start; i < group.start + group.count; i++) kept.push(index.getX(i));
+            });
+            geo.setIndex(kept);
+            geo.clearGroups();
+        }
+
+        geo.userData.baseUv = Float32Array.from(geo.attributes.uv.array);
         return geo;
-    }, [cube, w, h, d, texW, texH, textureMap, uvScale]);
+    }, [cube, w, h, d, inflate, mirror, texW, texH, uvScale]);
+
+    const edges = useMemo(() => {
+        const box = new THREE.BoxGeometry((w + inflate * 2) * SCALE_FACTOR, (h + inflate * 2) * SCALE_FACTOR, (d + inflate * 2) * SCALE_FACTOR);
+        const geo = new THREE.EdgesGeometry(box);
+        box.dispose();
+        return geo;
+    }, [w, h, d, inflate]);
+
+    // R3F does not free geometries swapped in through props
+    useEffect(() => () => geometry.dispose(), [geometry]);
+    useEffect(() => () => edges.dispose(), [edges]);
+
+    // Animated UV scrolling shifts the built UVs in place instead of rebuilding the box.
+    // Box nets move in whole pixels, per-face rects follow the offset exactly.
+    const [shiftU, shiftV] = !cube.faces && cube.uv
+        ? [Math.floor(cube.uv[0] + offU) - Math.floor(cube.uv[0]), Math.floor(cube.uv[1] + offV) - Math.floor(cube.uv[1])]
+        : [offU, offV];
+
+    useLayoutEffect(() => {
+        const uvAttribute = geometry.attributes.uv;
+        const base: Float32Array = geometry.userData.baseUv;
+        for (let i = 0; i < uvAttribute.count; i++) {
+            uvAttribute.setXY(i, base[i * 2] + shiftU / texW, base[i * 2 + 1] - shiftV / texH);
+        }
+        uvAttribute.needsUpdate = true;
+    }, [geometry, shiftU, shiftV, texW, texH]);
+
+    // Click picks the cube, Alt+click its bone
+    const handleClick = (e: ThreeEvent<MouseEvent>) => {
+        if (!edit || boneIndex === undefined || edit.gizmoBusyRef.current || e.delta > CLICK_TOLERANCE) return;
+        e.stopPropagation();
+        edit.select(e.altKey ? { boneIndex } : { boneIndex, cubeIndex });
+    };
+
+    const paintable = !!paint && boneIndex !== undefined;
+
+    const handlePaintDown = (e: ThreeEvent<PointerEvent>) => {
+        if (e.button !== 0 || !e.uv) return;
+        e.stopPropagation();
+        paint!.onStrokeStart(uvToTexel(e.uv, textureSize));
+    };
+
+    // Strokes can cross onto other cubes; each mesh reports the texel under the pointer
+    const handlePaintMove = (e: ThreeEvent<PointerEvent>) => {
+        if (!(e.buttons & 1) || !e.uv) return;
+        e.stopPropagation();
+        paint!.onStrokeMove(uvToTexel(e.uv, textureSize));
+    };
 
     return (
         <group position={[x * SCALE_FACTOR, y * SCALE_FACTOR, z * SCALE_FACTOR]}>
@@ -269,7 +419,14 @@ const CustomBoxMesh: React.FC<{
                 THREE.MathUtils.degToRad(cube.rotation[1] || 0),
                 THREE.MathUtils.degToRad(cube.rotation[2] || 0)
             ] : [0,0,0]}>
-                <mesh geometry={geometry} castShadow receiveShadow>
+                <mesh
+                    geometry={geometry}
+                    castShadow
+                    receiveShadow
+                    onClick={edit && boneIndex !== undefined && !paintable ? handleClick : undefined}
+                    onPointerDown={paintable ? handlePaintDown : undefined}
+                    onPointerMove={paintable ? handlePaintMove : undefined}
+                >
                     <meshStandardMaterial 
                         color={textureMap ? "#ffffff" : (cube.color || "#ffffff")} 
                         map={textureMap}
@@ -279,8 +436,7 @@ const CustomBoxMesh: React.FC<{
                         side={THREE.DoubleSide} 
                     />
                     {!textureMap && (
-                        <lineSegments>
-                            <edgesGeometry args={[new THREE.BoxGeometry(w * SCALE_FACTOR, h * SCALE_FACTOR, d * SCALE_FACTOR)]} />
+                        <lineSegments geometry={edges}>
                             <lineBasicMaterial color="#000000" opacity={0.15} transparent />
                         </lineSegments>
                     )}
@@ -304,10 +460,16 @@ const BoneNode: React.FC<{
     const animData = animation?.bones?.[bone.name];
     let animRot = [0, 0, 0];
     let animPos = [0, 0, 0];
+    let animScale: [number, number, number] = [1, 1, 1];
+    let visible = true;
+    let uvOffset: [number, number] = [0, 0];
 
     if (animData) {
-        if (animData.rotation) animRot = getInterpolatedValue(animData.rotation, time);
-        if (animData.position) animPos = getInterpolatedValue(animData.position, time);
+        if (animData.rotation) animRot = sampleChannel(animData.rotation, time);
+        if (animData.position) animPos = sampleChannel(animData.position, time);
+        if (animData.scale) animScale = sampleChannel(animData.scale, time, [1, 1, 1]);
+        if (animData.visible) visible = sampleVisibility(animData.visible, time);
+        if (animData.uv_offset) uvOffset = sampleUvOffset(animData.uv_offset, time);
     }
 
     const [px, py, pz] = bone.pivot;
@@ -335,16 +497,24 @@ const BoneNode: React.FC<{
 
     return (
         <group position={finalPos} rotation={finalRot}>
-            {bone.cubes.map((cube, idx) => (
-                <CustomBoxMesh 
-                    key={idx} 
-                    cube={cube} 
-                    pivot={bone.pivot} 
-                    textureMap={textureMap} 
-                    textureSize={textureSize}
-                    uvScale={uvScale}
-                />
-            ))}
+            {/* Shape tracks only affect this bone's own cubes, as in Hytale */}
+            <group scale={animScale} visible={visible}>
+                {bone.cubes.map((cube, idx) => (
+                    <CustomBoxMesh 
+                        key={idx} 
+                        cube={cube} 
+                        pivot={bone.pivot} 
+                        textureMap={textureMap} 
+                        textureSize={textureSize}
+                        uvScale={uvScale}
+                        uvOffset={uvOffset}
+                        boneIndex={allBones.indexOf(bone)}
+                        cubeIndex={idx}
+                    />
+                ))}
+            </group>
+
+            <SelectionProxy frameBone={bone.name} />
             
             {children.map((child, idx) => (
                 <BoneNode 
@@ -371,23 +541,51 @@ const EntityRenderer: React.FC<{
     isPlaying: boolean;
     playbackSpeed: number;
     uvScale: number;
-}> = ({ model, textureMap, activeAnimationName, isPlaying, playbackSpeed, uvScale }) => {
-    const [time, setTime] = useState(0);
-
+    time: number;
+    onTimeChange?: (time: number) => void;
+}> = ({ model, textureMap, activeAnimationName, isPlaying, playbackSpeed, uvScale, time, onTimeChange }) => {
     const animation = useMemo(() => {
         if (!activeAnimationName || !model.animations) return undefined;
         return model.animations[activeAnimationName];
     }, [model, activeAnimationName]);
 
+    // Playback runs on a local clock so only the model re-renders every frame;
+    // the parent's playhead is updated a few times a second and when playback stops
+    const [localTime, setLocalTime] = useState(time);
+    const clockRef = useRef(time);
+    const pushedRef = useRef(time);
+    const sinceSyncRef = useRef(0);
+
+    // Scrubbing, resets and animation switches come from the parent
+    useEffect(() => {
+        if (time === pushedRef.current) return;
+        pushedRef.current = time;
+        clockRef.current = time;
+        setLocalTime(time);
+    }, [time]);
+
+    const pushTime = (t: number) => {
+        sinceSyncRef.current = 0;
+        if (!onTimeChange || t === pushedRef.current) return;
+        pushedRef.current = t;
+        onTimeChange(t);
+    };
+
+    useEffect(() => {
+        if (!isPlaying) pushTime(clockRef.current);
+    }, [isPlaying]);
+
     useFrame((state, delta) => {
-        if (isPlaying && animation) {
-            const duration = animation.animation_length || 1.0;
-            setTime(prev => (prev + delta * playbackSpeed) % duration);
-        }
+        if (!isPlaying || !animation) return;
+        const duration = animation.animation_length || 1.0;
+        const next = clockRef.current + delta * playbackSpeed;
+        // Non-looping animations stop on their last frame
+        clockRef.current = animation.loop ? next % duration : Math.min(next, duration);
+        setLocalTime(clockRef.current);
+        sinceSyncRef.current += delta;
+        if (sinceSyncRef.current >= TIME_SYNC_INTERVAL) pushTime(clockRef.current);
     });
 
-    useEffect(() => { setTime(0); }, [activeAnimationName]);
-
     if (!model.bedrockData?.bones) return null;
 
     const rootBones = model.bedrockData.bones.filter(b => !b.parent || !model.bedrockData!.bones.find(p => p.name === b.parent));
@@ -403,10 +601,11 @@ const EntityRenderer: React.FC<{
                     textureMap={textureMap} 
                     textureSize={textureSize as [number, number]}
                     animation={animation}
-                    time={time}
+                    time={localTime}
                     uvScale={uvScale}
                 />
             ))}
+            <SelectionProxy />
         </group>
     );
 };
@@ -455,8 +654,79 @@ const JavaBlockGroup: React.FC<{
     );
 };
 
-const Viewer3D: React.FC<ViewerProps> = ({ model, textureData, activeAnimationName, isPlaying = false, playbackSpeed = 1, captureRef, uvScale = 1 }) => {
+const sameTransform = (a: SelectionTransform, b: SelectionTransform) =>
+    [...a.position, ...a.rotation, ...a.scale].every((v, i) => Math.abs(v - [...b.position, ...b.rotation, ...b.scale][i]) < 1e-4);
+
+const Viewer3D: React.FC<ViewerProps> = ({ model, textureData, activeAnimationName, isPlaying = false, playbackSpeed = 1, captureRef, uvScale = 1, animationTime = 0, onAnimationTimeChange, selection = null, onSelect, onTransform, paint }) => {
   const [textureMap, setTextureMap] = useState<THREE.Texture | null>(null);
+  const [transformMode, setTransformMode] = useState<TransformMode>('translate');
+  const [gridSnap, setGridSnap] = useState(TRANSLATION_SNAPS[0]);
+  const [rotationSnap, setRotationSnap] = useState(ROTATION_SNAPS[0]);
+  const [proxy, setProxy] = useState<THREE.Object3D | null>(null);
+  const gizmoBusyRef = useRef(false);
+  const pointerDownRef = useRef<[number, number] | null>(null);
+
+  const canEdit = !!onSelect && !!model.bedrockData && !model.sourceBlobUrl;
+  const canPaint = !!paint && !!model.bedrockData && !model.sourceBlobUrl;
+
+  // A stroke ends wherever the button is released, on or off the model
+  useEffect(() => {
+    if (!canPaint) return;
+    const onPointerUp = () => paint!.onStrokeEnd();
+    window.addEventListener('pointerup', onPointerUp);
+    return () => window.removeEventListener('pointerup', onPointerUp);
+  }, [canPaint, paint]);
+
+  // W/E/R switch gizmo mode, Esc clears the selection
+  useEffect(() => {
+    if (!canEdit) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement;
+        if (e.ctrlKey || e.metaKey || e.altKey || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+        const key = e.key.toLowerCase();
+        if (key === 'w') setTransformMode('translate');
+        else if (key === 'e') setTransformMode('rotate');
+        else if (key === 'r') setTransformMode('scale');
+        else if (key === 'escape') onSelect!(null);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [canEdit, onSelect]);
+
+  const handleGizmoRelease = () => {
+    // Let the click that follows this mouseup through before re-enabling picking
+    setTimeout(() => { gizmoBusyRef.current = false; }, 0);
+    if (!proxy || !selection || !onTransform) return;
+    const start = getSelectionTransform(model, selection);
+    if (!start) return;
+
+    const transform: SelectionTransform = {
+        position: proxy.position.toArray().map(v => v / SCALE_FACTOR) as [number, number, number],
+        rotation: [proxy.rotation.x, proxy.rotation.y, proxy.rotation.z].map(r => THREE.MathUtils.radToDeg(r)) as [number, number, number],
+        scale: proxy.scale.toArray() as [number, number, number]
+    };
+
+    // Put the proxy back; the committed model moves it to its new place
+    proxy.position.fromArray(toScene(start.position));
+    proxy.rotation.fromArray(toRadians(start.rotation));
+    proxy.scale.set(1, 1, 1);
+
+    if (!sameTransform(transform, start)) onTransform(selection, transform, gridSnap);
+  };
+
+  const handlePointerMissed = (e: MouseEvent) => {
+    const down = pointerDownRef.current;
+    if (!canEdit || gizmoBusyRef.current || !down) return;
+    if (Math.hypot(e.clientX - down[0], e.clientY - down[1]) <= CLICK_TOLERANCE) onSelect!(null);
+  };
+
+  const editContext: EditContextValue | null = canEdit ? {
+    model,
+    selection,
+    select: onSelect!,
+    setProxy,
+    gizmoBusyRef
+  } : null;
 
   useEffect(() => {
     if (textureData) {
@@ -465,7 +735,11 @@ const Viewer3D: React.FC<ViewerProps> = ({ model, textureData, activeAnimationNa
             tex.magFilter = THREE.NearestFilter;
             tex.minFilter = THREE.NearestFilter;
             tex.colorSpace = THREE.SRGBColorSpace;
-            setTextureMap(tex);
+            // Painting swaps the texture on every stroke step, so the old one is freed
+            setTextureMap(prev => {
+                prev?.dispose();
+                return tex;
+            });
         });
     } else {
         setTextureMap(null);
@@ -473,10 +747,18 @@ const Viewer3D: React.FC<ViewerProps> = ({ model, textureData, activeAnimationNa
   }, [textureData]);
 
   return (
-    <div className="w-full h-full bg-[#1e1e1e] relative overflow-hidden rounded-xl border border-gray-700 shadow-2xl">
-      <Canvas shadows gl={{ preserveDrawingBuffer: true }}>
+    <div
+      className="w-full h-full bg-[#1e1e1e] relative overflow-hidden rounded-xl border border-gray-700 shadow-2xl"
+      onPointerDown={(e) => { pointerDownRef.current = [e.clientX, e.clientY]; }}
+    >
+      <Canvas shadows gl={{ preserveDrawingBuffer: true }} onPointerMissed={handlePointerMissed}>
         <PerspectiveCamera makeDefault position={[5, 5, 5]} fov={50} />
-        <OrbitControls makeDefault minPolarAngle={0} maxPolarAngle={Math.PI / 1.5} />
+        <OrbitControls
+            makeDefault
+            minPolarAngle={0}
+            maxPolarAngle={Math.PI / 1.5}
+            mouseButtons={canPaint ? PAINT_MOUSE_BUTTONS : ORBIT_MOUSE_BUTTONS}
+        />
         
         <ambientLight intensity={0.6} />
         <pointLight position={[10, 10, 10]} intensity={0.8} castShadow />
@@ -484,6 +766,8 @@ const Viewer3D: React.FC<ViewerProps> = ({ model, textureData, activeAnimationNa
 
         <ScreenshotManager captureRef={captureRef} />
 
+        <EditContext.Provider value={editContext}>
+        <PaintContext.Provider value={canPaint ? paint! : null}>
         <Center disableY>
           {model.sourceBlobUrl && model.sourceFormat ? (
               <ExternalModelRenderer url={model.sourceBlobUrl} format={model.sourceFormat} />
@@ -497,6 +781,8 @@ const Viewer3D: React.FC<ViewerProps> = ({ model, textureData, activeAnimationNa
                         isPlaying={isPlaying}
                         playbackSpeed={playbackSpeed}
                         uvScale={uvScale}
+                        time={animationTime}
+                        onTimeChange={onAnimationTimeChange}
                     />
                 )}
 
@@ -506,6 +792,21 @@ const Viewer3D: React.FC<ViewerProps> = ({ model, textureData, activeAnimationNa
               </>
           )}
         </Center>
+        </PaintContext.Provider>
+        </EditContext.Provider>
+
+        {canEdit && proxy && selection && (
+            <TransformControls
+                object={proxy}
+                mode={transformMode}
+                // Moves follow the model's axes; translation is snapped in model space on release
+                space={transformMode === 'translate' ? 'world' : 'local'}
+                size={0.8}
+                rotationSnap={rotationSnap ? THREE.MathUtils.degToRad(rotationSnap) : null}
+                onMouseDown={() => { gizmoBusyRef.current = true; }}
+                onMouseUp={handleGizmoRelease}
+            />
+        )}
 
         <Grid 
             infiniteGrid 
@@ -534,6 +835,48 @@ const Viewer3D: React.FC<ViewerProps> = ({ model, textureData, activeAnimationNa
              )}
           </div>
       </div>
+
+      {canEdit && (
+          <div className="absolute top-4 right-4 bg-black/50 text-white text-xs p-1 rounded backdrop-blur-sm flex items-center gap-1">
+              {([
+                  ['translate', Move3d, 'Move (W)'],
+                  ['rotate', Rotate3d, 'Rotate (E)'],
+                  ['scale', Scale3d, 'Scale (R)']
+              ] as const).map(([mode, Icon, label]) => (
+                  <button
+                      key={mode}
+                      onClick={() => setTransformMode(mode)}
+                      title={label}
+                      className={`p-1.5 rounded ${transformMode === mode ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+                  >
+                      <Icon size={14} />
+                  </button>
+              ))}
+              <div className="w-px h-5 bg-white/20 mx-1" />
+              <label className="flex items-center gap-1 text-[10px] text-gray-300" title="Grid snap (units)">
+                  Grid
+                  <select value={gridSnap} onChange={(e) => setGridSnap(Number(e.target.value))} className="bg-[#1e1e1e] border border-[#3e3e42] rounded px-1 py-0.5">
+                      {TRANSLATION_SNAPS.map(v => <option key={v} value={v}>{v || 'Off'}</option>)}
+                  </select>
+              </label>
+              <label className="flex items-center gap-1 text-[10px] text-gray-300" title="Rotation snap (degrees)">
+                  Angle
+                  <select value={rotationSnap} onChange={(e) => setRotationSnap(Number(e.target.value))} className="bg-[#1e1e1e] border border-[#3e3e42] rounded px-1 py-0.5">
+                      {ROTATION_SNAPS.map(v => <option key={v} value={v}>{v ? `${v}°` : 'Off'}</option>)}
+                  </select>
+              </label>
+          </div>
+      )}
+
+      {canPaint ? (
+          <div className="absolute bottom-4 left-4 pointer-events-none text-[10px] text-gray-500">
+              Left-drag paints the model · Right-drag orbits · Wheel zooms
+          </div>
+      ) : canEdit && !selection && (
+          <div className="absolute bottom-4 left-4 pointer-events-none text-[10px] text-gray-500">
+              Click a cube to select it · Alt+click selects its bone
+          </div>
+      )}
     </div>
   );
 };
@@ -6,7 +6,8 @@ interface HistoryState<T> {
   future: T[];
 }
 
-export default function useHistory<T>(initialState: T) {
+// `limit` caps how many undo steps are kept; the oldest are dropped first
+export default function useHistory<T>(initialState: T, limit = Infinity) {
   const [history, setHistory] = useState<HistoryState<T>>({
     past: [],
     present: initialState,
@@ -46,13 +47,19 @@ export default function useHistory<T>(initialState: T) {
     setHistory((curr) => {
       const newState = val instanceof Function ? val(curr.present) : val;
       if (newState === curr.present) return curr;
+      const past = [...curr.past, curr.present];
       return {
-        past: [...curr.past, curr.present],
+        past: past.length > limit ? past.slice(past.length - limit) : past,
         present: newState,
         future: [],
       };
     });
+  }, [limit]);
+
+  // Replaces the state and forgets every undo/redo step
+  const reset = useCallback((val: T) => {
+    setHistory({ past: [], present: val, future: [] });
   }, []);
 
-  return { state: history.present, set, undo, redo, canUndo, canRedo };
+  return { state: history.present, set, reset, undo, redo, canUndo, canRedo };
 }
\ No newline at end of file
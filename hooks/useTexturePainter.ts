@@ -0,0 +1,81 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  PaintTool, PixelBuffer, Texel, clonePixelBuffer, decodeTexture, drawLine, encodeTexture, floodFill,
+  getPixel, rgbaToHex, setPixel, toolColor
+} from '../services/texturePainter';
+
+interface Stroke {
+  tool: PaintTool;
+  buffer: PixelBuffer;
+  start: Texel;
+  last: Texel;
+}
+
+// Shared by the UV canvas and the 3D viewport. A stroke paints into a working copy
+// shown through `preview`, and only the finished stroke is committed, so one stroke
+// is one undo step.
+export default function useTexturePainter(
+  textureData: string | null,
+  textureSize: [number, number],
+  commit: (data: string) => void
+) {
+  const [tool, setTool] = useState<PaintTool>('pencil');
+  const [color, setColor] = useState('#ffffff');
+  const [preview, setPreview] = useState<string | null>(null);
+  const baseRef = useRef<PixelBuffer | null>(null);
+  const strokeRef = useRef<Stroke | null>(null);
+  const [texW, texH] = textureSize;
+
+  useEffect(() => {
+    // The previous buffer stays paintable until the new image is decoded
+    let cancelled = false;
+    decodeTexture(textureData, texW, texH)
+      .then(buffer => { if (!cancelled) baseRef.current = buffer; })
+      .catch(err => console.error("Texture could not be decoded for painting", err));
+    return () => { cancelled = true; };
+  }, [textureData, texW, texH]);
+
+  const startStroke = useCallback((texel: Texel) => {
+    const base = baseRef.current;
+    if (!base || strokeRef.current) return;
+    if (tool === 'picker') {
+      const picked = getPixel(base, texel);
+      if (picked && picked[3] > 0) setColor(rgbaToHex(picked));
+      return;
+    }
+    const buffer = clonePixelBuffer(base);
+    if (tool === 'fill') floodFill(buffer, texel, toolColor(tool, color));
+    else setPixel(buffer, texel, toolColor(tool, color));
+    strokeRef.current = { tool, buffer, start: texel, last: texel };
+    setPreview(encodeTexture(buffer));
+  }, [tool, color]);
+
+  const continueStroke = useCallback((texel: Texel) => {
+    const stroke = strokeRef.current;
+    if (!stroke || stroke.tool === 'fill') return;
+    if (texel[0] === stroke.last[0] && texel[1] === stroke.last[1]) return;
+    if (stroke.tool === 'line') {
+      // The line is redrawn from the untouched texture on every move
+      stroke.buffer = clonePixelBuffer(baseRef.current || stroke.buffer);
+      drawLine(stroke.buffer, stroke.start, texel, toolColor(stroke.tool, color));
+    } else {
+      drawLine(stroke.buffer, stroke.last, texel, toolColor(stroke.tool, color));
+    }
+    stroke.last = texel;
+    setPreview(encodeTexture(stroke.buffer));
+  }, [color]);
+
+  const endStroke = useCallback(() => {
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    strokeRef.current = null;
+    // The next stroke can start before the committed image is decoded again
+    baseRef.current = stroke.buffer;
+    commit(encodeTexture(stroke.buffer));
+    setPreview(null);
+  }, [commit]);
+
+  return { tool, setTool, color, setColor, preview, startStroke, continueStroke, endStroke };
+}
+
+export type TexturePainter = ReturnType<typeof useTexturePainter>;
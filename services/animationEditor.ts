@@ -0,0 +1,202 @@
+import { MinecraftModel, AnimationDefinition, AnimationChannel, AnimationBoneData, KeyframeValue, LerpMode } from '../types';
+import { Vec3, BezierHandles, DEFAULT_BEZIER, getKeyframeVector } from './animationMath';
+
+// --- Animation Editing ---
+// Pure model -> model updates used by the timeline, so every edit is a single
+// useHistory entry and can be undone like geometry changes.
+
+export type AnimationChannelName = 'rotation' | 'position' | 'scale';
+export const ANIMATION_CHANNEL_NAMES: AnimationChannelName[] = ['rotation', 'position', 'scale'];
+
+// One Hytale tick; keyframe times snap to this grid
+export const KEYFRAME_TIME_STEP = 0.05;
+export const DEFAULT_ANIMATION_LENGTH = 1.0;
+
+export const snapKeyframeTime = (time: number) =>
+    Math.max(0, Math.round(time / KEYFRAME_TIME_STEP) * KEYFRAME_TIME_STEP);
+
+// Keys look like "0.0", "0.5", "1.25" (same shape the generator produces)
+export const formatKeyframeTime = (time: number) => {
+    const rounded = Number(time.toFixed(4));
+    return Number.isInteger(rounded) ? rounded.toFixed(1) : String(rounded);
+};
+
+export const defaultChannelValue = (channel: AnimationChannelName): Vec3 =>
+    channel === 'scale' ? [1, 1, 1] : [0, 0, 0];
+
+// --- Internal Helpers ---
+
+const findKey = (channel: AnimationChannel, time: number): string | undefined =>
+    Object.keys(channel).find(k => Math.abs(parseFloat(k) - time) < KEYFRAME_TIME_STEP / 2);
+
+// Replaces the vector of a keyframe value but keeps its interpolation settings
+const withVector = (existing: KeyframeValue | undefined, value: Vec3): KeyframeValue =>
+    existing && !Array.isArray(existing) ? { ...existing, post: value } : value;
+
+const updateAnimation = (
+    model: MinecraftModel,
+    animName: string,
+    update: (anim: AnimationDefinition) => AnimationDefinition
+): MinecraftModel => {
+    const anim = model.animations?.[animName];
+    if (!anim) return model;
+    return { ...model, animations: { ...model.animations, [animName]: update(anim) } };
+};
+
+const updateChannel = (
+    model: MinecraftModel,
+    animName: string,
+    boneName: string,
+    channelName: AnimationChannelName,
+    update: (channel: AnimationChannel) => AnimationChannel
+): MinecraftModel => updateAnimation(model, animName, anim => {
+    const boneData: AnimationBoneData = { ...(anim.bones?.[boneName] || {}) };
+    const channel = update({ ...(boneData[channelName] || {}) });
+
+    if (Object.keys(channel).length > 0) boneData[channelName] = channel;
+    else delete boneData[channelName];
+
+    const bones = { ...(anim.bones || {}) };
+    if (Object.keys(boneData).length > 0) bones[boneName] = boneData;
+    else delete bones[boneName];
+
+    return { ...anim, bones };
+});
+
+// --- Keyframes ---
+
+export const setKeyframe = (
+    model: MinecraftModel,
+    animName: string,
+    boneName: string,
+    channelName: AnimationChannelName,
+    time: number,
+    value: Vec3
+): MinecraftModel => updateChannel(model, animName, boneName, channelName, channel => {
+    const existingKey = findKey(channel, time);
+    const key = existingKey ?? formatKeyframeTime(snapKeyframeTime(time));
+    channel[key] = withVector(existingKey ? channel[existingKey] : undefined, value);
+    return channel;
+});
+
+export const removeKeyframe = (
+    model: MinecraftModel,
+    animName: string,
+    boneName: string,
+    channelName: AnimationChannelName,
+    time: number
+): MinecraftModel => updateChannel(model, animName, boneName, channelName, channel => {
+    const key = findKey(channel, time);
+    if (key !== undefined) delete channel[key];
+    return channel;
+});
+
+// Moving onto an existing keyframe replaces it
+export const moveKeyframe = (
+    model: MinecraftModel,
+    animName: string,
+    boneName: string,
+    channelName: AnimationChannelName,
+    fromTime: number,
+    toTime: number
+): MinecraftModel => updateChannel(model, animName, boneName, channelName, channel => {
+    const fromKey = findKey(channel, fromTime);
+    if (fromKey === undefined) return channel;
+    const value = channel[fromKey];
+    delete channel[fromKey];
+
+    const target = snapKeyframeTime(toTime);
+    const clashing = findKey(channel, target);
+    if (clashing !== undefined) delete channel[clashing];
+    channel[formatKeyframeTime(target)] = value;
+    return channel;
+});
+
+// Linear keyframes without a 'pre' are stored as bare vectors again
+export const setKeyframeCurve = (
+    model: MinecraftModel,
+    animName: string,
+    boneName: string,
+    channelName: AnimationChannelName,
+    time: number,
+    lerpMode: LerpMode,
+    bezier?: BezierHandles
+): MinecraftModel => updateChannel(model, animName, boneName, channelName, channel => {
+    const key = findKey(channel, time);
+    if (key === undefined) return channel;
+    const existing = channel[key];
+    const post = getKeyframeVector(existing);
+    const pre = !Array.isArray(existing) ? existing.pre : undefined;
+
+    if (lerpMode === 'linear' && !pre) {
+        channel[key] = post;
+    } else {
+        channel[key] = {
+            ...(pre ? { pre } : {}),
+            post,
+            ...(lerpMode !== 'linear' ? { lerp_mode: lerpMode } : {}),
+            ...(lerpMode === 'bezier' ? { bezier: bezier || (!Array.isArray(existing) && existing.bezier) || DEFAULT_BEZIER } : {})
+        };
+    }
+    return channel;
+});
+
+export const getKeyframeValue = (
+    model: MinecraftModel,
+    animName: string,
+    boneName: string,
+    channelName: AnimationChannelName,
+    time: number
+): Vec3 | undefined => {
+    const channel = model.animations?.[animName]?.bones?.[boneName]?.[channelName];
+    if (!channel) return undefined;
+    const key = findKey(channel, time);
+    return key !== undefined ? getKeyframeVector(channel[key]) : undefined;
+};
+
+// --- Animations ---
+
+export const setAnimationProperties = (
+    model: MinecraftModel,
+    animName: string,
+    props: Pick<AnimationDefinition, 'animation_length' | 'loop'>
+): MinecraftModel => updateAnimation(model, animName, anim => ({ ...anim, ...props }));
+
+export const uniqueAnimationName = (model: MinecraftModel, base: string) => {
+    const existing = model.animations || {};
+    let name = base;
+    for (let n = 2; existing[name]; n++) name = `${base}_${n}`;
+    return name;
+};
+
+export const createAnimation = (model: MinecraftModel, name: string, length: number = DEFAULT_ANIMATION_LENGTH): MinecraftModel => {
+    if (model.animations?.[name]) throw new Error(`Animation "${name}" already exists.`);
+    return {
+        ...model,
+        animations: { ...(model.animations || {}), [name]: { loop: true, animation_length: length, bones: {} } }
+    };
+};
+
+// Keeps the animation's position in the list so the dropdown doesn't jump around
+export const renameAnimation = (model: MinecraftModel, oldName: string, newName: string): MinecraftModel => {
+    if (!model.animations?.[oldName] || oldName === newName) return model;
+    if (model.animations[newName]) throw new Error(`Animation "${newName}" already exists.`);
+    const animations: Record<string, AnimationDefinition> = {};
+    Object.entries(model.animations).forEach(([name, anim]) => {
+        animations[name === oldName ? newName : name] = anim;
+    });
+    return { ...model, animations };
+};
+
+export const duplicateAnimation = (model: MinecraftModel, name: string, newName: string): MinecraftModel => {
+    const source = model.animations?.[name];
+    if (!source) return model;
+    if (model.animations![newName]) throw new Error(`Animation "${newName}" already exists.`);
+    return { ...model, animations: { ...model.animations, [newName]: JSON.parse(JSON.stringify(source)) } };
+};
+
+export const deleteAnimation = (model: MinecraftModel, name: string): MinecraftModel => {
+    if (!model.animations?.[name]) return model;
+    const { [name]: _removed, ...animations } = model.animations;
+    return { ...model, animations };
+};
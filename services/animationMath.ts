@@ -0,0 +1,179 @@
+import { AnimationChannel, KeyframeValue, LerpMode, VisibilityChannel, UvOffsetChannel } from '../types';
+
+// --- Keyframe Sampling ---
+// Channels are Bedrock-style maps of "seconds" -> value, where a value is
+// either a bare vector or an object carrying the vector in 'post' plus its
+// interpolation settings.
+
+export type Vec3 = [number, number, number];
+export type BezierHandles = [number, number, number, number];
+
+export const LERP_MODES: LerpMode[] = ['linear', 'step', 'catmullrom', 'bezier'];
+
+// CSS "ease-in-out"; used when a bezier keyframe has no handles of its own
+export const DEFAULT_BEZIER: BezierHandles = [0.42, 0, 0.58, 1];
+
+export interface Keyframe {
+    key: string; // original map key, e.g. "0.5"
+    time: number;
+    value: Vec3; // 'post'
+    pre: Vec3; // value when arriving from the previous keyframe
+    lerpMode: LerpMode;
+    bezier?: BezierHandles;
+}
+
+const toVec3 = (v: any): Vec3 => Array.isArray(v) ? [v[0] || 0, v[1] || 0, v[2] || 0] : [0, 0, 0];
+
+export const getKeyframeVector = (value: KeyframeValue | undefined): Vec3 => {
+    if (!value) return [0, 0, 0];
+    return toVec3(Array.isArray(value) ? value : value.post);
+};
+
+export const getLerpMode = (value: KeyframeValue | undefined): LerpMode =>
+    value && !Array.isArray(value) && value.lerp_mode && LERP_MODES.includes(value.lerp_mode) ? value.lerp_mode : 'linear';
+
+export const getSortedKeyframes = (channel: AnimationChannel | undefined): Keyframe[] =>
+    Object.entries(channel || {})
+        .map(([key, value]) => {
+            const post = getKeyframeVector(value);
+            const obj = value && !Array.isArray(value) ? value : undefined;
+            return {
+                key,
+                time: parseFloat(key),
+                value: post,
+                pre: obj && Array.isArray(obj.pre) ? toVec3(obj.pre) : post,
+                lerpMode: getLerpMode(value),
+                ...(obj && Array.isArray(obj.bezier) && obj.bezier.length === 4 ? { bezier: obj.bezier } : {})
+            };
+        })
+        .filter(kf => Number.isFinite(kf.time))
+        .sort((a, b) => a.time - b.time);
+
+// A segment uses the curve of the keyframe it leaves, except that catmull-rom
+// on either end smooths it (matching Bedrock and Blockbench)
+export const getSegmentMode = (from: Keyframe, to: Keyframe): LerpMode => {
+    if (from.lerpMode === 'step') return 'step';
+    if (from.lerpMode === 'catmullrom' || to.lerpMode === 'catmullrom') return 'catmullrom';
+    return from.lerpMode;
+};
+
+// --- Curves ---
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number) => {
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return 0.5 * (2 * p1 + (-p0 + p2) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (-p0 + 3 * p1 - 3 * p2 + p3) * t3);
+};
+
+// Solves x(s) = x for a cubic bezier through (0,0) and (1,1), then returns y(s)
+export const bezierEase = ([x1, y1, x2, y2]: BezierHandles, x: number) => {
+    const cubic = (a: number, b: number, s: number) => 3 * a * (1 - s) * (1 - s) * s + 3 * b * (1 - s) * s * s + s * s * s;
+    const clampedX1 = Math.min(1, Math.max(0, x1));
+    const clampedX2 = Math.min(1, Math.max(0, x2));
+    let lo = 0;
+    let hi = 1;
+    let s = x;
+    // x(s) is monotonic once the handles are inside [0, 1], so bisection always converges
+    for (let i = 0; i < 30; i++) {
+        const cx = cubic(clampedX1, clampedX2, s);
+        if (Math.abs(cx - x) < 1e-6) break;
+        if (cx < x) lo = s; else hi = s;
+        s = (lo + hi) / 2;
+    }
+    return cubic(y1, y2, s);
+};
+
+const sampleSegment = (keyframes: Keyframe[], i: number, time: number): Vec3 => {
+    const prev = keyframes[i];
+    const next = keyframes[i + 1];
+    const start = prev.value;
+    const end = next.pre;
+    const factor = (time - prev.time) / (next.time - prev.time);
+
+    switch (getSegmentMode(prev, next)) {
+        case 'step':
+            return start;
+        case 'catmullrom': {
+            // Neighbouring keyframes shape the tangents; the ends repeat themselves
+            const before = i > 0 ? keyframes[i - 1].value : start;
+            const after = i + 2 < keyframes.length ? keyframes[i + 2].pre : end;
+            return [0, 1, 2].map(a => catmullRom(before[a], start[a], end[a], after[a], factor)) as Vec3;
+        }
+        case 'bezier': {
+            const eased = bezierEase(prev.bezier || DEFAULT_BEZIER, factor);
+            return [0, 1, 2].map(a => lerp(start[a], end[a], eased)) as Vec3;
+        }
+        default:
+            return [0, 1, 2].map(a => lerp(start[a], end[a], factor)) as Vec3;
+    }
+};
+
+export const sampleKeyframes = (keyframes: Keyframe[], time: number, fallback: Vec3 = [0, 0, 0]): Vec3 => {
+    if (keyframes.length === 0) return fallback;
+
+    // Hold the first/last value outside the keyed range
+    if (time <= keyframes[0].time) return time < keyframes[0].time ? keyframes[0].pre : keyframes[0].value;
+    const last = keyframes[keyframes.length - 1];
+    if (time >= last.time) return last.value;
+
+    let i = 0;
+    while (i < keyframes.length - 2 && keyframes[i + 1].time <= time) i++;
+    if (keyframes[i + 1].time === keyframes[i].time) return keyframes[i].value;
+    return sampleSegment(keyframes, i, time);
+};
+
+export const sampleChannel = (channel: AnimationChannel | undefined, time: number, fallback: Vec3 = [0, 0, 0]): Vec3 =>
+    sampleKeyframes(getSortedKeyframes(channel), time, fallback);
+
+// --- Shape Tracks ---
+
+export const getSortedEntries = <T>(channel: Record<string, T> | undefined) =>
+    Object.entries(channel || {})
+        .map(([key, value]) => ({ time: parseFloat(key), value }))
+        .filter(kf => Number.isFinite(kf.time))
+        .sort((a, b) => a.time - b.time);
+
+// Visibility steps: the last keyframe at or before 'time' wins
+export const sampleVisibility = (channel: VisibilityChannel | undefined, time: number, fallback: boolean = true): boolean => {
+    const keyframes = getSortedEntries(channel);
+    if (keyframes.length === 0) return fallback;
+    let visible = keyframes[0].value;
+    keyframes.forEach(kf => { if (kf.time <= time) visible = kf.value; });
+    return visible !== false;
+};
+
+export const sampleUvOffset = (channel: UvOffsetChannel | undefined, time: number): [number, number] => {
+    const asVectors: AnimationChannel = {};
+    Object.entries(channel || {}).forEach(([key, uv]) => { asVectors[key] = [uv?.[0] || 0, uv?.[1] || 0, 0]; });
+    const [u, v] = sampleChannel(asVectors, time);
+    return [u, v];
+};
+
+// --- Baking ---
+// Formats that only know some curves get the others resampled into linear
+// keyframes every 'step' seconds, so exports play back the way they preview.
+
+export const bakeKeyframes = (keyframes: Keyframe[], step: number, supported: LerpMode[]): Keyframe[] => {
+    const out: Keyframe[] = [];
+    keyframes.forEach((kf, i) => {
+        const next = keyframes[i + 1];
+        const mode = next ? getSegmentMode(kf, next) : kf.lerpMode;
+        // A jump (pre differs from post) can only be expressed by formats with 'pre'
+        const needsBake = next && (!supported.includes(mode) || (!supported.includes('step') && next.pre.some((v, a) => v !== next.value[a])));
+
+        if (!needsBake) {
+            out.push(kf);
+            return;
+        }
+
+        out.push({ ...kf, lerpMode: 'linear', bezier: undefined });
+        for (let t = kf.time + step; t < next.time - step / 2; t += step) {
+            const time = Math.round(t * 10000) / 10000;
+            const value = sampleSegment(keyframes, i, time);
+            out.push({ key: String(time), time, value, pre: value, lerpMode: 'linear' });
+        }
+    });
+    return out;
+};
@@ -0,0 +1,217 @@
+import * as THREE from 'three';
+import { MinecraftModel, ModelBone, AnimationDefinition, AnimationChannel, AnimationBoneData, KeyframeValue } from '../types';
+import { detectRig, DetectedRig } from './proceduralAnimation';
+
+// --- Animation Retargeting ---
+// Moves animations from one rig onto another. Bones are paired by name,
+// limb role and where they sit in the model; the user can override any pair.
+// Rotations are deltas from the rest pose, so they copy across unchanged.
+// Position offsets live in the parent bone's rest frame: they are turned from the
+// source parent's frame into the target parent's, then rescaled to the target
+// bone's proportions (its pivot's distance from the parent pivot).
+
+// source bone -> target bone (null = not transferred)
+export type BoneMapping = Record<string, string | null>;
+
+// Pairs scoring below this are left unmapped rather than guessed
+const MIN_MATCH_SCORE = 0.35;
+
+// --- Name Similarity ---
+
+const SYNONYMS: Record<string, string> = {
+    l: 'left', lft: 'left',
+    r: 'right', rgt: 'right',
+    upper: 'top', up: 'top',
+    lower: 'bottom', low: 'bottom',
+    torso: 'body', chest: 'body', pelvis: 'body', waist: 'body',
+    skull: 'head',
+    hand: 'arm', foot: 'leg', thigh: 'leg', claw: 'arm',
+    flipper: 'fin'
+};
+
+const tokenize = (name: string): string[] =>
+    name
+        .replace(/([a-z])([A-Z])/g, '$1_$2') // camelCase
+        .toLowerCase()
+        .split(/[^a-z0-9]+|(?<=[a-z])(?=\d)|(?<=\d)(?=[a-z])/)
+        .filter(Boolean)
+        .map(t => SYNONYMS[t] || t);
+
+const nameSimilarity = (a: string, b: string): number => {
+    if (a.toLowerCase() === b.toLowerCase()) return 1;
+    const ta = new Set(tokenize(a));
+    const tb = new Set(tokenize(b));
+    if (ta.size === 0 || tb.size === 0) return 0;
+    const shared = [...ta].filter(t => tb.has(t)).length;
+    return shared / new Set([...ta, ...tb]).size;
+};
+
+// --- Hierarchy & Placement ---
+
+interface BoneProfile {
+    bone: ModelBone;
+    depth: number;
+    role?: string; // e.g. "leg:left:0"
+    normalizedPivot: [number, number, number]; // 0..1 within the model's bounds
+    length: number; // distance to the parent pivot
+    parentFrame: THREE.Quaternion; // rest rotation of all ancestors, the frame position keys are in
+}
+
+const roleKeys = (rig: DetectedRig): Map<string, string> => {
+    const roles = new Map<string, string>();
+    if (rig.head) roles.set(rig.head, 'head');
+    if (rig.body) roles.set(rig.body, 'body');
+    const limbs = { arm: rig.arms, leg: rig.legs, wing: rig.wings, fin: rig.fins };
+    Object.entries(limbs).forEach(([role, list]) => list.forEach(l => roles.set(l.bone, `${role}:${l.side}:${l.row}`)));
+    rig.tails.forEach(t => roles.set(t, 'tail'));
+    return roles;
+};
+
+const getBounds = (bones: ModelBone[]) => {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    const include = (p: number[]) => p.forEach((v, a) => { min[a] = Math.min(min[a], v); max[a] = Math.max(max[a], v); });
+    bones.forEach(b => {
+        include(b.pivot);
+        b.cubes.forEach(c => { include(c.origin); include(c.origin.map((o, a) => o + c.size[a])); });
+    });
+    if (!Number.isFinite(min[0])) return { min: [0, 0, 0], max: [1, 1, 1] };
+    return { min, max };
+};
+
+const profileBones = (model: MinecraftModel): BoneProfile[] => {
+    const bones = model.bedrockData?.bones || [];
+    const byName = new Map(bones.map(b => [b.name, b]));
+    const roles = roleKeys(detectRig(model));
+    const { min, max } = getBounds(bones);
+
+    const depthOf = (bone: ModelBone) => {
+        let depth = 0;
+        const seen = new Set<string>();
+        for (let p = bone.parent; p && byName.has(p) && !seen.has(p); p = byName.get(p)!.parent) {
+            seen.add(p);
+            depth++;
+        }
+        return depth;
+    };
+
+    // Ancestors' rest rotations composed root-first, as the viewer nests bone groups
+    const parentFrameOf = (bone: ModelBone) => {
+        const frame = new THREE.Quaternion();
+        const seen = new Set<string>();
+        for (let p = bone.parent; p && byName.has(p) && !seen.has(p); p = byName.get(p)!.parent) {
+            seen.add(p);
+            const r = (byName.get(p)!.rotation || [0, 0, 0]).map(v => THREE.MathUtils.degToRad(v || 0));
+            frame.premultiply(new THREE.Quaternion().setFromEuler(new THREE.Euler(r[0], r[1], r[2])));
+        }
+        return frame;
+    };
+
+    return bones.map(bone => {
+        const parent = bone.parent ? byName.get(bone.parent) : undefined;
+        return {
+            parentFrame: parentFrameOf(bone),
+            bone,
+            depth: depthOf(bone),
+            role: roles.get(bone.name),
+            normalizedPivot: bone.pivot.map((v, a) => (max[a] - min[a]) > 1e-6 ? (v - min[a]) / (max[a] - min[a]) : 0.5) as [number, number, number],
+            length: parent ? Math.hypot(...bone.pivot.map((v, a) => v - parent.pivot[a])) : 0
+        };
+    });
+};
+
+const matchScore = (s: BoneProfile, t: BoneProfile): number => {
+    const name = nameSimilarity(s.bone.name, t.bone.name);
+    // Same limb on the same side and row ("leg:left:0") is a strong hint; same limb type a weaker one
+    const role = s.role && t.role ? (s.role === t.role ? 1 : s.role.split(':')[0] === t.role.split(':')[0] ? 0.4 : 0) : 0;
+    const depth = 1 - Math.min(1, Math.abs(s.depth - t.depth) / 3);
+    const dist = Math.hypot(...s.normalizedPivot.map((v, a) => v - t.normalizedPivot[a]));
+    const position = 1 - Math.min(1, dist / Math.sqrt(3));
+    return name * 0.45 + role * 0.3 + depth * 0.1 + position * 0.15;
+};
+
+// Greedy best-first pairing so every target bone receives at most one source
+export const suggestBoneMapping = (source: MinecraftModel, target: MinecraftModel): BoneMapping => {
+    const sourceProfiles = profileBones(source);
+    const targetProfiles = profileBones(target);
+
+    const pairs: { s: string; t: string; score: number }[] = [];
+    sourceProfiles.forEach(s => targetProfiles.forEach(t => {
+        const score = matchScore(s, t);
+        if (score >= MIN_MATCH_SCORE) pairs.push({ s: s.bone.name, t: t.bone.name, score });
+    }));
+    pairs.sort((a, b) => b.score - a.score);
+
+    const mapping: BoneMapping = {};
+    sourceProfiles.forEach(s => { mapping[s.bone.name] = null; });
+    const usedTargets = new Set<string>();
+    pairs.forEach(({ s, t }) => {
+        if (mapping[s] !== null || usedTargets.has(t)) return;
+        mapping[s] = t;
+        usedTargets.add(t);
+    });
+    return mapping;
+};
+
+// --- Transfer ---
+
+// Bone length ratio, falling back to overall model height for roots and zero-length bones
+const positionScale = (source: BoneProfile | undefined, target: BoneProfile | undefined, globalRatio: number) => {
+    if (!source || !target || source.length < 1e-3 || target.length < 1e-3) return globalRatio;
+    return Math.min(4, Math.max(0.25, target.length / source.length));
+};
+
+// Turns an offset from the source parent's rest frame into the target parent's
+const frameChange = (source: BoneProfile | undefined, target: BoneProfile | undefined) =>
+    source && target ? target.parentFrame.clone().invert().multiply(source.parentFrame) : new THREE.Quaternion();
+
+const transformKeyframe = (value: KeyframeValue, factor: number, turn: THREE.Quaternion): KeyframeValue => {
+    const apply = (v: [number, number, number]) =>
+        new THREE.Vector3(...v).applyQuaternion(turn).multiplyScalar(factor).toArray()
+            .map(n => Math.round(n * 1000) / 1000 || 0) as [number, number, number];
+    if (Array.isArray(value)) return apply(value);
+    return { ...value, post: apply(value.post), ...(value.pre ? { pre: apply(value.pre) } : {}) };
+};
+
+const transformChannel = (channel: AnimationChannel, factor: number, turn: THREE.Quaternion): AnimationChannel =>
+    Object.fromEntries(Object.entries(channel).map(([time, value]) => [time, transformKeyframe(value, factor, turn)]));
+
+export const retargetAnimation = (
+    animation: AnimationDefinition,
+    source: MinecraftModel,
+    target: MinecraftModel,
+    mapping: BoneMapping
+): AnimationDefinition => {
+    const sourceProfiles = new Map(profileBones(source).map(p => [p.bone.name, p]));
+    const targetProfiles = new Map(profileBones(target).map(p => [p.bone.name, p]));
+    const sourceBounds = getBounds(source.bedrockData?.bones || []);
+    const targetBounds = getBounds(target.bedrockData?.bones || []);
+    const sourceHeight = sourceBounds.max[1] - sourceBounds.min[1];
+    const targetHeight = targetBounds.max[1] - targetBounds.min[1];
+    const globalRatio = sourceHeight > 1e-3 && targetHeight > 1e-3 ? targetHeight / sourceHeight : 1;
+
+    const bones: Record<string, AnimationBoneData> = {};
+    Object.entries(animation.bones || {}).forEach(([sourceBone, data]) => {
+        const targetBone = mapping[sourceBone];
+        if (!targetBone || !targetProfiles.has(targetBone)) return;
+
+        const out: AnimationBoneData = JSON.parse(JSON.stringify(data));
+        if (data.position) {
+            const s = sourceProfiles.get(sourceBone);
+            const t = targetProfiles.get(targetBone);
+            out.position = transformChannel(data.position, positionScale(s, t, globalRatio), frameChange(s, t));
+        }
+        // Two source bones mapped onto one target: the first keeps its channels
+        bones[targetBone] = { ...out, ...(bones[targetBone] || {}) };
+    });
+
+    return { ...animation, bones };
+};
+
+export const retargetAnimations = (
+    animations: Record<string, AnimationDefinition>,
+    source: MinecraftModel,
+    target: MinecraftModel,
+    mapping: BoneMapping
+): Record<string, AnimationDefinition> =>
+    Object.fromEntries(Object.entries(animations).map(([name, anim]) => [name, retargetAnimation(anim, source, target, mapping)]));
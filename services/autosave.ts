@@ -0,0 +1,177 @@
+import { ProjectFile, ProjectState, createProjectFile, parseProjectFile } from './projectFile';
+
+// --- Autosave ---
+// Each tab has its own id (from sessionStorage) and periodically writes its project
+// to IndexedDB under that id. The tab also keeps a heartbeat under its id in
+// localStorage and removes it on a normal page unload. An entry whose heartbeat
+// stopped, or this tab's own entry surviving a reload, means that session crashed,
+// and its own snapshot is the one offered for recovery; other live tabs do not count.
+
+export const AUTOSAVE_INTERVAL_MS = 30_000;
+
+const DB_NAME = 'hytaleforge';
+const DB_VERSION = 1;
+const STORE_NAME = 'autosave';
+const SESSIONS_KEY = 'hytaleforge.sessions';
+const TAB_ID_KEY = 'hytaleforge.tab-id';
+
+export const SESSION_HEARTBEAT_MS = 20_000;
+// Hidden tabs may only run timers once a minute, so allow a few missed beats
+const SESSION_STALE_MS = 3 * 60_000;
+
+let fallbackTabId: string | null = null;
+// Crashed sessions found by this page, whose snapshots stay until the recovery prompt is answered
+const crashedSessionIds = new Set<string>();
+
+const createTabId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Survives reloads of this tab but is not shared with other tabs
+const getTabId = (): string => {
+    try {
+        let id = sessionStorage.getItem(TAB_ID_KEY);
+        if (!id) {
+            id = createTabId();
+            sessionStorage.setItem(TAB_ID_KEY, id);
+        }
+        return id;
+    } catch {
+        // Without sessionStorage the id only lasts until the page unloads
+        return fallbackTabId ||= createTabId();
+    }
+};
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available."));
+        return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const runTransaction = async <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const tx = db.transaction(STORE_NAME, mode);
+            const request = action(tx.objectStore(STORE_NAME));
+            tx.oncomplete = () => resolve(request.result);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+export const writeAutosave = async (state: ProjectState): Promise<void> => {
+    // Stored as a string so the same parser (and migrations) handle both paths
+    const serialized = JSON.stringify(createProjectFile(state));
+    await runTransaction('readwrite', store => store.put(serialized, getTabId()));
+};
+
+export const readAutosave = async (sessionId: string = getTabId()): Promise<ProjectFile | null> => {
+    const serialized = await runTransaction<string | undefined>('readonly', store => store.get(sessionId));
+    if (!serialized) return null;
+    try {
+        return parseProjectFile(serialized);
+    } catch (e) {
+        console.warn("Discarding unreadable autosave", e);
+        return null;
+    }
+};
+
+export const clearAutosave = async (sessionId: string = getTabId()): Promise<void> => {
+    await runTransaction('readwrite', store => store.delete(sessionId));
+};
+
+// Newest snapshot left behind by the given crashed sessions
+export const readCrashedAutosave = async (sessionIds: string[]): Promise<ProjectFile | null> => {
+    const saved = await Promise.all(sessionIds.map(id => readAutosave(id)));
+    return saved.reduce<ProjectFile | null>((newest, file) =>
+        file && (!newest || Date.parse(file.savedAt) > Date.parse(newest.savedAt)) ? file : newest, null);
+};
+
+// Deletes the snapshots of sessions that closed cleanly or crashed before an earlier page load
+export const pruneAutosaves = async (): Promise<void> => {
+    const open = new Set([...Object.keys(readSessions()), ...crashedSessionIds]);
+    const keys = await runTransaction<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    for (const key of keys) {
+        if (typeof key !== 'string' || !open.has(key)) {
+            await runTransaction('readwrite', store => store.delete(key));
+        }
+    }
+};
+
+// --- Session Tracking ---
+
+type SessionMap = Record<string, number>;
+
+const readSessions = (): SessionMap => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(SESSIONS_KEY) || '{}');
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        return {};
+    }
+};
+
+const writeSessions = (sessions: SessionMap) => {
+    localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+/**
+ * Registers this tab and returns the ids of sessions that ended without a clean
+ * unload (tab crash, killed browser, etc.). Stale entries are dropped so the
+ * same crash is only reported once.
+ */
+export const beginSession = (): string[] => {
+    try {
+        const now = Date.now();
+        const tabId = getTabId();
+        const sessions = readSessions();
+        const crashed: string[] = [];
+        Object.entries(sessions).forEach(([id, heartbeat]) => {
+            if (id === tabId || typeof heartbeat !== 'number' || now - heartbeat > SESSION_STALE_MS) {
+                crashed.push(id);
+                crashedSessionIds.add(id);
+                delete sessions[id];
+            }
+        });
+        sessions[tabId] = now;
+        writeSessions(sessions);
+        return crashed;
+    } catch {
+        return [];
+    }
+};
+
+// Called every SESSION_HEARTBEAT_MS while the tab is open
+export const touchSession = () => {
+    try {
+        const sessions = readSessions();
+        sessions[getTabId()] = Date.now();
+        writeSessions(sessions);
+    } catch {
+        // Storage may be disabled; crash detection is off then
+    }
+};
+
+export const endSession = () => {
+    try {
+        const sessions = readSessions();
+        delete sessions[getTabId()];
+        writeSessions(sessions);
+    } catch {
+        // Storage may be disabled; nothing to clean up then
+    }
+};
@@ -0,0 +1,278 @@
+import JSZip from 'jszip';
+import { MinecraftModel, ModelCube, AnimationChannel } from '../types';
+import { downloadBlob, newUuid } from './modelExporter';
+import { getSortedKeyframes, bakeKeyframes } from './animationMath';
+
+// --- Bedrock Edition Export ---
+// bedrockData already uses Bedrock geometry conventions (absolute pivots and
+// origins, degrees), so most of the work is wrapping it in the versioned file
+// formats and laying the files out the way a resource pack expects.
+
+const GEOMETRY_FORMAT_VERSION = '1.12.0';
+// Per-face uv_rotation only exists from this geometry version on
+const ROTATED_UV_GEOMETRY_FORMAT_VERSION = '1.21.0';
+const ANIMATION_FORMAT_VERSION = '1.8.0';
+const CLIENT_ENTITY_FORMAT_VERSION = '1.10.0';
+const DEFAULT_NAMESPACE = 'hytaleforge';
+
+// --- Naming ---
+
+export interface BedrockNames {
+    namespace: string;
+    name: string; // file-safe short name, e.g. "robot"
+    geometry: string; // "geometry.robot"
+    entity: string; // "hytaleforge:robot"
+}
+
+const sanitize = (s: string) => s.toLowerCase().replace(/[^a-z0-9_]/g, '_').replace(/_+/g, '_').replace(/^_|_$/g, '') || 'model';
+
+export const getBedrockNames = (model: MinecraftModel): BedrockNames => {
+    const raw = model.identifier || model.bedrockData?.identifier || 'model';
+    const [ns, rest] = raw.includes(':') ? raw.split(':', 2) : [DEFAULT_NAMESPACE, raw];
+    // "geometry.hytale.humanoid" -> "humanoid"
+    const name = sanitize(rest.replace(/^geometry\./, '').split('.').pop() || rest);
+    const namespace = sanitize(ns);
+    return { namespace, name, geometry: `geometry.${name}`, entity: `${namespace}:${name}` };
+};
+
+const animationKey = (names: BedrockNames, animName: string) =>
+    animName.startsWith('animation.') ? animName : `animation.${names.name}.${sanitize(animName)}`;
+
+// --- Geometry (.geo.json) ---
+
+const round = (n: number) => Math.round(n * 10000) / 10000;
+const roundVec = (v: number[]) => v.map(round);
+const isZero = (v?: number[]) => !v || v.every(n => Math.abs(n) < 1e-6);
+
+const buildCube = (cube: ModelCube, uvScale: number) => {
+    const [ox, oy, oz] = cube.origin;
+    const [w, h, d] = cube.size;
+    const out: any = {
+        origin: roundVec(cube.origin),
+        size: roundVec(cube.size)
+    };
+
+    if (!isZero(cube.rotation)) {
+        // Cubes rotate about their own centre in this app
+        out.pivot = roundVec([ox + w / 2, oy + h / 2, oz + d / 2]);
+        out.rotation = roundVec(cube.rotation!);
+    }
+    if (cube.inflate) out.inflate = round(cube.inflate);
+    if (cube.mirror) out.mirror = true;
+
+    // Bedrock box UV assumes one texel per unit, so UVs are expressed in unscaled texture units
+    if (cube.faces) {
+        const faces: Record<string, any> = {};
+        Object.entries(cube.faces).forEach(([name, face]) => {
+            if (!face) return;
+            const [u1, v1, u2, v2] = face.uv.map(n => n / uvScale);
+            faces[name] = {
+                uv: roundVec([u1, v1]),
+                uv_size: roundVec([u2 - u1, v2 - v1]),
+                ...(face.rotation ? { uv_rotation: face.rotation } : {})
+            };
+        });
+        out.uv = faces;
+    } else {
+        out.uv = roundVec([(cube.uv?.[0] || 0) / uvScale, (cube.uv?.[1] || 0) / uvScale]);
+    }
+
+    return out;
+};
+
+export const buildBedrockGeometry = (model: MinecraftModel, uvScale: number = 1): any => {
+    if (!model.bedrockData) {
+        throw new Error("Only entity models can be exported to Bedrock.");
+    }
+
+    const names = getBedrockNames(model);
+    const [texW, texH] = model.bedrockData.texture_size || [64, 64];
+    const boneNames = new Set(model.bedrockData.bones.map(b => b.name));
+
+    // Visible bounds: enough to keep the whole model from being culled
+    let maxExtent = 1;
+    let minY = 0;
+    let maxY = 0;
+    model.bedrockData.bones.forEach(bone => bone.cubes.forEach(c => {
+        maxExtent = Math.max(maxExtent, Math.abs(c.origin[0]), Math.abs(c.origin[0] + c.size[0]), Math.abs(c.origin[2]), Math.abs(c.origin[2] + c.size[2]));
+        minY = Math.min(minY, c.origin[1]);
+        maxY = Math.max(maxY, c.origin[1] + c.size[1]);
+    }));
+
+    const bones = model.bedrockData.bones.map(bone => {
+        const out: any = {
+            name: bone.name,
+            pivot: roundVec(bone.pivot || [0, 0, 0])
+        };
+        // Bedrock drops bones whose parent does not exist, so only reference real ones
+        if (bone.parent && boneNames.has(bone.parent)) out.parent = bone.parent;
+        if (!isZero(bone.rotation)) out.rotation = roundVec(bone.rotation!);
+        if (bone.cubes.length > 0) out.cubes = bone.cubes.map(c => buildCube(c, uvScale));
+
+        const locators: Record<string, number[]> = {};
+        (bone.attachments || []).forEach(att => {
+            if (typeof att === 'string') return;
+            const pos = att.position || [0, 0, 0];
+            // Attachments are relative to the bone, locators are absolute
+            locators[att.name] = roundVec([bone.pivot[0] + pos[0], bone.pivot[1] + pos[1], bone.pivot[2] + pos[2]]);
+        });
+        if (Object.keys(locators).length > 0) out.locators = locators;
+
+        return out;
+    });
+
+    const rotatedUvs = model.bedrockData.bones.some(bone => bone.cubes.some(c =>
+        Object.values(c.faces || {}).some(face => face?.rotation)));
+
+    return {
+        format_version: rotatedUvs ? ROTATED_UV_GEOMETRY_FORMAT_VERSION : GEOMETRY_FORMAT_VERSION,
+        "minecraft:geometry": [{
+            description: {
+                identifier: names.geometry,
+                texture_width: round(texW / uvScale),
+                texture_height: round(texH / uvScale),
+                visible_bounds_width: Math.ceil((maxExtent * 2) / 16) + 1,
+                visible_bounds_height: Math.ceil((maxY - minY) / 16) + 1,
+                visible_bounds_offset: [0, round((maxY + minY) / 32), 0]
+            },
+            bones
+        }]
+    };
+};
+
+// --- Animations (.animation.json) ---
+
+// Bedrock has no bezier curves; those segments are resampled at this rate
+const BAKE_STEP = 0.05;
+
+const formatTime = (t: number) => (Number.isInteger(t) ? t.toFixed(1) : String(round(t)));
+
+// Bedrock only knows linear and catmullrom. A step is written as a pre/post
+// pair on the following keyframe: it arrives at the previous value, then jumps.
+const buildChannel = (channel: AnimationChannel): Record<string, any> => {
+    const keyframes = bakeKeyframes(getSortedKeyframes(channel), BAKE_STEP, ['linear', 'step', 'catmullrom']);
+    const out: Record<string, any> = {};
+
+    keyframes.forEach((kf, i) => {
+        const prev = keyframes[i - 1];
+        const post = roundVec(kf.value);
+        const pre = prev && prev.lerpMode === 'step' ? prev.value : kf.pre;
+        const hasPre = pre.some((v, a) => Math.abs(v - kf.value[a]) > 1e-6);
+        const smooth = kf.lerpMode === 'catmullrom';
+
+        if (hasPre || smooth) {
+            out[formatTime(kf.time)] = { ...(hasPre ? { pre: roundVec(pre) } : {}), post, ...(smooth ? { lerp_mode: 'catmullrom' } : {}) };
+        } else {
+            out[formatTime(kf.time)] = post;
+        }
+    });
+
+    return out;
+};
+
+export const buildBedrockAnimations = (model: MinecraftModel): any => {
+    const names = getBedrockNames(model);
+    const animations: Record<string, any> = {};
+
+    Object.entries(model.animations || {}).forEach(([animName, anim]) => {
+        const bones: Record<string, any> = {};
+        Object.entries(anim.bones || {}).forEach(([boneName, boneData]) => {
+            const out: Record<string, any> = {};
+            (['rotation', 'position', 'scale'] as const).forEach(channel => {
+                const data = boneData[channel];
+                if (data && Object.keys(data).length > 0) out[channel] = buildChannel(data);
+            });
+            if (Object.keys(out).length > 0) bones[boneName] = out;
+        });
+
+        animations[animationKey(names, animName)] = {
+            ...(anim.loop ? { loop: true } : {}),
+            ...(anim.animation_length ? { animation_length: anim.animation_length } : {}),
+            bones
+        };
+    });
+
+    return {
+        format_version: ANIMATION_FORMAT_VERSION,
+        animations
+    };
+};
+
+// --- Resource Pack ---
+
+const buildManifest = (names: BedrockNames) => ({
+    format_version: 2,
+    header: {
+        name: `${names.name} Resources`,
+        description: `Model, animations and texture for ${names.entity}`,
+        uuid: newUuid(),
+        version: [1, 0, 0],
+        min_engine_version: [1, 16, 0]
+    },
+    modules: [{
+        type: 'resources',
+        uuid: newUuid(),
+        version: [1, 0, 0]
+    }]
+});
+
+const buildClientEntity = (model: MinecraftModel, names: BedrockNames) => {
+    const animations: Record<string, string> = {};
+    Object.keys(model.animations || {}).forEach(animName => {
+        animations[sanitize(animName.replace(/^animation\./, '').split('.').pop() || animName)] = animationKey(names, animName);
+    });
+
+    return {
+        format_version: CLIENT_ENTITY_FORMAT_VERSION,
+        "minecraft:client_entity": {
+            description: {
+                identifier: names.entity,
+                materials: { default: 'entity_alphatest' },
+                textures: { default: `textures/entity/${names.name}` },
+                geometry: { default: names.geometry },
+                ...(Object.keys(animations).length > 0 ? { animations } : {}),
+                render_controllers: ['controller.render.default']
+            }
+        }
+    };
+};
+
+/**
+ * Writes a resource pack:
+ *   manifest.json
+ *   entity/<name>.entity.json
+ *   models/entity/<name>.geo.json
+ *   animations/<name>.animation.json
+ *   textures/entity/<name>.png
+ */
+export const exportBedrockResourcePack = async (model: MinecraftModel, textureData?: string | null, uvScale: number = 1) => {
+    if (!model.bedrockData) {
+        alert("Model data is missing.");
+        return;
+    }
+
+    const names = getBedrockNames(model);
+    const zip = new JSZip();
+    const pack = zip.folder(`${names.name}_resource_pack`)!;
+
+    pack.file('manifest.json', JSON.stringify(buildManifest(names), null, 2));
+    pack.file(`entity/${names.name}.entity.json`, JSON.stringify(buildClientEntity(model, names), null, 2));
+    pack.file(`models/entity/${names.name}.geo.json`, JSON.stringify(buildBedrockGeometry(model, uvScale), null, 2));
+
+    if (model.animations && Object.keys(model.animations).length > 0) {
+        pack.file(`animations/${names.name}.animation.json`, JSON.stringify(buildBedrockAnimations(model), null, 2));
+    }
+
+    if (textureData) {
+        const base64Data = textureData.replace(/^data:image\/(png|jpg|jpeg);base64,/, "");
+        pack.file(`textures/entity/${names.name}.png`, base64Data, { base64: true });
+    }
+
+    try {
+        const content = await zip.generateAsync({ type: "blob" });
+        downloadBlob(content, `${names.name}_resource_pack.zip`);
+    } catch (e) {
+        console.error("Failed to generate zip", e);
+        alert("Failed to package Bedrock resource pack.");
+    }
+};
@@ -0,0 +1,453 @@
+import * as THREE from 'three';
+import {
+    MinecraftModel, ModelBone, ModelCube, ModelAttachment, AnimationDefinition, AnimationChannel,
+    KeyframeValue, CubeFaceName, CubeFaceUV
+} from '../types';
+import { downloadBlob, newUuid } from './modelExporter';
+
+// --- Blockbench (.bbmodel) ---
+// Projects are written in Blockbench's "bedrock" format. Blockbench mirrors
+// the X axis relative to Bedrock geometry (and flips X/Y rotations to match),
+// which is the same conversion its own Bedrock codec applies on export.
+// Animation values are stored in Bedrock space already and pass through as-is.
+
+const BB_FORMAT_VERSION = '4.10';
+const FACE_NAMES: CubeFaceName[] = ['north', 'east', 'south', 'west', 'up', 'down'];
+const ANIMATION_CHANNELS = ['rotation', 'position', 'scale'] as const;
+
+// Blockbench marker colours, by index
+const BB_MARKER_COLORS = ['#4EA5FF', '#F8DD72', '#F4A24F', '#E6495D', '#BA61D8', '#3F51CC', '#5CC45A', '#A8E25D'];
+
+export interface BlockbenchImport {
+    model: MinecraftModel;
+    textureData?: string;
+    uvScale?: number;
+}
+
+// --- Helpers ---
+
+type Vec3 = [number, number, number];
+
+const vec3 = (v: any, fallback: Vec3 = [0, 0, 0]): Vec3 =>
+    Array.isArray(v) && v.length >= 3 ? [Number(v[0]) || 0, Number(v[1]) || 0, Number(v[2]) || 0] : [...fallback];
+
+const flipPoint = ([x, y, z]: Vec3): Vec3 => [-x, y, z];
+const flipRotation = ([x, y, z]: Vec3): Vec3 => [-x, -y, z];
+const isZero = (v?: number[]) => !v || v.every(n => Math.abs(n) < 1e-6);
+
+const colorFromMarker = (index: any) => BB_MARKER_COLORS[Number(index) % BB_MARKER_COLORS.length] || '#FFFFFF';
+
+const markerFromColor = (hex?: string): number => {
+    const color = new THREE.Color(hex || '#FFFFFF');
+    let best = 0;
+    let bestDist = Infinity;
+    BB_MARKER_COLORS.forEach((marker, idx) => {
+        const m = new THREE.Color(marker);
+        const dist = (m.r - color.r) ** 2 + (m.g - color.g) ** 2 + (m.b - color.b) ** 2;
+        if (dist < bestDist) {
+            bestDist = dist;
+            best = idx;
+        }
+    });
+    return best;
+};
+
+const parseDataPoint = (v: any) => {
+    const n = parseFloat(v);
+    return Number.isFinite(n) ? n : 0; // Molang expressions can't be evaluated here
+};
+
+const timeKey = (seconds: number) => String(Number(seconds.toFixed(4)));
+
+// Box UV face rectangles, laid out the same way the viewer and Blockbench do it
+const boxUvFaces = (uv: [number, number], size: Vec3): Record<CubeFaceName, [number, number, number, number]> => {
+    const [u, v] = uv;
+    const [w, h, d] = size.map(n => Math.ceil(n)) as Vec3;
+    return {
+        east: [u, v + d, u + d, v + d + h],
+        north: [u + d, v + d, u + d + w, v + d + h],
+        west: [u + d + w, v + d, u + d + w + d, v + d + h],
+        south: [u + d + w + d, v + d, u + d + w + d + w, v + d + h],
+        up: [u + d + w, v + d, u + d, v],
+        down: [u + d + w + w, v, u + d + w, v + d]
+    };
+};
+
+// --- Import ---
+
+const convertElementToCube = (element: any, boxUvDefault: boolean): ModelCube => {
+    const from = vec3(element.from);
+    const to = vec3(element.to);
+    const size: Vec3 = [to[0] - from[0], to[1] - from[1], to[2] - from[2]];
+
+    let origin: Vec3 = [-to[0], from[1], from[2]];
+    const rotation = flipRotation(vec3(element.rotation));
+
+    const cube: ModelCube = {
+        origin,
+        size,
+        color: colorFromMarker(element.color)
+    };
+    if (element.inflate) cube.inflate = Number(element.inflate) || 0;
+    if (element.mirror_uv) cube.mirror = true;
+
+    if (!isZero(rotation)) {
+        // The viewer and Hytale exporter rotate cubes about their centre, so bake
+        // an off-centre Blockbench pivot into the cube position instead
+        const center = new THREE.Vector3(origin[0] + size[0] / 2, origin[1] + size[1] / 2, origin[2] + size[2] / 2);
+        const pivot = new THREE.Vector3(...flipPoint(vec3(element.origin, [center.x, center.y, center.z])));
+        const euler = new THREE.Euler(...rotation.map(r => THREE.MathUtils.degToRad(r)) as Vec3, 'XYZ');
+        const moved = center.clone().sub(pivot).applyEuler(euler).add(pivot);
+        origin = [moved.x - size[0] / 2, moved.y - size[1] / 2, moved.z - size[2] / 2];
+        cube.origin = origin;
+        cube.rotation = rotation;
+        cube.pivot = [moved.x, moved.y, moved.z];
+    }
+
+    const boxUv = element.box_uv !== undefined ? !!element.box_uv : boxUvDefault;
+    if (boxUv) {
+        const uvOffset = element.uv_offset || [0, 0];
+        cube.uv = [Number(uvOffset[0]) || 0, Number(uvOffset[1]) || 0];
+    } else if (element.faces) {
+        const faces: Partial<Record<CubeFaceName, CubeFaceUV>> = {};
+        FACE_NAMES.forEach(name => {
+            const face = element.faces[name];
+            // Faces without a texture are hidden in Blockbench
+            if (!face || !Array.isArray(face.uv) || face.texture === null) return;
+            faces[name] = {
+                uv: face.uv.slice(0, 4).map(Number) as [number, number, number, number],
+                ...(face.rotation ? { rotation: face.rotation } : {})
+            };
+        });
+        cube.faces = faces;
+    }
+
+    return cube;
+};
+
+const convertKeyframes = (keyframes: any[]): NonNullable<AnimationDefinition['bones']>[string] => {
+    const boneData: NonNullable<AnimationDefinition['bones']>[string] = {};
+
+    (keyframes || []).forEach(kf => {
+        const channel = kf.channel as typeof ANIMATION_CHANNELS[number];
+        if (!ANIMATION_CHANNELS.includes(channel)) return;
+
+        // Step keyframes carry a pre and a post point; the post one is what plays on
+        const points = kf.data_points || [];
+        const point = points[points.length - 1] || {};
+        const value: Vec3 = [parseDataPoint(point.x), parseDataPoint(point.y), parseDataPoint(point.z)];
+        const interpolation = kf.interpolation || 'linear';
+
+        const target: AnimationChannel = boneData[channel] || {};
+        target[timeKey(Number(kf.time) || 0)] = interpolation === 'linear'
+            ? value
+            : { post: value, lerp_mode: interpolation };
+        boneData[channel] = target;
+    });
+
+    return boneData;
+};
+
+export const convertBlockbenchToModel = (data: any, filename: string): BlockbenchImport => {
+    if (!data || !data.meta || !Array.isArray(data.elements)) {
+        throw new Error("File is not a Blockbench project.");
+    }
+
+    const boxUvDefault = data.meta.box_uv !== false;
+    const elements = new Map<string, any>();
+    data.elements.forEach((el: any) => elements.set(el.uuid, el));
+
+    const bones: ModelBone[] = [];
+    const groupNames = new Map<string, string>();
+    const usedNames = new Set<string>();
+    const uniqueName = (base: string) => {
+        let name = base || 'bone';
+        for (let n = 2; usedNames.has(name); n++) name = `${base}_${n}`;
+        usedNames.add(name);
+        return name;
+    };
+    let skipped = 0;
+
+    const addElement = (bone: ModelBone, el: any) => {
+        if (!el) return;
+        if (el.type === 'locator') {
+            const position = flipPoint(vec3(el.position || el.from));
+            const att: ModelAttachment = {
+                name: el.name || 'locator',
+                position: [position[0] - bone.pivot[0], position[1] - bone.pivot[1], position[2] - bone.pivot[2]]
+            };
+            bone.attachments = [...(bone.attachments || []), att];
+        } else if (!el.type || el.type === 'cube') {
+            bone.cubes.push(convertElementToCube(el, boxUvDefault));
+        } else {
+            skipped++; // Meshes, null objects and texture meshes have no cube equivalent
+        }
+    };
+
+    const visitGroup = (group: any, parent?: string) => {
+        const bone: ModelBone = {
+            name: uniqueName(group.name),
+            parent,
+            pivot: flipPoint(vec3(group.origin)),
+            cubes: []
+        };
+        const rotation = flipRotation(vec3(group.rotation));
+        if (!isZero(rotation)) bone.rotation = rotation;
+        groupNames.set(group.uuid, bone.name);
+        bones.push(bone);
+
+        (group.children || []).forEach((child: any) => {
+            if (typeof child === 'string') addElement(bone, elements.get(child));
+            else visitGroup(child, bone.name);
+        });
+    };
+
+    // Elements outside any group still need a bone to live in
+    let looseBone: ModelBone | undefined;
+    (data.outliner || []).forEach((entry: any) => {
+        if (typeof entry === 'string') {
+            if (!looseBone) {
+                looseBone = { name: uniqueName('root'), pivot: [0, 0, 0], cubes: [] };
+                bones.push(looseBone);
+            }
+            addElement(looseBone, elements.get(entry));
+        } else {
+            visitGroup(entry);
+        }
+    });
+
+    if (skipped > 0) {
+        console.warn(`Skipped ${skipped} Blockbench element(s) that are not cubes or locators.`);
+    }
+
+    // Animations
+    let animations: Record<string, AnimationDefinition> | undefined;
+    if (Array.isArray(data.animations) && data.animations.length > 0) {
+        animations = {};
+        data.animations.forEach((anim: any) => {
+            const animBones: NonNullable<AnimationDefinition['bones']> = {};
+            Object.entries(anim.animators || {}).forEach(([key, animator]: [string, any]) => {
+                if (animator.type && animator.type !== 'bone') return;
+                const boneName = groupNames.get(key) || animator.name;
+                if (!boneName) return;
+                const boneData = convertKeyframes(animator.keyframes);
+                if (Object.keys(boneData).length > 0) animBones[boneName] = boneData;
+            });
+            animations![anim.name || `animation_${Object.keys(animations!).length}`] = {
+                loop: anim.loop === 'loop',
+                animation_length: Number(anim.length) || undefined,
+                bones: animBones
+            };
+        });
+    }
+
+    const resolution = data.resolution || { width: 16, height: 16 };
+    const texture = (data.textures || []).find((t: any) => typeof t.source === 'string' && t.source.startsWith('data:image'));
+    const name = (data.model_identifier || data.name || filename.replace(/\.bbmodel$/i, '')).replace(/^geometry\./, '');
+
+    return {
+        model: {
+            type: 'ENTITY',
+            loader: 'HYTALE',
+            identifier: name,
+            bedrockData: {
+                format_version: "1.12.0",
+                identifier: `geometry.${name}`,
+                texture_size: [Number(resolution.width) || 16, Number(resolution.height) || 16],
+                bones
+            },
+            animations
+        },
+        textureData: texture?.source,
+        // Box UV in Blockbench is always one texel per unit of the project resolution
+        uvScale: 1
+    };
+};
+
+// --- Export ---
+
+const convertKeyframeValue = (value: KeyframeValue): { point: Vec3; interpolation: string } => {
+    if (Array.isArray(value)) return { point: value, interpolation: 'linear' };
+    return { point: value.post, interpolation: value.lerp_mode || 'linear' };
+};
+
+export const convertModelToBlockbench = (model: MinecraftModel, textureData?: string | null, uvScale: number = 1): any => {
+    if (!model.bedrockData) {
+        throw new Error("Only entity models can be exported to Blockbench.");
+    }
+
+    const bones = model.bedrockData.bones;
+    const [texW, texH] = model.bedrockData.texture_size || [64, 64];
+    // Box UV needs one texel per unit, so express UVs at the unscaled resolution
+    const toUnits = (n: number) => n / uvScale;
+    const textureIndex = textureData ? 0 : null;
+
+    const elements: any[] = [];
+    const groupUuids = new Map<string, string>();
+    bones.forEach(b => groupUuids.set(b.name, newUuid()));
+
+    const buildGroup = (bone: ModelBone): any => {
+        const children: any[] = [];
+
+        bone.cubes.forEach((cube, idx) => {
+            const [ox, oy, oz] = cube.origin;
+            const [w, h, d] = cube.size;
+            const from: Vec3 = [-(ox + w), oy, oz];
+            const to: Vec3 = [-ox, oy + h, oz + d];
+            const center: Vec3 = [-(ox + w / 2), oy + h / 2, oz + d / 2];
+            const boxUv = !cube.faces;
+            const uv: [number, number] = [toUnits(cube.uv?.[0] || 0), toUnits(cube.uv?.[1] || 0)];
+
+            const faces: Record<string, any> = {};
+            if (boxUv) {
+                const rects = boxUvFaces(uv, [w, h, d]);
+                FACE_NAMES.forEach(name => { faces[name] = { uv: rects[name], texture: textureIndex }; });
+            } else {
+                FACE_NAMES.forEach(name => {
+                    const face = cube.faces![name];
+                    faces[name] = face
+                        ? { uv: face.uv.map(toUnits), texture: textureIndex, ...(face.rotation ? { rotation: face.rotation } : {}) }
+                        : { uv: [0, 0, 0, 0], texture: null };
+                });
+            }
+
+            const uuid = newUuid();
+            elements.push({
+                name: `${bone.name}_cube_${idx}`,
+                type: 'cube',
+                box_uv: boxUv,
+                rescale: false,
+                locked: false,
+                inflate: cube.inflate || 0,
+                mirror_uv: !!cube.mirror,
+                from,
+                to,
+                autouv: 0,
+                color: markerFromColor(cube.color),
+                // Cubes rotate about their own centre in this app
+                origin: center,
+                rotation: flipRotation(cube.rotation || [0, 0, 0]),
+                uv_offset: uv,
+                faces,
+                uuid
+            });
+            children.push(uuid);
+        });
+
+        (bone.attachments || []).forEach(att => {
+            if (typeof att === 'string') return;
+            const pos = att.position || [0, 0, 0];
+            const uuid = newUuid();
+            elements.push({
+                name: att.name,
+                type: 'locator',
+                position: flipPoint([bone.pivot[0] + pos[0], bone.pivot[1] + pos[1], bone.pivot[2] + pos[2]]),
+                rotation: [0, 0, 0],
+                uuid
+            });
+            children.push(uuid);
+        });
+
+        bones.filter(b => b.parent === bone.name).forEach(child => children.push(buildGroup(child)));
+
+        return {
+            name: bone.name,
+            origin: flipPoint(bone.pivot || [0, 0, 0]),
+            rotation: flipRotation(bone.rotation || [0, 0, 0]),
+            color: 0,
+            uuid: groupUuids.get(bone.name),
+            export: true,
+            isOpen: false,
+            locked: false,
+            visibility: true,
+            autouv: 0,
+            children
+        };
+    };
+
+    // Bones whose parent is missing would otherwise vanish from the outliner
+    const outliner = bones
+        .filter(b => !b.parent || !groupUuids.has(b.parent))
+        .map(buildGroup);
+
+    const name = model.identifier.replace(/^geometry\./, '').replace(/[:/]/g, '_');
+
+    const textures = textureData ? [{
+        path: '',
+        name: `${name}.png`,
+        folder: '',
+        namespace: '',
+        id: '0',
+        width: texW,
+        height: texH,
+        uv_width: toUnits(texW),
+        uv_height: toUnits(texH),
+        particle: false,
+        render_mode: 'default',
+        visible: true,
+        mode: 'bitmap',
+        saved: false,
+        uuid: newUuid(),
+        source: textureData
+    }] : [];
+
+    const animations = Object.entries(model.animations || {}).map(([animName, anim]) => {
+        const animators: Record<string, any> = {};
+        Object.entries(anim.bones || {}).forEach(([boneName, boneData]) => {
+            const uuid = groupUuids.get(boneName);
+            if (!uuid) return;
+            const keyframes: any[] = [];
+            ANIMATION_CHANNELS.forEach(channel => {
+                Object.entries(boneData[channel] || {}).forEach(([time, value]) => {
+                    const { point, interpolation } = convertKeyframeValue(value);
+                    keyframes.push({
+                        channel,
+                        data_points: [{ x: point[0], y: point[1], z: point[2] }],
+                        uuid: newUuid(),
+                        time: parseFloat(time),
+                        color: -1,
+                        interpolation
+                    });
+                });
+            });
+            animators[uuid] = { name: boneName, type: 'bone', keyframes };
+        });
+
+        return {
+            uuid: newUuid(),
+            name: animName,
+            loop: anim.loop ? 'loop' : 'once',
+            override: false,
+            length: anim.animation_length || 0,
+            snapping: 20,
+            selected: false,
+            animators
+        };
+    });
+
+    return {
+        meta: {
+            format_version: BB_FORMAT_VERSION,
+            model_format: 'bedrock',
+            box_uv: elements.every(el => el.type !== 'cube' || el.box_uv)
+        },
+        name,
+        model_identifier: name,
+        visible_box: [1, 1, 0],
+        resolution: { width: toUnits(texW), height: toUnits(texH) },
+        elements,
+        outliner,
+        textures,
+        animations
+    };
+};
+
+export const exportBlockbenchModel = (model: MinecraftModel, textureData?: string | null, uvScale: number = 1) => {
+    if (!model.bedrockData) {
+        alert("Model data is missing.");
+        return;
+    }
+    const project = convertModelToBlockbench(model, textureData, uvScale);
+    const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
+    downloadBlob(blob, `${project.name}.bbmodel`);
+};
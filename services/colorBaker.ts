@@ -0,0 +1,69 @@
+import { MinecraftModel, CubeFaceName } from '../types';
+import { CUBE_FACE_NAMES, boxUvToFaces, getFaceRect } from './faceUv';
+import { PixelBuffer, Rgba, createPixelBuffer, encodeTexture, hexToRgba, setPixel } from './texturePainter';
+
+// --- Color Baking ---
+// Turns the cubes' preview colors into a real texture on their current UV layout,
+// so a model can be exported textured without a generation round-trip.
+
+export interface BakeOptions {
+    shading: boolean;   // light from above: top faces lighter, bottom faces darker
+    outline: boolean;   // darker 1px border around each face
+    noise: number;      // 0..1, per-pixel brightness jitter
+}
+
+export const DEFAULT_BAKE_OPTIONS: BakeOptions = { shading: true, outline: false, noise: 0 };
+
+// Brightness per face, roughly Minecraft's block shading
+const FACE_SHADE: Record<CubeFaceName, number> = {
+    up: 1.15, down: 0.65, north: 1, south: 1, east: 0.85, west: 0.85
+};
+const OUTLINE_SHADE = 0.7;
+const MAX_NOISE = 0.15;
+const FALLBACK_COLOR = '#ffffff';
+
+// Stable per-texel value in [-1, 1], so re-baking gives the same pixels
+const hashNoise = (x: number, y: number): number => {
+    let n = Math.imul(x, 374761393) + Math.imul(y, 668265263);
+    n = Math.imul(n ^ (n >>> 13), 1274126177);
+    return (((n ^ (n >>> 16)) >>> 0) / 0xffffffff) * 2 - 1;
+};
+
+const shade = ([r, g, b, a]: Rgba, factor: number): Rgba =>
+    [r * factor, g * factor, b * factor, a].map(c => Math.min(255, Math.max(0, Math.round(c)))) as Rgba;
+
+// Fills every visible face rect with its cube's color; later cubes win where islands overlap
+export const bakeColorPixels = (model: MinecraftModel, uvScale: number, options: BakeOptions = DEFAULT_BAKE_OPTIONS): PixelBuffer => {
+    if (!model.bedrockData) throw new Error("Baking colors needs an entity model.");
+    const [texW, texH] = model.bedrockData.texture_size || [64, 64];
+    const buffer = createPixelBuffer(texW, texH);
+    const noise = Math.min(1, Math.max(0, options.noise)) * MAX_NOISE;
+
+    model.bedrockData.bones.forEach(bone => bone.cubes.forEach(cube => {
+        if (!cube.faces && !cube.uv) return;
+        const faces = cube.faces || boxUvToFaces(cube, uvScale);
+        const base = hexToRgba(cube.color || FALLBACK_COLOR);
+
+        CUBE_FACE_NAMES.forEach(name => {
+            const face = faces[name];
+            if (!face) return;
+            const { x, y, w, h } = getFaceRect(face);
+            const faceColor = options.shading ? shade(base, FACE_SHADE[name]) : base;
+            // Faces thinner than three pixels would be all border
+            const outlined = options.outline && w >= 3 && h >= 3;
+
+            for (let py = y; py < y + h; py++) {
+                for (let px = x; px < x + w; px++) {
+                    let factor = 1;
+                    if (outlined && (px === x || py === y || px === x + w - 1 || py === y + h - 1)) factor *= OUTLINE_SHADE;
+                    if (noise) factor *= 1 + hashNoise(px, py) * noise;
+                    setPixel(buffer, [px, py], factor === 1 ? faceColor : shade(faceColor, factor));
+                }
+            }
+        });
+    }));
+    return buffer;
+};
+
+export const bakeColorTexture = (model: MinecraftModel, uvScale: number, options: BakeOptions = DEFAULT_BAKE_OPTIONS): string =>
+    encodeTexture(bakeColorPixels(model, uvScale, options));
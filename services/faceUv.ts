@@ -0,0 +1,236 @@
+import { MinecraftModel, ModelCube, ModelSelection, CubeFaceName, CubeFaceUV } from '../types';
+
+// --- Per-face UVs ---
+// Face rects follow Blockbench: [u1, v1, u2, v2] in texture pixels, a face is
+// mirrored by swapping u1/u2 (or v1/v2) and turned clockwise by 'rotation'.
+
+export type FaceRotation = NonNullable<CubeFaceUV['rotation']>;
+export type CubeUvMode = 'box' | 'faces';
+
+// Same order as THREE.BoxGeometry's face groups (+X, -X, +Y, -Y, +Z, -Z)
+export const CUBE_FACE_NAMES: CubeFaceName[] = ['east', 'west', 'up', 'down', 'north', 'south'];
+export const FACE_ROTATIONS: FaceRotation[] = [0, 90, 180, 270];
+
+type UvPoint = [number, number];
+// Texture points on a face's top-left, top-right, bottom-left and bottom-right corners
+export type FaceCorners = [UvPoint, UvPoint, UvPoint, UvPoint];
+
+const CLOCKWISE = [0, 1, 3, 2];
+
+const rotateCorners = (c: FaceCorners, quarterTurns: number): FaceCorners => {
+    const out = [...c] as FaceCorners;
+    CLOCKWISE.forEach((corner, i) => { out[corner] = c[CLOCKWISE[(i - quarterTurns + 8) % 4]]; });
+    return out;
+};
+
+const rectCorners = ([u1, v1, u2, v2]: CubeFaceUV['uv']): FaceCorners => [[u1, v1], [u2, v1], [u1, v2], [u2, v2]];
+
+const sameCorners = (a: FaceCorners, b: FaceCorners) =>
+    a.every((p, i) => Math.abs(p[0] - b[i][0]) < 1e-6 && Math.abs(p[1] - b[i][1]) < 1e-6);
+
+const faceCorners = (face: CubeFaceUV): FaceCorners => rotateCorners(rectCorners(face.uv), (face.rotation || 0) / 90);
+
+// Undoes the rotation, preferring none, until the corners form an axis-aligned (possibly flipped) rect
+const cornersToFace = (corners: FaceCorners): CubeFaceUV => {
+    for (const rotation of FACE_ROTATIONS) {
+        const [tl, tr, bl, br] = rotateCorners(corners, -rotation / 90);
+        const face: CubeFaceUV = { uv: [tl[0], tl[1], br[0], br[1]], ...(rotation ? { rotation } : {}) };
+        if (tr[0] === br[0] && tr[1] === tl[1] && bl[0] === tl[0] && bl[1] === br[1] && sameCorners(faceCorners(face), corners)) {
+            return face;
+        }
+    }
+    throw new Error("Face corners do not form a rectangle.");
+};
+
+// The viewer's and Hytale's top and bottom faces are laid out turned relative to Blockbench's
+const toViewerCorners = (name: CubeFaceName, c: FaceCorners): FaceCorners => {
+    if (name === 'up') return rotateCorners(c, 2);
+    if (name === 'down') return [c[1], c[0], c[3], c[2]];
+    return c;
+};
+const fromViewerCorners = toViewerCorners; // both corrections are their own inverse
+
+export const getFaceCornerUVs = (name: CubeFaceName, face: CubeFaceUV): FaceCorners =>
+    toViewerCorners(name, faceCorners(face));
+
+// --- Face Sizes ---
+
+// Face size in texture pixels before rotation
+export const getFaceSize = (cube: ModelCube, name: CubeFaceName, scale: number): [number, number] => {
+    const [w, h, d] = cube.size.map(s => Math.ceil(Math.abs(s) * scale));
+    if (name === 'east' || name === 'west') return [d, h];
+    if (name === 'up' || name === 'down') return [w, d];
+    return [w, h];
+};
+
+export const isFaceTurned = (face: CubeFaceUV) => face.rotation === 90 || face.rotation === 270;
+
+// Same-looking per-face rects for a box-UV cube, including its mirror flag
+export const boxUvToFaces = (cube: ModelCube, scale: number): Record<CubeFaceName, CubeFaceUV> => {
+    const [u, v] = cube.uv || [0, 0];
+    const [w, h, d] = cube.size.map(s => Math.ceil(Math.abs(s) * scale));
+    const rects: Record<CubeFaceName, CubeFaceUV['uv']> = {
+        east: [u, v + d, u + d, v + d + h],
+        north: [u + d, v + d, u + d + w, v + d + h],
+        west: [u + d + w, v + d, u + d + w + d, v + d + h],
+        south: [u + d + w + d, v + d, u + d + w + d + w, v + d + h],
+        up: [u + d + w, v + d, u + d, v],
+        down: [u + d + w + w, v, u + d + w, v + d]
+    };
+    if (!cube.mirror) return Object.fromEntries(CUBE_FACE_NAMES.map(n => [n, { uv: rects[n] }])) as Record<CubeFaceName, CubeFaceUV>;
+
+    // Mirrored boxes read every region right-to-left and swap the side regions
+    const flip = ([u1, v1, u2, v2]: CubeFaceUV['uv']): CubeFaceUV => ({ uv: [u2, v1, u1, v2] });
+    return {
+        east: flip(rects.west), west: flip(rects.east),
+        north: flip(rects.north), south: flip(rects.south),
+        up: flip(rects.up), down: flip(rects.down)
+    };
+};
+
+// --- Hytale textureLayout ---
+// Hytale faces are named from the viewer's side, carry only their top-left
+// offset, and are mirrored before being turned by 'angle'.
+
+const HYTALE_FACE: Record<CubeFaceName, string> = {
+    east: 'right', west: 'left', north: 'front', south: 'back', up: 'top', down: 'bottom'
+};
+
+export interface HytaleFaceLayout {
+    offset: { x: number; y: number };
+    mirror: { x: boolean; y: boolean };
+    angle: number;
+}
+
+const hytaleCorners = (layout: HytaleFaceLayout, size: [number, number]): FaceCorners => {
+    const turned = layout.angle === 90 || layout.angle === 270;
+    const [fw, fh] = turned ? [size[1], size[0]] : size;
+    const { x, y } = layout.offset;
+    const [u1, u2] = layout.mirror.x ? [x + fw, x] : [x, x + fw];
+    const [v1, v2] = layout.mirror.y ? [y + fh, y] : [y, y + fh];
+    return rotateCorners(rectCorners([u1, v1, u2, v2]), ((layout.angle || 0) / 90) % 4);
+};
+
+const toHytaleFace = (name: CubeFaceName, face: CubeFaceUV): HytaleFaceLayout => {
+    const corners = getFaceCornerUVs(name, face);
+    const us = corners.map(c => c[0]);
+    const vs = corners.map(c => c[1]);
+    const offset = { x: Math.min(...us), y: Math.min(...vs) };
+    const size: [number, number] = [Math.max(...us) - offset.x, Math.max(...vs) - offset.y];
+    for (const mirrorX of [false, true]) {
+        for (const angle of FACE_ROTATIONS) {
+            const layout = { offset, mirror: { x: mirrorX, y: false }, angle };
+            const faceSize: [number, number] = angle === 90 || angle === 270 ? [size[1], size[0]] : size;
+            if (sameCorners(hytaleCorners(layout, faceSize), corners)) return layout;
+        }
+    }
+    return { offset, mirror: { x: false, y: false }, angle: 0 };
+};
+
+export const toHytaleTextureLayout = (cube: ModelCube, uvScale: number): Record<string, HytaleFaceLayout> => {
+    const faces = cube.faces || boxUvToFaces(cube, uvScale);
+    const layout: Record<string, HytaleFaceLayout> = {};
+    CUBE_FACE_NAMES.forEach(name => {
+        const face = faces[name];
+        if (face) layout[HYTALE_FACE[name]] = toHytaleFace(name, face);
+    });
+    return layout;
+};
+
+const sameFace = (a: CubeFaceUV, b: CubeFaceUV) =>
+    (a.rotation || 0) === (b.rotation || 0) && a.uv.every((n, i) => Math.abs(n - b.uv[i]) < 1e-6);
+
+// Box UV when the layout is a plain box net, per-face rects otherwise
+export const fromHytaleTextureLayout = (layout: any, cube: ModelCube, uvScale: number): Pick<ModelCube, 'uv' | 'faces'> => {
+    const faces: Partial<Record<CubeFaceName, CubeFaceUV>> = {};
+    CUBE_FACE_NAMES.forEach(name => {
+        const entry = layout?.[HYTALE_FACE[name]];
+        if (!entry?.offset) return;
+        const parsed: HytaleFaceLayout = {
+            offset: { x: Number(entry.offset.x) || 0, y: Number(entry.offset.y) || 0 },
+            mirror: { x: !!entry.mirror?.x, y: !!entry.mirror?.y },
+            angle: ((Number(entry.angle) || 0) % 360 + 360) % 360
+        };
+        faces[name] = cornersToFace(fromViewerCorners(name, hytaleCorners(parsed, getFaceSize(cube, name, uvScale))));
+    });
+
+    // The right face starts at the box origin's row below the top strip
+    const right = layout?.right?.offset;
+    const top = layout?.top?.offset;
+    if (!right) return Object.keys(faces).length ? { faces } : {};
+    const uv: [number, number] = [Number(right.x) || 0, Number(top?.y ?? right.y) || 0];
+    const box = boxUvToFaces({ ...cube, uv, mirror: false }, uvScale);
+    if (CUBE_FACE_NAMES.every(name => faces[name] && sameFace(faces[name]!, box[name]))) return { uv };
+    return { faces };
+};
+
+// --- Editing ---
+
+const updateCube = (model: MinecraftModel, selection: ModelSelection, edit: (cube: ModelCube) => ModelCube): MinecraftModel => {
+    const bones = model.bedrockData?.bones;
+    const cube = selection.cubeIndex !== undefined ? bones?.[selection.boneIndex]?.cubes[selection.cubeIndex] : undefined;
+    if (!bones || !cube) throw new Error("Select a cube to edit its UVs.");
+    const next = [...bones];
+    const bone = next[selection.boneIndex];
+    next[selection.boneIndex] = { ...bone, cubes: bone.cubes.map((c, i) => (i === selection.cubeIndex ? edit(c) : c)) };
+    return { ...model, bedrockData: { ...model.bedrockData!, bones: next } };
+};
+
+// Switching keeps the cube looking the same: box → faces copies the net, faces → box keeps its start
+export const setCubeUvMode = (model: MinecraftModel, selection: ModelSelection, mode: CubeUvMode, uvScale: number): MinecraftModel =>
+    updateCube(model, selection, cube => {
+        if (mode === 'faces') {
+            if (cube.faces) return cube;
+            const { mirror, ...rest } = cube;
+            return { ...rest, faces: boxUvToFaces(cube, uvScale) };
+        }
+        if (!cube.faces) return cube;
+        const { faces, ...rest } = cube;
+        const east = faces.east?.uv;
+        const up = faces.up?.uv;
+        const uv: [number, number] = cube.uv || (east && up ? [Math.min(east[0], east[2]), Math.min(up[1], up[3])] : [0, 0]);
+        return { ...rest, uv };
+    });
+
+// Writes one face; undefined hides it
+export const setCubeFace = (model: MinecraftModel, selection: ModelSelection, name: CubeFaceName, face: CubeFaceUV | undefined): MinecraftModel =>
+    updateCube(model, selection, cube => {
+        const faces = { ...(cube.faces || {}) };
+        if (face) faces[name] = face.rotation ? face : { uv: face.uv };
+        else delete faces[name];
+        return { ...cube, faces };
+    });
+
+// A fresh face at the top-left of the texture, sized to the cube
+export const createFace = (cube: ModelCube, name: CubeFaceName, uvScale: number): CubeFaceUV => {
+    const [w, h] = getFaceSize(cube, name, uvScale);
+    return { uv: [0, 0, w, h] };
+};
+
+// Box UV start and mirror flag
+export const setCubeBoxUv = (model: MinecraftModel, selection: ModelSelection, uv: [number, number], mirror: boolean): MinecraftModel =>
+    updateCube(model, selection, cube => {
+        const { mirror: _, ...rest } = cube;
+        return mirror ? { ...rest, uv, mirror: true } : { ...rest, uv };
+    });
+
+// Moves and resizes a face's rect, keeping its flips
+export const setFaceRect = (face: CubeFaceUV, [x, y]: [number, number], w: number, h: number): CubeFaceUV => {
+    const [u1, v1, u2, v2] = face.uv;
+    return {
+        ...face,
+        uv: [u2 < u1 ? x + w : x, v2 < v1 ? y + h : y, u2 < u1 ? x : x + w, v2 < v1 ? y : y + h]
+    };
+};
+
+// Top-left corner and size of a face's rect, ignoring flips
+export const getFaceRect = (face: CubeFaceUV): { x: number; y: number; w: number; h: number } => {
+    const [u1, v1, u2, v2] = face.uv;
+    return { x: Math.min(u1, u2), y: Math.min(v1, v2), w: Math.abs(u2 - u1), h: Math.abs(v2 - v1) };
+};
+
+// Mirrors a face across its own width or height without moving it
+export const flipFace = (face: CubeFaceUV, axis: 'u' | 'v'): CubeFaceUV => {
+    const [u1, v1, u2, v2] = face.uv;
+    return { ...face, uv: axis === 'u' ? [u2, v1, u1, v2] : [u1, v2, u2, v1] };
+};
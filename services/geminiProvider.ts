@@ -0,0 +1,91 @@
+import { GoogleGenAI } from "@google/genai";
+import { GenerationProvider, GenerationRequest, GenerationTask, createAbortError } from "./generationProvider";
+
+// Model per task. Pro with thinking for spatial reasoning, Flash for small JSON.
+const GEMINI_MODELS: Record<GenerationTask, string> = {
+    model: "gemini-3-pro-preview",
+    autorig: "gemini-3-pro-preview",
+    blockstate: "gemini-3-flash-preview",
+    texture: "gemini-2.5-flash-image"
+};
+
+// Helper to validate/clean API key
+const getApiKey = () => {
+  const key = process.env.API_KEY;
+  if (!key) throw new Error("API Key is missing");
+  return key;
+};
+
+const buildConfig = (request: GenerationRequest) => {
+    const config: any = {};
+    if (request.systemInstruction) config.systemInstruction = request.systemInstruction;
+    if (request.responseSchema) {
+        config.responseMimeType = "application/json";
+        config.responseSchema = request.responseSchema;
+    }
+    if (request.maxOutputTokens) config.maxOutputTokens = request.maxOutputTokens;
+    if (request.thinkingBudget) config.thinkingConfig = { thinkingBudget: request.thinkingBudget };
+    if (request.signal) config.abortSignal = request.signal;
+    return config;
+};
+
+export const createGeminiProvider = (models: Partial<Record<GenerationTask, string>> = {}): GenerationProvider => {
+    const modelFor = (task: GenerationTask) => models[task] || GEMINI_MODELS[task];
+
+    return {
+        id: 'gemini',
+        label: 'Google Gemini',
+
+        generateText: async (request) => {
+            const ai = new GoogleGenAI({ apiKey: getApiKey() });
+            const response = await ai.models.generateContent({
+                model: modelFor(request.task),
+                contents: { parts: request.parts },
+                config: buildConfig(request)
+            });
+            return response.text || "";
+        },
+
+        streamText: async (request, onChunk) => {
+            const ai = new GoogleGenAI({ apiKey: getApiKey() });
+            let text = "";
+            try {
+                const stream = await ai.models.generateContentStream({
+                    model: modelFor(request.task),
+                    contents: { parts: request.parts },
+                    config: buildConfig(request)
+                });
+                for await (const chunk of stream) {
+                    if (request.signal?.aborted) throw createAbortError();
+                    text += chunk.text || "";
+                    onChunk(text, {
+                        receivedChars: text.length,
+                        outputTokens: chunk.usageMetadata?.candidatesTokenCount
+                    });
+                }
+            } catch (e) {
+                // The SDK surfaces aborts as assorted DOMException/Error shapes
+                if (request.signal?.aborted) throw createAbortError();
+                throw e;
+            }
+            return text;
+        },
+
+        generateImage: async (request) => {
+            const ai = new GoogleGenAI({ apiKey: getApiKey() });
+            const response = await ai.models.generateContent({
+                model: modelFor(request.task),
+                contents: { parts: request.parts },
+            });
+
+            for (const cand of response.candidates || []) {
+                for (const part of cand.content?.parts || []) {
+                    if (part.inlineData) {
+                        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+                    }
+                }
+            }
+            throw new Error("No image generated by AI.");
+        }
+    };
+};
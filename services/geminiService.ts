@@ -1,13 +1,12 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { MinecraftModel, ModelType, ModLoader, JavaBlockState, AnimationDefinition } from "../types";
+import { Type } from "@google/genai";
+import { MinecraftModel, ModelType, ModLoader, JavaBlockState, AnimationDefinition, ModelBone, KeyframeValue } from "../types";
 import { SYSTEM_INSTRUCTION } from "../constants";
+import { getGenerationProvider, PromptPart, StreamProgress } from "./generationProvider";
+import { extractPartialBones } from "./streamingParser";
+import { repairModel, formatIssuesForPrompt, ValidationIssue } from "./modelValidator";
 
-// Helper to validate/clean API key
-const getApiKey = () => {
-  const key = process.env.API_KEY;
-  if (!key) throw new Error("API Key is missing");
-  return key;
-};
+// How many times a structurally invalid model is sent back to the AI for correction
+const MAX_REPAIR_ATTEMPTS = 2;
 
 // --- Helpers to transform Array KV pairs back to Objects ---
 
@@ -29,17 +28,33 @@ const arrayToVariantMap = (arr: any[]) => {
 
 // --- Helper to transform Objects to Arrays (Context Prep) ---
 
+const keyframeToListItem = (time: string, value: KeyframeValue) => {
+    if (Array.isArray(value)) return { time, value };
+    return {
+        time,
+        value: value.post,
+        ...(value.lerp_mode ? { lerp_mode: value.lerp_mode } : {}),
+        ...(value.bezier ? { bezier: value.bezier } : {})
+    };
+};
+
 const animationsMapToList = (animations?: Record<string, AnimationDefinition>) => {
     if (!animations) return undefined;
     return {
         list: Object.entries(animations).map(([name, def]) => {
             const bonesList = def.bones ? Object.entries(def.bones).map(([boneName, data]) => {
-                const rotationList = data.rotation ? Object.entries(data.rotation).map(([t, v]) => ({ time: t, value: v })) : undefined;
-                const positionList = data.position ? Object.entries(data.position).map(([t, v]) => ({ time: t, value: v })) : undefined;
+                const rotationList = data.rotation ? Object.entries(data.rotation).map(([t, v]) => keyframeToListItem(t, v)) : undefined;
+                const positionList = data.position ? Object.entries(data.position).map(([t, v]) => keyframeToListItem(t, v)) : undefined;
+                const scaleList = data.scale ? Object.entries(data.scale).map(([t, v]) => keyframeToListItem(t, v)) : undefined;
+                const visibleList = data.visible ? Object.entries(data.visible).map(([t, v]) => ({ time: t, value: v })) : undefined;
+                const uvOffsetList = data.uv_offset ? Object.entries(data.uv_offset).map(([t, v]) => ({ time: t, value: v })) : undefined;
                 return {
                     bone_name: boneName,
                     rotation: rotationList,
-                    position: positionList
+                    position: positionList,
+                    scale: scaleList,
+                    visible: visibleList,
+                    uv_offset: uvOffsetList
                 };
             }) : [];
             return {
@@ -119,6 +134,18 @@ const BEDROCK_DATA_SCHEMA = {
   required: ["identifier", "bones"]
 };
 
+const KEYFRAME_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        time: { type: Type.STRING }, // "0.0"
+        value: { type: Type.ARRAY, items: { type: Type.NUMBER } }, // [x,y,z]
+        // Curve of the segment leaving this keyframe
+        lerp_mode: { type: Type.STRING, enum: ["linear", "step", "catmullrom", "bezier"], nullable: true },
+        bezier: { type: Type.ARRAY, items: { type: Type.NUMBER }, nullable: true } // [x1,y1,x2,y2] easing handles
+    },
+    required: ["time", "value"]
+};
+
 const ANIMATIONS_SCHEMA = {
     type: Type.OBJECT,
     nullable: true,
@@ -139,22 +166,35 @@ const ANIMATIONS_SCHEMA = {
                                 bone_name: { type: Type.STRING },
                                 rotation: { 
                                     type: Type.ARRAY, 
+                                    items: KEYFRAME_SCHEMA
+                                },
+                                position: {
+                                    type: Type.ARRAY,
+                                    items: KEYFRAME_SCHEMA
+                                },
+                                scale: {
+                                    type: Type.ARRAY,
+                                    items: KEYFRAME_SCHEMA
+                                },
+                                // Shape tracks for the bone's own cubes
+                                visible: {
+                                    type: Type.ARRAY,
                                     items: {
                                         type: Type.OBJECT,
                                         properties: {
-                                            time: { type: Type.STRING }, // "0.0"
-                                            value: { type: Type.ARRAY, items: { type: Type.NUMBER } } // [x,y,z]
+                                            time: { type: Type.STRING },
+                                            value: { type: Type.BOOLEAN }
                                         },
                                         required: ["time", "value"]
                                     }
                                 },
-                                position: {
+                                uv_offset: {
                                     type: Type.ARRAY,
                                     items: {
                                         type: Type.OBJECT,
                                         properties: {
                                             time: { type: Type.STRING },
-                                            value: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+                                            value: { type: Type.ARRAY, items: { type: Type.NUMBER } } // [u,v] in texture pixels
                                         },
                                         required: ["time", "value"]
                                     }
@@ -296,6 +336,17 @@ const FULL_MODEL_SCHEMA = {
 
 // --- Parsers ---
 
+// Linear keyframes stay bare vectors, like the rest of the app writes them
+const listItemToKeyframe = (k: any): KeyframeValue => {
+    const curved = k.lerp_mode && k.lerp_mode !== 'linear';
+    if (!curved) return k.value;
+    return {
+        post: k.value,
+        lerp_mode: k.lerp_mode,
+        ...(k.lerp_mode === 'bezier' && Array.isArray(k.bezier) && k.bezier.length === 4 ? { bezier: k.bezier } : {})
+    };
+};
+
 const parseResponseAnimations = (animationsList: any) => {
     if (!animationsList || !animationsList.list) return undefined;
     const animations: Record<string, any> = {};
@@ -303,14 +354,26 @@ const parseResponseAnimations = (animationsList: any) => {
          const bones: Record<string, any> = {};
          anim.bones.forEach((b: any) => {
              const rotationMap: Record<string, any> = {};
-             if (b.rotation) b.rotation.forEach((k: any) => rotationMap[k.time] = k.value);
+             if (b.rotation) b.rotation.forEach((k: any) => rotationMap[k.time] = listItemToKeyframe(k));
              
              const positionMap: Record<string, any> = {};
-             if (b.position) b.position.forEach((k: any) => positionMap[k.time] = k.value);
+             if (b.position) b.position.forEach((k: any) => positionMap[k.time] = listItemToKeyframe(k));
+
+             const scaleMap: Record<string, any> = {};
+             if (b.scale) b.scale.forEach((k: any) => scaleMap[k.time] = listItemToKeyframe(k));
+
+             const visibleMap: Record<string, boolean> = {};
+             if (b.visible) b.visible.forEach((k: any) => visibleMap[k.time] = k.value !== false);
+
+             const uvOffsetMap: Record<string, [number, number]> = {};
+             if (b.uv_offset) b.uv_offset.forEach((k: any) => uvOffsetMap[k.time] = [k.value?.[0] || 0, k.value?.[1] || 0]);
 
              bones[b.bone_name] = {
                  rotation: Object.keys(rotationMap).length ? rotationMap : undefined,
                  position: Object.keys(positionMap).length ? positionMap : undefined,
+                 scale: Object.keys(scaleMap).length ? scaleMap : undefined,
+                 visible: Object.keys(visibleMap).length ? visibleMap : undefined,
+                 uv_offset: Object.keys(uvOffsetMap).length ? uvOffsetMap : undefined,
              };
          });
 
@@ -383,19 +446,42 @@ const cleanAndParseJSON = (text: string) => {
     }
 };
 
+// --- Response -> App Model ---
+
+const buildModelFromResponse = (parsed: any, loader: ModLoader): MinecraftModel => ({
+    type: parsed.model_type as ModelType,
+    loader: loader,
+    identifier: parsed.identifier,
+    bedrockData: parsed.bedrock_data,
+    animations: parseResponseAnimations(parsed.animations),
+    javaBlockData: parseJavaBlockData(parsed.java_block_data),
+    javaBlockState: parseJavaBlockState(parsed.java_block_state)
+});
+
 // --- Exports ---
 
+export interface GenerationProgress extends StreamProgress {
+  attempt: number; // 1-based, increments on correction retries
+  bonesParsed: number;
+  // Only set when the set of completed bones changed since the last report
+  partialBones?: ModelBone[];
+}
+
+export interface GenerateModelOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
 export const generateModelFromPrompt = async (
   prompt: string, 
   currentType: ModelType,
   currentLoader: ModLoader,
   imageBase64?: string,
-  currentModelContext?: MinecraftModel
+  currentModelContext?: MinecraftModel,
+  options: GenerateModelOptions = {}
 ): Promise<{ text: string; model: MinecraftModel | null }> => {
   try {
-    const ai = new GoogleGenAI({ apiKey: getApiKey() });
-    
-    const parts: any[] = [{ text: `Current Mode: ${currentType}. Loader: ${currentLoader}. Request: ${prompt}` }];
+    const parts: PromptPart[] = [{ text: `Current Mode: ${currentType}. Loader: ${currentLoader}. Request: ${prompt}` }];
     
     // Check if we have an image - this changes how we treat the context
     if (imageBase64) {
@@ -461,47 +547,76 @@ export const generateModelFromPrompt = async (
         });
     }
 
-    // Use Gemini 3 Pro with Thinking for complex spatial reasoning and context preservation
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview", 
-      contents: {
-        parts: parts
-      },
-      config: {
+    let attemptParts = parts;
+    let lastIssues: ValidationIssue[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      // Complex spatial reasoning and context preservation: the provider picks its strongest model
+      let lastBoneCount = 0;
+      const resultText = await getGenerationProvider().streamText({
+        task: 'model',
+        parts: attemptParts,
         systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
         responseSchema: FULL_MODEL_SCHEMA,
         // Increase Output Token limit to prevent truncated JSON for complex 3D models
-        maxOutputTokens: 65536, 
-        thinkingConfig: {
-            // Limit thinking to leave room for the large JSON output
-            thinkingBudget: 4096 // Increase thinking budget for complex geometry calculations
-        }
+        maxOutputTokens: 65536,
+        // Limit thinking to leave room for the large JSON output
+        thinkingBudget: 4096,
+        signal: options.signal,
+        context: currentModelContext
+      }, (textSoFar, progress) => {
+        if (!options.onProgress) return;
+        // Re-scan only when something could have closed a bone object
+        const partialBones = textSoFar.includes('}') ? extractPartialBones(textSoFar) : [];
+        const bonesChanged = partialBones.length !== lastBoneCount;
+        lastBoneCount = partialBones.length;
+        options.onProgress({
+          ...progress,
+          attempt: attempt + 1,
+          bonesParsed: partialBones.length,
+          partialBones: bonesChanged ? partialBones : undefined
+        });
+      });
+
+      if (!resultText) throw new Error("No response from AI");
+
+      let parsed: any;
+      try {
+        parsed = cleanAndParseJSON(resultText);
+      } catch (parseError) {
+        if (attempt === MAX_REPAIR_ATTEMPTS) throw parseError;
+        attemptParts = [...parts, {
+          text: "CORRECTION REQUIRED: Your previous response was not valid JSON. Return the COMPLETE model again as a single valid JSON object matching the schema."
+        }];
+        continue;
       }
-    });
 
-    const resultText = response.text;
-    if (!resultText) throw new Error("No response from AI");
+      const isLastAttempt = attempt === MAX_REPAIR_ATTEMPTS;
+      const { model: newModel, remaining } = repairModel(
+        buildModelFromResponse(parsed, currentLoader),
+        { dropUnrepairable: isLastAttempt }
+      );
+      lastIssues = remaining.filter(i => i.severity === 'error');
+
+      if (lastIssues.length === 0 || isLastAttempt) {
+        let text = parsed.response_text || "";
+        if (lastIssues.length > 0) {
+          text += `${text ? '\n\n' : ''}(Warning: ${lastIssues.length} structural issue(s) could not be repaired automatically.)`;
+        }
+        return { text, model: newModel };
+      }
 
-    const parsed = cleanAndParseJSON(resultText);
-    
-    const newModel: MinecraftModel = {
-        type: parsed.model_type as ModelType,
-        loader: currentLoader, 
-        identifier: parsed.identifier,
-        bedrockData: parsed.bedrock_data,
-        animations: parseResponseAnimations(parsed.animations),
-        javaBlockData: parseJavaBlockData(parsed.java_block_data),
-        javaBlockState: parseJavaBlockState(parsed.java_block_state)
-    };
+      // Targeted correction: only the problems that need the AI's judgement
+      const previousStr = JSON.stringify({ bedrock_data: newModel.bedrockData }).substring(0, 50000);
+      attemptParts = [...parts, {
+        text: `CORRECTION REQUIRED: Your previous response had structural errors:\n${formatIssuesForPrompt(lastIssues)}\n\nPREVIOUS_RESPONSE (JSON): ${previousStr}\n\nFix ONLY these problems and return the COMPLETE corrected model (all bones, cubes and animations).`
+      }];
+    }
 
-    return {
-        text: parsed.response_text,
-        model: newModel
-    };
+    throw new Error(`Model failed validation: ${formatIssuesForPrompt(lastIssues)}`);
 
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    console.error("Generation Error:", error);
     throw error;
   }
 };
@@ -511,8 +626,6 @@ export const generateTextureFromPrompt = async (
   referenceImage: string, 
   modelContext: MinecraftModel
 ): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey: getApiKey() });
-    
     // referenceImage is data:image/png;base64,...
     // Extract base64 data and mimeType
     const matches = referenceImage.match(/^data:(.+);base64,(.+)$/);
@@ -520,7 +633,7 @@ export const generateTextureFromPrompt = async (
     const mimeType = matches[1];
     const data = matches[2];
 
-    const parts: any[] = [
+    const parts: PromptPart[] = [
         {
             inlineData: {
                 mimeType,
@@ -539,82 +652,73 @@ export const generateTextureFromPrompt = async (
         }
     ];
 
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-image",
-        contents: { parts },
+    return getGenerationProvider().generateImage({
+        task: 'texture',
+        parts,
+        context: modelContext
     });
-
-    for (const cand of response.candidates || []) {
-        for (const part of cand.content.parts) {
-            if (part.inlineData) {
-                return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-            }
-        }
-    }
-    throw new Error("No image generated by AI.");
 };
 
 export const generateBlockState = async (
     identifier: string,
     description: string
 ): Promise<JavaBlockState> => {
-    const ai = new GoogleGenAI({ apiKey: getApiKey() });
-    
-    const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Generate a valid Java Edition Blockstate JSON for identifier: "${identifier}". 
+    const responseText = await getGenerationProvider().generateText({
+        task: 'blockstate',
+        parts: [{
+            text: `Generate a valid Java Edition Blockstate JSON for identifier: "${identifier}". 
         Logic: ${description}.
         Instructions:
         1. Use the identifier "${identifier}" as the model resource location if not specified otherwise.
         2. If the logic implies multiple variants (e.g. facing, open/closed), generate them.
         3. If the logic implies multipart (e.g. fences), use that.
-        4. Ensure the JSON conforms to standard Minecraft Java Edition blockstate format.`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: JAVA_BLOCK_STATE_SCHEMA.properties
-            }
-        }
+        4. Ensure the JSON conforms to standard Minecraft Java Edition blockstate format.`
+        }],
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: JAVA_BLOCK_STATE_SCHEMA.properties
+        },
+        context: { identifier, description }
     });
 
-    const parsed = cleanAndParseJSON(response.text || "{}");
+    const parsed = cleanAndParseJSON(responseText || "{}");
     return parseJavaBlockState(parsed) as JavaBlockState;
 };
 
 export const autoRigModel = async (model: MinecraftModel): Promise<MinecraftModel> => {
-    const ai = new GoogleGenAI({ apiKey: getApiKey() });
-    
     const contextStr = JSON.stringify(model.bedrockData || {}).substring(0, 50000);
     
-    // Auto-rig is complex spatial reasoning, upgrade to Pro with thinking.
-    const response = await ai.models.generateContent({
-        model: "gemini-3-pro-preview",
-        contents: `Task: Auto-Rig Minecraft Model.
+    // Auto-rig is complex spatial reasoning, the provider should use its thinking model.
+    const responseText = await getGenerationProvider().generateText({
+        task: 'autorig',
+        parts: [{
+            text: `Task: Auto-Rig Minecraft Model.
         Input Context: ${contextStr}
         Instruction: Analyze the input Bedrock geometry. 
         1. Identify body parts (head, body, arms, legs) based on cube positions/sizes.
         2. Create a hierarchical bone structure (parenting).
         3. Set Pivots correctly for animation (Head at neck, Arms at shoulders, Legs at hips).
         4. Return the full Bedrock Data structure within the response.
-        `,
-        config: {
-             responseMimeType: "application/json",
-             responseSchema: FULL_MODEL_SCHEMA,
-             maxOutputTokens: 65536,
-             thinkingConfig: {
-                 thinkingBudget: 2048 
-             }
-        }
+        `
+        }],
+        responseSchema: FULL_MODEL_SCHEMA,
+        maxOutputTokens: 65536,
+        thinkingBudget: 2048,
+        context: model
     });
     
-    const parsed = cleanAndParseJSON(response.text || "{}");
+    const parsed = cleanAndParseJSON(responseText || "{}");
     
     const newModel: MinecraftModel = {
         ...model,
         bedrockData: parsed.bedrock_data,
         animations: parseResponseAnimations(parsed.animations) // Preserve animations or accept new ones if generated
     };
-    
-    return newModel;
+
+    // Re-rigging only reshuffles existing geometry, so mechanical repair is enough here
+    const { model: repaired, remaining } = repairModel(newModel);
+    if (remaining.some(i => i.severity === 'error')) {
+        throw new Error(`Auto-rig returned an invalid model:\n${formatIssuesForPrompt(remaining)}`);
+    }
+    return repaired;
 };
\ No newline at end of file
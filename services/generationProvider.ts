@@ -0,0 +1,78 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createLocalProvider } from "./localProvider";
+
+// --- Generation Provider Abstraction ---
+// geminiService builds prompts and parses responses; a provider only moves
+// them to and from a backend. Swapping the provider swaps the LLM endpoint.
+
+export type GenerationTask = 'model' | 'texture' | 'blockstate' | 'autorig';
+
+export type PromptPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } };
+
+export interface GenerationRequest {
+    task: GenerationTask;
+    parts: PromptPart[];
+    systemInstruction?: string;
+    responseSchema?: any; // JSON schema in the @google/genai 'Type' dialect
+    maxOutputTokens?: number;
+    thinkingBudget?: number;
+    signal?: AbortSignal;
+    // Structured data the prompt was built from. Providers that don't reason
+    // over the prompt text (e.g. the local stand-in) can use it directly.
+    context?: unknown;
+}
+
+export interface StreamProgress {
+    receivedChars: number;
+    outputTokens?: number; // Reported by the backend when available
+}
+
+export type StreamChunkHandler = (textSoFar: string, progress: StreamProgress) => void;
+
+export interface GenerationProvider {
+    id: string;
+    label: string;
+    // Returns raw response text (JSON for every task except 'texture')
+    generateText: (request: GenerationRequest) => Promise<string>;
+    // Same result as generateText, reporting the accumulated text as it arrives
+    streamText: (request: GenerationRequest, onChunk: StreamChunkHandler) => Promise<string>;
+    // Returns a data URL (data:image/png;base64,...)
+    generateImage: (request: GenerationRequest) => Promise<string>;
+}
+
+// Normalized cancellation error so callers can tell "aborted" from "failed"
+export const createAbortError = () => {
+    const error = new Error("Generation cancelled.");
+    error.name = 'AbortError';
+    return error;
+};
+
+export const isAbortError = (error: unknown) =>
+    error instanceof Error && error.name === 'AbortError';
+
+export type ProviderId = 'gemini' | 'local';
+
+const PROVIDER_FACTORIES: Record<ProviderId, () => GenerationProvider> = {
+    gemini: () => createGeminiProvider(),
+    local: () => createLocalProvider()
+};
+
+let activeProvider: GenerationProvider | null = null;
+
+// Explicit override, mainly for tests and scripted sessions.
+export const setGenerationProvider = (provider: GenerationProvider | null) => {
+    activeProvider = provider;
+};
+
+export const getGenerationProvider = (): GenerationProvider => {
+    if (activeProvider) return activeProvider;
+
+    const requested = (process.env.GENERATION_PROVIDER || 'gemini') as ProviderId;
+    const factory = PROVIDER_FACTORIES[requested];
+    if (!factory) throw new Error(`Unknown generation provider: ${requested}`);
+
+    activeProvider = factory();
+    return activeProvider;
+};
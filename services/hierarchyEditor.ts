@@ -0,0 +1,273 @@
+import * as THREE from 'three';
+import { MinecraftModel, ModelBone, ModelCube, AnimationDefinition } from '../types';
+import { Vec3 } from './animationMath';
+
+// --- Hierarchy Editing ---
+// Bedrock stores pivots and cube origins in absolute rest-pose coordinates, but
+// bone rotations are inherited. Moving something to another parent therefore
+// re-expresses it in the new parent's frame so it stays where it appears.
+
+const getBones = (model: MinecraftModel): ModelBone[] => {
+    if (!model.bedrockData) throw new Error("Hierarchy editing needs an entity model.");
+    return model.bedrockData.bones;
+};
+
+const withBones = (model: MinecraftModel, bones: ModelBone[]): MinecraftModel => ({
+    ...model,
+    bedrockData: { ...model.bedrockData!, bones }
+});
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
+const roundVec = (v: number[]) => v.map(round) as Vec3;
+
+export const findBoneIndex = (model: MinecraftModel, name: string) =>
+    (model.bedrockData?.bones || []).findIndex(b => b.name === name);
+
+// Parent names that don't resolve are treated as roots, as the viewer does
+export const getParentName = (bones: ModelBone[], bone: ModelBone): string | undefined =>
+    bone.parent && bones.some(b => b.name === bone.parent) ? bone.parent : undefined;
+
+export const getDescendantNames = (bones: ModelBone[], name: string): Set<string> => {
+    const found = new Set<string>();
+    let frontier = [name];
+    while (frontier.length) {
+        const next = bones.filter(b => b.parent && frontier.includes(b.parent) && !found.has(b.name) && b.name !== name);
+        next.forEach(b => found.add(b.name));
+        frontier = next.map(b => b.name);
+    }
+    return found;
+};
+
+export const uniqueBoneName = (bones: ModelBone[], base: string) => {
+    const names = new Set(bones.map(b => b.name));
+    const stem = base.replace(/_\d+$/, '') || 'bone';
+    let name = base;
+    for (let n = 2; names.has(name); n++) name = `${stem}_${n}`;
+    return name;
+};
+
+// --- Frames ---
+
+const rotationMatrix = (rotation?: number[]) => new THREE.Matrix4().makeRotationFromEuler(new THREE.Euler(
+    THREE.MathUtils.degToRad(rotation?.[0] || 0),
+    THREE.MathUtils.degToRad(rotation?.[1] || 0),
+    THREE.MathUtils.degToRad(rotation?.[2] || 0)
+));
+
+// Rest-pose transform a bone applies to its cubes and children: rotate about its pivot
+const boneLocalMatrix = (bone: ModelBone) => {
+    const [x, y, z] = bone.pivot;
+    return new THREE.Matrix4().makeTranslation(x, y, z)
+        .multiply(rotationMatrix(bone.rotation))
+        .multiply(new THREE.Matrix4().makeTranslation(-x, -y, -z));
+};
+
+// Maps coordinates stored inside `name` (or the root, if undefined) to world space
+const frameMatrix = (bones: ModelBone[], name?: string): THREE.Matrix4 => {
+    const chain: ModelBone[] = [];
+    const seen = new Set<string>();
+    for (let bone = bones.find(b => b.name === name); bone && !seen.has(bone.name); bone = bones.find(b => b.name === getParentName(bones, bone!))) {
+        seen.add(bone.name);
+        chain.unshift(bone);
+    }
+    return chain.reduce((m, bone) => m.multiply(boneLocalMatrix(bone)), new THREE.Matrix4());
+};
+
+const toDegrees = (m: THREE.Matrix4): Vec3 => {
+    const e = new THREE.Euler().setFromRotationMatrix(m);
+    return roundVec([e.x, e.y, e.z].map(r => THREE.MathUtils.radToDeg(r)));
+};
+
+const transformPoint = (m: THREE.Matrix4, p: number[]) => roundVec(new THREE.Vector3(p[0], p[1], p[2]).applyMatrix4(m).toArray());
+
+const IDENTITY = new THREE.Matrix4().elements;
+const isIdentity = (m: THREE.Matrix4) => m.elements.every((v, i) => Math.abs(v - IDENTITY[i]) < 1e-6);
+
+// Re-expresses a cube stored in one frame so it looks the same in another
+const transformCube = (cube: ModelCube, m: THREE.Matrix4): ModelCube => {
+    if (isIdentity(m)) return cube;
+    const center = cube.origin.map((o, a) => o + cube.size[a] / 2);
+    const newCenter = transformPoint(m, center);
+    const rotation = toDegrees(new THREE.Matrix4().extractRotation(m).multiply(rotationMatrix(cube.rotation)));
+    return {
+        ...cube,
+        origin: roundVec(newCenter.map((c, a) => c - cube.size[a] / 2)),
+        rotation: rotation.every(r => r === 0) ? undefined : rotation
+    };
+};
+
+// --- Operations ---
+
+export const reparentBone = (model: MinecraftModel, boneIndex: number, newParent: string | null): MinecraftModel => {
+    const bones = getBones(model);
+    const bone = bones[boneIndex];
+    if (!bone) throw new Error("Bone not found.");
+    if (newParent === bone.name || (newParent && getDescendantNames(bones, bone.name).has(newParent))) {
+        throw new Error(`Cannot parent "${bone.name}" to itself or one of its children.`);
+    }
+    if (newParent && !bones.some(b => b.name === newParent)) throw new Error(`Bone "${newParent}" not found.`);
+    if ((getParentName(bones, bone) || null) === newParent) return model;
+
+    // old frame -> world -> new frame
+    const delta = frameMatrix(bones, newParent || undefined).invert().multiply(frameMatrix(bones, getParentName(bones, bone)));
+    const pivot = transformPoint(delta, bone.pivot);
+    const shift = pivot.map((v, a) => v - bone.pivot[a]);
+    const rotation = toDegrees(new THREE.Matrix4().extractRotation(delta).multiply(rotationMatrix(bone.rotation)));
+
+    // With the bone's rotation absorbing the frame change, everything it carries only translates
+    const moved = getDescendantNames(bones, bone.name);
+    const translate = (b: ModelBone): ModelBone => ({
+        ...b,
+        pivot: roundVec(b.pivot.map((v, a) => v + shift[a])),
+        cubes: b.cubes.map(c => ({ ...c, origin: roundVec(c.origin.map((v, a) => v + shift[a])) }))
+    });
+
+    return withBones(model, bones.map((b, i) => {
+        if (i === boneIndex) {
+            const updated: ModelBone = { ...translate(b), parent: newParent || undefined };
+            if (b.rotation || rotation.some(r => r !== 0)) updated.rotation = rotation;
+            return updated;
+        }
+        return moved.has(b.name) ? translate(b) : b;
+    }));
+};
+
+const renameAnimationBone = (anim: AnimationDefinition, from: string, to: string): AnimationDefinition => {
+    if (!anim.bones?.[from]) return anim;
+    const bones = Object.fromEntries(Object.entries(anim.bones).map(([name, data]) => [name === from ? to : name, data]));
+    return { ...anim, bones };
+};
+
+export const renameBone = (model: MinecraftModel, boneIndex: number, newName: string): MinecraftModel => {
+    const bones = getBones(model);
+    const bone = bones[boneIndex];
+    const name = newName.trim();
+    if (!bone) throw new Error("Bone not found.");
+    if (!name) throw new Error("Bone name cannot be empty.");
+    if (name === bone.name) return model;
+    if (bones.some(b => b.name === name)) throw new Error(`A bone named "${name}" already exists.`);
+
+    const renamed = withBones(model, bones.map((b, i) => {
+        if (i === boneIndex) return { ...b, name };
+        return b.parent === bone.name ? { ...b, parent: name } : b;
+    }));
+    if (!model.animations) return renamed;
+    return {
+        ...renamed,
+        animations: Object.fromEntries(Object.entries(model.animations).map(([key, anim]) => [key, renameAnimationBone(anim, bone.name, name)]))
+    };
+};
+
+// Children move up to the deleted bone's parent, keeping their place in the world
+export const deleteBone = (model: MinecraftModel, boneIndex: number): MinecraftModel => {
+    let current = model;
+    const bone = getBones(model)[boneIndex];
+    if (!bone) throw new Error("Bone not found.");
+    const newParent = getParentName(getBones(model), bone) || null;
+
+    getBones(model).filter(b => b.parent === bone.name).forEach(child => {
+        current = reparentBone(current, findBoneIndex(current, child.name), newParent);
+    });
+
+    const bones = getBones(current).filter(b => b.name !== bone.name);
+    const result = withBones(current, bones);
+    if (!result.animations) return result;
+    return {
+        ...result,
+        animations: Object.fromEntries(Object.entries(result.animations).map(([key, anim]) => {
+            if (!anim.bones?.[bone.name]) return [key, anim];
+            const { [bone.name]: _removed, ...rest } = anim.bones;
+            return [key, { ...anim, bones: rest }];
+        }))
+    };
+};
+
+// Copies a bone and its whole subtree next to the original; returns the copy's index
+export const duplicateBone = (model: MinecraftModel, boneIndex: number): { model: MinecraftModel; index: number } => {
+    const bones = getBones(model);
+    const bone = bones[boneIndex];
+    if (!bone) throw new Error("Bone not found.");
+
+    const descendants = getDescendantNames(bones, bone.name);
+    const subtree = [bone, ...bones.filter(b => descendants.has(b.name))];
+    const names = new Map<string, string>();
+    const taken = [...bones];
+    subtree.forEach(b => {
+        const copyName = uniqueBoneName(taken, b.name);
+        names.set(b.name, copyName);
+        taken.push({ ...b, name: copyName });
+    });
+
+    const copies: ModelBone[] = JSON.parse(JSON.stringify(subtree)).map((b: ModelBone) => ({
+        ...b,
+        name: names.get(b.name)!,
+        parent: b.parent && names.has(b.parent) ? names.get(b.parent) : b.parent
+    }));
+
+    const insertAt = boneIndex + 1;
+    return {
+        model: withBones(model, [...bones.slice(0, insertAt), ...copies, ...bones.slice(insertAt)]),
+        index: insertAt
+    };
+};
+
+export const addBone = (model: MinecraftModel, parent?: string): { model: MinecraftModel; index: number } => {
+    const bones = getBones(model);
+    const parentBone = parent ? bones.find(b => b.name === parent) : undefined;
+    const bone: ModelBone = {
+        name: uniqueBoneName(bones, 'bone'),
+        pivot: parentBone ? [...parentBone.pivot] as Vec3 : [0, 0, 0],
+        cubes: [],
+        ...(parentBone ? { parent: parentBone.name } : {})
+    };
+    return { model: withBones(model, [...bones, bone]), index: bones.length };
+};
+
+// --- Cubes ---
+
+const updateCubes = (model: MinecraftModel, boneIndex: number, edit: (cubes: ModelCube[]) => ModelCube[]) => {
+    const bones = [...getBones(model)];
+    if (!bones[boneIndex]) throw new Error("Bone not found.");
+    bones[boneIndex] = { ...bones[boneIndex], cubes: edit(bones[boneIndex].cubes) };
+    return withBones(model, bones);
+};
+
+// A 2x2x2 cube sitting on the bone's pivot
+export const addCube = (model: MinecraftModel, boneIndex: number): { model: MinecraftModel; index: number } => {
+    const bone = getBones(model)[boneIndex];
+    if (!bone) throw new Error("Bone not found.");
+    const cube: ModelCube = {
+        origin: [bone.pivot[0] - 1, bone.pivot[1], bone.pivot[2] - 1],
+        size: [2, 2, 2],
+        uv: [0, 0]
+    };
+    return { model: updateCubes(model, boneIndex, cubes => [...cubes, cube]), index: bone.cubes.length };
+};
+
+export const duplicateCube = (model: MinecraftModel, boneIndex: number, cubeIndex: number): MinecraftModel =>
+    updateCubes(model, boneIndex, cubes => {
+        if (!cubes[cubeIndex]) throw new Error("Cube not found.");
+        const copy: ModelCube = JSON.parse(JSON.stringify(cubes[cubeIndex]));
+        return [...cubes.slice(0, cubeIndex + 1), copy, ...cubes.slice(cubeIndex + 1)];
+    });
+
+export const deleteCube = (model: MinecraftModel, boneIndex: number, cubeIndex: number): MinecraftModel =>
+    updateCubes(model, boneIndex, cubes => cubes.filter((_, i) => i !== cubeIndex));
+
+// Moves a cube into another bone without changing where it appears; returns its new index
+export const moveCube = (model: MinecraftModel, boneIndex: number, cubeIndex: number, targetIndex: number): { model: MinecraftModel; index: number } => {
+    const bones = getBones(model);
+    const source = bones[boneIndex];
+    const target = bones[targetIndex];
+    if (!source?.cubes[cubeIndex] || !target) throw new Error("Cube or bone not found.");
+    if (boneIndex === targetIndex) return { model, index: cubeIndex };
+
+    const world = frameMatrix(bones, source.name);
+    const delta = frameMatrix(bones, target.name).invert().multiply(world);
+    const cube = transformCube(source.cubes[cubeIndex], delta);
+
+    const next = [...bones];
+    next[boneIndex] = { ...source, cubes: source.cubes.filter((_, i) => i !== cubeIndex) };
+    next[targetIndex] = { ...target, cubes: [...target.cubes, cube] };
+    return { model: withBones(model, next), index: target.cubes.length };
+};
@@ -0,0 +1,193 @@
+import JSZip from 'jszip';
+import { MinecraftModel, JavaBlockModel, JavaBlockElement, JavaBlockState, BlockStateVariant } from '../types';
+import { downloadBlob } from './modelExporter';
+import {
+    ValidationIssue, validateJavaBlockModel, validateJavaBlockState, repairJavaBlockModel, repairJavaBlockState
+} from './modelValidator';
+
+// --- Java Edition Block Export ---
+// Writes a resource pack with the block model, its blockstate, an item model
+// and the texture, all under the namespace taken from the model identifier:
+//   assets/<ns>/blockstates/<path>.json
+//   assets/<ns>/models/block/<path>.json
+//   assets/<ns>/models/item/<path>.json
+//   assets/<ns>/textures/block/<path>.png
+
+const DEFAULT_NAMESPACE = 'hytaleforge';
+const PACK_FORMAT = 15; // Java 1.20.1
+const DEFAULT_TEXTURE_VARIABLE = 'texture';
+const FACE_NAMES = ['north', 'south', 'east', 'west', 'up', 'down'] as const;
+
+// --- Resource Locations ---
+
+export interface ResourceLocation {
+    namespace: string;
+    path: string;
+}
+
+// Java only accepts [a-z0-9_.-] in namespaces and additionally '/' in paths
+const sanitizeNamespace = (s: string) => s.toLowerCase().replace(/[^a-z0-9_.-]/g, '_') || DEFAULT_NAMESPACE;
+const sanitizePath = (s: string) => s.toLowerCase().replace(/[^a-z0-9_.\/-]/g, '_').replace(/^\/+|\/+$/g, '') || 'block';
+
+export const parseResourceLocation = (identifier: string, fallbackNamespace: string = DEFAULT_NAMESPACE): ResourceLocation => {
+    const trimmed = (identifier || '').trim().toLowerCase();
+    const colon = trimmed.indexOf(':');
+    const namespace = colon >= 0 ? trimmed.slice(0, colon) : fallbackNamespace;
+    // Block models are addressed as "<ns>:block/<path>"; strip the folder if the identifier already has it
+    const path = (colon >= 0 ? trimmed.slice(colon + 1) : trimmed).replace(/^(block|blocks)\//, '');
+    return { namespace: sanitizeNamespace(namespace), path: sanitizePath(path) };
+};
+
+export const formatResourceLocation = (loc: ResourceLocation, folder?: string) =>
+    `${loc.namespace}:${folder ? `${folder}/` : ''}${loc.path}`;
+
+// --- Block Model ---
+
+export const buildJavaBlockModel = (model: MinecraftModel, loc: ResourceLocation, hasTexture: boolean): JavaBlockModel => {
+    const data = model.javaBlockData;
+    if (!data) {
+        throw new Error("Model has no Java block data.");
+    }
+
+    const textures: Record<string, string> = { ...(data.textures || {}) };
+    if (hasTexture) {
+        // The app paints a single texture, so every concrete texture points at it
+        const ownTexture = formatResourceLocation(loc, 'block');
+        if (Object.keys(textures).length === 0) textures[DEFAULT_TEXTURE_VARIABLE] = ownTexture;
+        Object.keys(textures).forEach(key => {
+            if (!textures[key].startsWith('#')) textures[key] = ownTexture;
+        });
+    }
+    const mainVariable = Object.keys(textures).find(k => k !== 'particle') || DEFAULT_TEXTURE_VARIABLE;
+    if (Object.keys(textures).length > 0 && !textures.particle) {
+        textures.particle = `#${mainVariable}`;
+    }
+
+    const elements = data.elements?.map(el => {
+        // 'color' only exists for the viewer
+        const { color, ...rest } = el;
+        const out: JavaBlockElement = { ...rest };
+        if (!out.faces || Object.keys(out.faces).length === 0) {
+            // Without faces Java renders nothing; UVs default to the element's position
+            out.faces = {};
+            FACE_NAMES.forEach(face => { out.faces![face] = { texture: `#${mainVariable}` }; });
+        }
+        return out;
+    });
+
+    return {
+        ...(data.parent ? { parent: data.parent } : {}),
+        ...(Object.keys(textures).length > 0 ? { textures } : {}),
+        ...(elements ? { elements } : {}),
+        ...(data.display ? { display: data.display } : {})
+    };
+};
+
+// --- Blockstate ---
+
+// Generated blockstates often reference the model loosely ("my_block", "block/my_block")
+const qualifyModelReference = (ref: string, loc: ResourceLocation): string => {
+    if (!ref) return formatResourceLocation(loc, 'block');
+    if (ref.includes(':')) return ref;
+    const path = ref.replace(/^(block|blocks)\//, '');
+    return `${loc.namespace}:block/${sanitizePath(path)}`;
+};
+
+export const buildJavaBlockState = (model: MinecraftModel, loc: ResourceLocation): JavaBlockState => {
+    const state = model.javaBlockState;
+    const ownModel = formatResourceLocation(loc, 'block');
+    const hasContent = state && (Object.keys(state.variants || {}).length > 0 || (state.multipart || []).length > 0);
+    if (!hasContent) {
+        return { variants: { "": { model: ownModel } } };
+    }
+
+    const qualify = (v: BlockStateVariant): BlockStateVariant => ({ ...v, model: qualifyModelReference(v.model, loc) });
+    const qualifyAll = (v: BlockStateVariant | BlockStateVariant[]) => Array.isArray(v) ? v.map(qualify) : qualify(v);
+
+    if (state!.multipart && state!.multipart.length > 0) {
+        return {
+            multipart: state!.multipart.map(part => ({
+                ...(part.when ? { when: part.when } : {}),
+                apply: qualifyAll(part.apply)
+            }))
+        };
+    }
+    return {
+        variants: Object.fromEntries(Object.entries(state!.variants!).map(([key, v]) => [key, qualifyAll(v)]))
+    };
+};
+
+// --- Export ---
+
+export interface JavaBlockExport {
+    location: ResourceLocation;
+    blockModel: JavaBlockModel;
+    blockState: JavaBlockState;
+    issues: ValidationIssue[];
+}
+
+export const buildJavaBlockExport = (model: MinecraftModel, hasTexture: boolean, repair: boolean = false): JavaBlockExport => {
+    const location = parseResourceLocation(model.identifier);
+    let blockModel = buildJavaBlockModel(model, location, hasTexture);
+    let blockState = buildJavaBlockState(model, location);
+    if (repair) {
+        blockModel = repairJavaBlockModel(blockModel);
+        blockState = repairJavaBlockState(blockState);
+    }
+    const issues = [...validateJavaBlockModel(blockModel), ...validateJavaBlockState(blockState)];
+    return { location, blockModel, blockState, issues };
+};
+
+const describeIssues = (issues: ValidationIssue[]) =>
+    issues.slice(0, 8).map(i => `• ${i.message}`).join('\n') + (issues.length > 8 ? `\n…and ${issues.length - 8} more` : '');
+
+export const exportJavaBlockPack = async (model: MinecraftModel, textureData?: string | null) => {
+    if (model.type !== 'BLOCK' || !model.javaBlockData) {
+        alert("Java block export needs a BLOCK model.");
+        return;
+    }
+
+    let result = buildJavaBlockExport(model, !!textureData);
+    let errors = result.issues.filter(i => i.severity === 'error');
+
+    if (errors.length > 0) {
+        if (errors.every(i => i.repairable) &&
+            confirm(`This block breaks Java's model rules:\n${describeIssues(errors)}\n\nSnap rotations to ±22.5/45° and clamp elements to the -16..32 range?`)) {
+            result = buildJavaBlockExport(model, !!textureData, true);
+            errors = result.issues.filter(i => i.severity === 'error');
+        }
+        if (errors.length > 0) {
+            alert(`Cannot export Java block:\n${describeIssues(errors)}`);
+            return;
+        }
+    }
+
+    const warnings = result.issues.filter(i => i.severity === 'warning');
+    if (warnings.length > 0 && !confirm(`Export with warnings?\n${describeIssues(warnings)}`)) {
+        return;
+    }
+
+    const { location, blockModel, blockState } = result;
+    const zip = new JSZip();
+    zip.file('pack.mcmeta', JSON.stringify({
+        pack: { pack_format: PACK_FORMAT, description: `${formatResourceLocation(location)} block assets` }
+    }, null, 2));
+
+    const assets = zip.folder(`assets/${location.namespace}`)!;
+    assets.file(`blockstates/${location.path}.json`, JSON.stringify(blockState, null, 2));
+    assets.file(`models/block/${location.path}.json`, JSON.stringify(blockModel, null, 2));
+    assets.file(`models/item/${location.path}.json`, JSON.stringify({ parent: formatResourceLocation(location, 'block') }, null, 2));
+
+    if (textureData) {
+        const base64Data = textureData.replace(/^data:image\/(png|jpg|jpeg);base64,/, "");
+        assets.file(`textures/block/${location.path}.png`, base64Data, { base64: true });
+    }
+
+    try {
+        const content = await zip.generateAsync({ type: "blob" });
+        downloadBlob(content, `${location.namespace}_${location.path.replace(/\//g, '_')}_java.zip`);
+    } catch (e) {
+        console.error("Failed to generate zip", e);
+        alert("Failed to package Java block assets.");
+    }
+};
@@ -0,0 +1,130 @@
+import { GenerationProvider, GenerationRequest, GenerationTask, createAbortError } from "./generationProvider";
+import { STEVE_MODEL } from "../constants";
+import { MinecraftModel } from "../types";
+
+// --- Local Offline Provider ---
+// Deterministic stand-in that never touches the network. Responses come from,
+// in order: the scripted queue, per-task recordings, then built-in defaults.
+
+export type ScriptedResponse = string | ((request: GenerationRequest) => string | Promise<string>);
+
+export interface LocalProviderOptions {
+    script?: ScriptedResponse[];
+    recordings?: Partial<Record<GenerationTask, ScriptedResponse>>;
+    latencyMs?: number; // Simulated round trip, useful for exercising loading UI
+    streamChunkSize?: number; // Characters per simulated stream chunk
+}
+
+export interface LocalProvider extends GenerationProvider {
+    enqueue: (...responses: ScriptedResponse[]) => void;
+    // Every request received, in order, for assertions
+    requests: GenerationRequest[];
+}
+
+// Recorded humanoid response in the FULL_MODEL_SCHEMA wire shape
+const RECORDED_MODEL_RESPONSE = JSON.stringify({
+    response_text: "Offline preview: standard humanoid with a walk cycle (local provider).",
+    model_type: "ENTITY",
+    identifier: "hytale.local_humanoid",
+    bedrock_data: {
+        ...STEVE_MODEL.bedrockData,
+        identifier: "hytale.local_humanoid",
+        bones: STEVE_MODEL.bedrockData!.bones.map(b => ({
+            ...b,
+            attachments: b.attachments?.map(a => a.name)
+        }))
+    },
+    animations: {
+        list: [{
+            name: "animation.humanoid.walk",
+            loop: true,
+            animation_length: 1.0,
+            bones: [
+                { bone_name: "leg_left", rotation: [{ time: "0.0", value: [30, 0, 0] }, { time: "0.5", value: [-30, 0, 0] }, { time: "1.0", value: [30, 0, 0] }] },
+                { bone_name: "leg_right", rotation: [{ time: "0.0", value: [-30, 0, 0] }, { time: "0.5", value: [30, 0, 0] }, { time: "1.0", value: [-30, 0, 0] }] },
+                { bone_name: "arm_left", rotation: [{ time: "0.0", value: [-25, 0, 0] }, { time: "0.5", value: [25, 0, 0] }, { time: "1.0", value: [-25, 0, 0] }] },
+                { bone_name: "arm_right", rotation: [{ time: "0.0", value: [25, 0, 0] }, { time: "0.5", value: [-25, 0, 0] }, { time: "1.0", value: [25, 0, 0] }] }
+            ]
+        }]
+    }
+});
+
+const firstInlineImage = (request: GenerationRequest) => {
+    for (const part of request.parts) {
+        if ('inlineData' in part) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+    return undefined;
+};
+
+const defaultResponse = (request: GenerationRequest): string => {
+    switch (request.task) {
+        case 'model':
+            return RECORDED_MODEL_RESPONSE;
+        case 'autorig': {
+            // Echo the input geometry unchanged: the hierarchy is already valid
+            const model = request.context as MinecraftModel | undefined;
+            return JSON.stringify({
+                response_text: "Offline auto-rig: hierarchy kept as-is (local provider).",
+                model_type: "ENTITY",
+                identifier: model?.identifier || "hytale.unknown",
+                bedrock_data: model?.bedrockData
+            });
+        }
+        case 'blockstate': {
+            const { identifier } = (request.context || {}) as { identifier?: string };
+            return JSON.stringify({
+                variants: [{ name: "", data: { model: identifier || "minecraft:block/stone" } }]
+            });
+        }
+        case 'texture': {
+            // Hand the UV layout back: deterministic and already correctly sized
+            const image = firstInlineImage(request);
+            if (!image) throw new Error("Local provider needs a reference image for textures.");
+            return image;
+        }
+    }
+};
+
+export const createLocalProvider = (options: LocalProviderOptions = {}): LocalProvider => {
+    const queue: ScriptedResponse[] = [...(options.script || [])];
+    const requests: GenerationRequest[] = [];
+
+    const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(createAbortError());
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        }, { once: true });
+    });
+
+    const respond = async (request: GenerationRequest): Promise<string> => {
+        requests.push(request);
+        if (options.latencyMs) await wait(options.latencyMs, request.signal);
+        if (request.signal?.aborted) throw createAbortError();
+
+        const scripted = queue.length > 0 ? queue.shift() : options.recordings?.[request.task];
+        if (scripted === undefined) return defaultResponse(request);
+        return typeof scripted === 'function' ? scripted(request) : scripted;
+    };
+
+    return {
+        id: 'local',
+        label: 'Local (offline)',
+        requests,
+        enqueue: (...responses) => { queue.push(...responses); },
+        generateText: respond,
+        generateImage: respond,
+        streamText: async (request, onChunk) => {
+            const full = await respond(request);
+            const chunkSize = options.streamChunkSize || 512;
+            for (let end = chunkSize; end < full.length + chunkSize; end += chunkSize) {
+                const text = full.substring(0, end);
+                // Yield between chunks so the UI can paint partial previews
+                await wait(options.latencyMs ? 16 : 0, request.signal);
+                onChunk(text, { receivedChars: text.length, outputTokens: Math.ceil(text.length / 4) });
+            }
+            return full;
+        }
+    };
+};
@@ -0,0 +1,428 @@
+import * as THREE from 'three';
+import { MinecraftModel, ModelBone, ModelCube } from '../types';
+import { HYTALE_NODE_LIMIT } from './nodeBudget';
+import { packUVs } from './textureMapper';
+
+// --- Mesh Voxelizer ---
+// Turns an arbitrary three.js scene (GLTF/OBJ/STL import) into blocky geometry:
+// triangles are rasterized into a voxel grid, closed interiors are filled, and
+// runs of equal voxels are greedily merged into as few boxes as the node
+// budget allows. One voxel is one model unit.
+
+export interface VoxelizeOptions {
+    resolution: number; // voxels along the longest side
+    bakeTexture: boolean; // paint voxel colours into a box-UV texture instead of per-cube colours
+    fillInterior: boolean;
+    maxNodes: number;
+}
+
+export const DEFAULT_VOXELIZE_OPTIONS: VoxelizeOptions = {
+    resolution: 32,
+    bakeTexture: false,
+    fillInterior: true,
+    maxNodes: HYTALE_NODE_LIMIT
+};
+
+export const VOXEL_RESOLUTIONS = [16, 24, 32, 48, 64];
+
+export interface VoxelizeResult {
+    model: MinecraftModel;
+    textureData?: string;
+    resolution: number; // may be lower than requested to fit the node budget
+}
+
+// Colour precision steps tried before giving up detail for the node budget
+const COLOR_LEVELS = [16, 8, 4, 2, 1];
+const MIN_RESOLUTION = 8;
+
+// --- Grid ---
+
+interface VoxelGrid {
+    dims: [number, number, number];
+    owner: Int16Array; // bone index + 1, 0 = empty
+    color: Uint32Array; // 0xRRGGBB
+}
+
+const createGrid = (dims: [number, number, number]): VoxelGrid => {
+    const size = dims[0] * dims[1] * dims[2];
+    return { dims, owner: new Int16Array(size), color: new Uint32Array(size) };
+};
+
+const cellIndex = (grid: VoxelGrid, x: number, y: number, z: number) =>
+    x + grid.dims[0] * (y + grid.dims[1] * z);
+
+// --- Colour Sampling ---
+
+interface TexturePixels { width: number; height: number; data: Uint8ClampedArray; }
+
+const readTexture = (texture: THREE.Texture, cache: Map<THREE.Texture, TexturePixels | null>): TexturePixels | null => {
+    if (cache.has(texture)) return cache.get(texture)!;
+    let pixels: TexturePixels | null = null;
+    const image = texture.image as CanvasImageSource & { width: number; height: number };
+    if (image && image.width && image.height && typeof document !== 'undefined') {
+        try {
+            const canvas = document.createElement('canvas');
+            canvas.width = image.width;
+            canvas.height = image.height;
+            const ctx = canvas.getContext('2d')!;
+            ctx.drawImage(image, 0, 0);
+            pixels = { width: image.width, height: image.height, data: ctx.getImageData(0, 0, image.width, image.height).data };
+        } catch (e) {
+            console.warn("Texture could not be read for voxel colours", e);
+        }
+    }
+    cache.set(texture, pixels);
+    return pixels;
+};
+
+// Colour at a barycentric point of a triangle: texture * vertex colour * material colour
+type SurfaceSampler = (indices: [number, number, number], bary: [number, number, number]) => THREE.Color;
+
+const createSampler = (
+    geometry: THREE.BufferGeometry,
+    material: THREE.Material,
+    textures: Map<THREE.Texture, TexturePixels | null>
+): SurfaceSampler => {
+    const base = (material as THREE.MeshStandardMaterial).color?.clone() || new THREE.Color(0xcccccc);
+    const colors = material.vertexColors ? geometry.getAttribute('color') : undefined;
+    const uvs = geometry.getAttribute('uv');
+    const map = (material as THREE.MeshStandardMaterial).map;
+    const pixels = map && uvs ? readTexture(map, textures) : null;
+    if (map) map.updateMatrix();
+
+    const uv = new THREE.Vector2();
+    const tmp = new THREE.Vector2();
+    return (indices, bary) => {
+        const out = base.clone();
+        if (colors) {
+            const c = [0, 1, 2].map(k => indices.reduce((acc, idx, i) => acc + colors.getComponent(idx, k) * bary[i], 0));
+            out.multiply(new THREE.Color(c[0], c[1], c[2]));
+        }
+        if (pixels && map && uvs) {
+            uv.set(0, 0);
+            indices.forEach((idx, i) => uv.add(tmp.set(uvs.getX(idx), uvs.getY(idx)).multiplyScalar(bary[i])));
+            map.transformUv(uv);
+            const px = Math.min(pixels.width - 1, Math.max(0, Math.floor(uv.x * pixels.width)));
+            const py = Math.min(pixels.height - 1, Math.max(0, Math.floor(uv.y * pixels.height)));
+            const o = (py * pixels.width + px) * 4;
+            // Texels are sRGB; material colours are linear
+            out.multiply(new THREE.Color().setRGB(pixels.data[o] / 255, pixels.data[o + 1] / 255, pixels.data[o + 2] / 255, THREE.SRGBColorSpace));
+        }
+        return out;
+    };
+};
+
+// --- Rasterization ---
+
+interface SourceBone {
+    name: string;
+    parent?: number;
+    pivot: THREE.Vector3; // world space
+}
+
+const sanitizeName = (name: string, fallback: string) =>
+    (name || fallback).toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || fallback;
+
+// Every node that leads to a mesh becomes a bone, so the source hierarchy survives
+const collectBones = (root: THREE.Object3D): { bones: SourceBone[]; meshBone: Map<THREE.Mesh, number> } => {
+    const bones: SourceBone[] = [];
+    const meshBone = new Map<THREE.Mesh, number>();
+    const used = new Set<string>();
+
+    const hasMesh = (node: THREE.Object3D): boolean => node instanceof THREE.Mesh || node.children.some(hasMesh);
+    const visit = (node: THREE.Object3D, parent: number | undefined) => {
+        if (!hasMesh(node)) return;
+        let name = sanitizeName(node.name, node instanceof THREE.Mesh ? 'mesh' : 'group');
+        for (let n = 2; used.has(name); n++) name = `${sanitizeName(node.name, 'node')}_${n}`;
+        used.add(name);
+        const index = bones.push({ name, parent, pivot: new THREE.Vector3().setFromMatrixPosition(node.matrixWorld) }) - 1;
+        if (node instanceof THREE.Mesh) meshBone.set(node, index);
+        node.children.forEach(child => visit(child, index));
+    };
+    visit(root, undefined);
+    return { bones, meshBone };
+};
+
+const rasterize = (
+    root: THREE.Object3D,
+    meshBone: Map<THREE.Mesh, number>,
+    toGrid: THREE.Matrix4,
+    grid: VoxelGrid
+) => {
+    const textures = new Map<THREE.Texture, TexturePixels | null>();
+    const [dx, dy, dz] = grid.dims;
+    const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3(), p = new THREE.Vector3();
+
+    root.traverse(node => {
+        if (!(node instanceof THREE.Mesh) || !node.geometry?.getAttribute('position')) return;
+        const geometry = node.geometry as THREE.BufferGeometry;
+        const positions = geometry.getAttribute('position');
+        const index = geometry.getIndex();
+        const triCount = (index ? index.count : positions.count) / 3;
+        const matrix = new THREE.Matrix4().multiplyMatrices(toGrid, node.matrixWorld);
+        const owner = meshBone.get(node)! + 1;
+        const materials = Array.isArray(node.material) ? node.material : [node.material];
+        const samplers = materials.map(material => createSampler(geometry, material, textures));
+        const samplerFor = (tri: number) => {
+            const group = geometry.groups.find(g => tri * 3 >= g.start && tri * 3 < g.start + g.count);
+            return samplers[group?.materialIndex ?? 0] || samplers[0];
+        };
+
+        for (let t = 0; t < triCount; t++) {
+            const ids = [0, 1, 2].map(k => index ? index.getX(t * 3 + k) : t * 3 + k) as [number, number, number];
+            a.fromBufferAttribute(positions, ids[0]).applyMatrix4(matrix);
+            b.fromBufferAttribute(positions, ids[1]).applyMatrix4(matrix);
+            c.fromBufferAttribute(positions, ids[2]).applyMatrix4(matrix);
+            const sample = samplerFor(t);
+
+            // Sample the triangle densely enough that no voxel it crosses is skipped
+            const steps = Math.max(1, Math.ceil(Math.max(a.distanceTo(b), b.distanceTo(c), c.distanceTo(a)) * 2));
+            for (let i = 0; i <= steps; i++) {
+                for (let j = 0; j <= steps - i; j++) {
+                    const u = i / steps, v = j / steps, w = 1 - u - v;
+                    p.set(0, 0, 0).addScaledVector(a, w).addScaledVector(b, u).addScaledVector(c, v);
+                    const x = Math.min(dx - 1, Math.max(0, Math.floor(p.x)));
+                    const y = Math.min(dy - 1, Math.max(0, Math.floor(p.y)));
+                    const z = Math.min(dz - 1, Math.max(0, Math.floor(p.z)));
+                    const cell = cellIndex(grid, x, y, z);
+                    if (grid.owner[cell]) continue;
+                    grid.owner[cell] = owner;
+                    grid.color[cell] = sample(ids, [w, u, v]).getHex(THREE.SRGBColorSpace);
+                }
+            }
+        }
+    });
+};
+
+// Flood the outside from the grid border; whatever stays unreached is enclosed
+const fillInterior = (grid: VoxelGrid) => {
+    const [dx, dy, dz] = grid.dims;
+    const outside = new Uint8Array(grid.owner.length);
+    const stack: number[] = [];
+    const push = (x: number, y: number, z: number) => {
+        if (x < 0 || y < 0 || z < 0 || x >= dx || y >= dy || z >= dz) return;
+        const cell = cellIndex(grid, x, y, z);
+        if (outside[cell] || grid.owner[cell]) return;
+        outside[cell] = 1;
+        stack.push(cell);
+    };
+    for (let x = 0; x < dx; x++) for (let y = 0; y < dy; y++) { push(x, y, 0); push(x, y, dz - 1); }
+    for (let x = 0; x < dx; x++) for (let z = 0; z < dz; z++) { push(x, 0, z); push(x, dy - 1, z); }
+    for (let y = 0; y < dy; y++) for (let z = 0; z < dz; z++) { push(0, y, z); push(dx - 1, y, z); }
+    while (stack.length) {
+        const cell = stack.pop()!;
+        const x = cell % dx, y = Math.floor(cell / dx) % dy, z = Math.floor(cell / (dx * dy));
+        push(x + 1, y, z); push(x - 1, y, z); push(x, y + 1, z); push(x, y - 1, z); push(x, y, z + 1); push(x, y, z - 1);
+    }
+
+    // Interior voxels take the owner and colour of the last shell voxel along X
+    for (let z = 0; z < dz; z++) for (let y = 0; y < dy; y++) {
+        let lastOwner = 0, lastColor = 0;
+        for (let x = 0; x < dx; x++) {
+            const cell = cellIndex(grid, x, y, z);
+            if (grid.owner[cell]) {
+                lastOwner = grid.owner[cell];
+                lastColor = grid.color[cell];
+            } else if (!outside[cell] && lastOwner) {
+                grid.owner[cell] = lastOwner;
+                grid.color[cell] = lastColor;
+            }
+        }
+    }
+};
+
+// --- Greedy Merge ---
+
+interface VoxelBox {
+    owner: number; // bone index + 1
+    min: [number, number, number];
+    size: [number, number, number];
+    color: number;
+}
+
+const quantize = (color: number, levels: number) => {
+    if (levels <= 1) return 0;
+    const step = 256 / levels;
+    return [16, 8, 0].reduce((acc, shift) => {
+        const q = Math.min(255, Math.floor(((color >> shift) & 0xff) / step) * step + step / 2);
+        return acc | (Math.round(q) << shift);
+    }, 0);
+};
+
+// Grows each box along X, then Y, then Z while every voxel shares its key
+const greedyMerge = (grid: VoxelGrid, levels: number): VoxelBox[] => {
+    const [dx, dy, dz] = grid.dims;
+    const used = new Uint8Array(grid.owner.length);
+    const keyAt = (cell: number) => grid.owner[cell] ? grid.owner[cell] * 0x1000000 + quantize(grid.color[cell], levels) : -1;
+    const boxes: VoxelBox[] = [];
+
+    for (let z = 0; z < dz; z++) for (let y = 0; y < dy; y++) for (let x = 0; x < dx; x++) {
+        const start = cellIndex(grid, x, y, z);
+        if (used[start] || !grid.owner[start]) continue;
+        const key = keyAt(start);
+        const free = (cx: number, cy: number, cz: number) => {
+            const cell = cellIndex(grid, cx, cy, cz);
+            return !used[cell] && keyAt(cell) === key;
+        };
+
+        let w = 1, h = 1, d = 1;
+        while (x + w < dx && free(x + w, y, z)) w++;
+        const rowFree = (cy: number, cz: number) => { for (let i = 0; i < w; i++) if (!free(x + i, cy, cz)) return false; return true; };
+        while (y + h < dy && rowFree(y + h, z)) h++;
+        const sliceFree = (cz: number) => { for (let j = 0; j < h; j++) if (!rowFree(y + j, cz)) return false; return true; };
+        while (z + d < dz && sliceFree(z + d)) d++;
+
+        let r = 0, g = 0, b = 0;
+        for (let k = 0; k < d; k++) for (let j = 0; j < h; j++) for (let i = 0; i < w; i++) {
+            const cell = cellIndex(grid, x + i, y + j, z + k);
+            used[cell] = 1;
+            r += (grid.color[cell] >> 16) & 0xff;
+            g += (grid.color[cell] >> 8) & 0xff;
+            b += grid.color[cell] & 0xff;
+        }
+        const n = w * h * d;
+        boxes.push({
+            owner: grid.owner[start],
+            min: [x, y, z],
+            size: [w, h, d],
+            color: (Math.round(r / n) << 16) | (Math.round(g / n) << 8) | Math.round(b / n)
+        });
+    }
+    return boxes;
+};
+
+// --- Texture Baking ---
+
+// Paints each box's outer voxels into its box-UV footprint (one pixel per voxel),
+// using the same face layout as the viewer and exporters.
+const bakeBoxTexture = (model: MinecraftModel, boxes: VoxelBox[][], grid: VoxelGrid): string | undefined => {
+    if (typeof document === 'undefined') return undefined;
+    const [texW, texH] = model.bedrockData!.texture_size;
+    const canvas = document.createElement('canvas');
+    canvas.width = texW;
+    canvas.height = texH;
+    const ctx = canvas.getContext('2d')!;
+    const image = ctx.createImageData(texW, texH);
+
+    const put = (px: number, py: number, color: number) => {
+        if (px < 0 || py < 0 || px >= texW || py >= texH) return;
+        const o = (py * texW + px) * 4;
+        image.data[o] = (color >> 16) & 0xff;
+        image.data[o + 1] = (color >> 8) & 0xff;
+        image.data[o + 2] = color & 0xff;
+        image.data[o + 3] = 255;
+    };
+
+    model.bedrockData!.bones.forEach((bone, boneIndex) => bone.cubes.forEach((cube, cubeIndex) => {
+        const box = boxes[boneIndex][cubeIndex];
+        const [u, v] = cube.uv!;
+        const [w, h, d] = box.size;
+        const [x0, y0, z0] = box.min;
+        const at = (x: number, y: number, z: number) => grid.color[cellIndex(grid, x0 + x, y0 + y, z0 + z)];
+        const face = (fu: number, fv: number, fw: number, fh: number, voxel: (i: number, j: number) => number) => {
+            for (let j = 0; j < fh; j++) for (let i = 0; i < fw; i++) put(fu + i, fv + j, voxel(i, j));
+        };
+        face(u, v + d, d, h, (i, j) => at(w - 1, h - 1 - j, d - 1 - i));         // +X
+        face(u + d + w, v + d, d, h, (i, j) => at(0, h - 1 - j, i));              // -X
+        face(u + d, v, w, d, (i, j) => at(i, h - 1, j));                          // top
+        face(u + d + w, v, w, d, (i, j) => at(i, 0, d - 1 - j));                  // bottom
+        face(u + d, v + d, w, h, (i, j) => at(i, h - 1 - j, d - 1));              // +Z
+        face(u + 2 * d + w, v + d, w, h, (i, j) => at(w - 1 - i, h - 1 - j, 0));  // -Z
+    }));
+
+    ctx.putImageData(image, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// --- Conversion ---
+
+const toHex = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+const buildModel = (
+    identifier: string,
+    sourceBones: SourceBone[],
+    boxes: VoxelBox[],
+    toGrid: THREE.Matrix4,
+    dims: [number, number, number],
+    bakeTexture: boolean
+): { model: MinecraftModel; boxesByBone: VoxelBox[][] } => {
+    // Grid voxel (x, y, z) sits at model (x - dx/2, y, z - dz/2): centred on X/Z, standing on Y = 0
+    const offset: [number, number, number] = [-Math.floor(dims[0] / 2), 0, -Math.floor(dims[2] / 2)];
+    const boxesByBone: VoxelBox[][] = sourceBones.map(() => []);
+    boxes.forEach(box => boxesByBone[box.owner - 1].push(box));
+
+    // Drop bones that ended up with no voxels and no bones below them
+    const keep = sourceBones.map((_, i) => boxesByBone[i].length > 0);
+    for (let i = sourceBones.length - 1; i >= 0; i--) {
+        if (keep[i] && sourceBones[i].parent !== undefined) keep[sourceBones[i].parent!] = true;
+    }
+
+    const round = (n: number) => Math.round(n * 1000) / 1000;
+    const bones: ModelBone[] = [];
+    const kept: VoxelBox[][] = [];
+    sourceBones.forEach((source, i) => {
+        if (!keep[i]) return;
+        const pivot = source.pivot.clone().applyMatrix4(toGrid).toArray().map((v, a) => round(v + offset[a])) as [number, number, number];
+        const cubes: ModelCube[] = boxesByBone[i].map(box => ({
+            origin: box.min.map((v, a) => v + offset[a]) as [number, number, number],
+            size: [...box.size] as [number, number, number],
+            ...(bakeTexture ? { uv: [0, 0] as [number, number] } : { color: toHex(box.color) })
+        }));
+        let parent = source.parent;
+        while (parent !== undefined && !keep[parent]) parent = sourceBones[parent].parent;
+        bones.push({ name: source.name, pivot, cubes, ...(parent !== undefined ? { parent: sourceBones[parent].name } : {}) });
+        kept.push(boxesByBone[i]);
+    });
+
+    return {
+        model: {
+            type: 'GENERIC',
+            loader: 'VANILLA',
+            identifier,
+            bedrockData: { format_version: "1.12.0", identifier, texture_size: [64, 64], bones }
+        },
+        boxesByBone: kept
+    };
+};
+
+export const voxelizeObject = (root: THREE.Object3D, identifier: string, options: Partial<VoxelizeOptions> = {}): VoxelizeResult => {
+    const opts = { ...DEFAULT_VOXELIZE_OPTIONS, ...options };
+    root.updateMatrixWorld(true);
+    const bounds = new THREE.Box3().setFromObject(root);
+    if (bounds.isEmpty()) throw new Error("The file contains no mesh geometry to convert.");
+
+    let { bones: sourceBones, meshBone } = collectBones(root);
+    // Too many source nodes to leave room for geometry: put every mesh on one bone
+    if (sourceBones.length > opts.maxNodes / 4) {
+        sourceBones = [{ name: 'root', pivot: new THREE.Vector3(bounds.getCenter(new THREE.Vector3()).x, bounds.min.y, bounds.getCenter(new THREE.Vector3()).z) }];
+        meshBone = new Map([...meshBone.keys()].map(mesh => [mesh, 0]));
+    }
+
+    const size = bounds.getSize(new THREE.Vector3());
+    const maxDim = Math.max(size.x, size.y, size.z) || 1;
+
+    for (let resolution = opts.resolution; ; resolution = Math.floor(resolution * 0.75)) {
+        const scale = resolution / maxDim;
+        const dims = [size.x, size.y, size.z].map(s => Math.max(1, Math.ceil(s * scale))) as [number, number, number];
+        const toGrid = new THREE.Matrix4().makeScale(scale, scale, scale)
+            .multiply(new THREE.Matrix4().makeTranslation(-bounds.min.x, -bounds.min.y, -bounds.min.z));
+
+        const grid = createGrid(dims);
+        rasterize(root, meshBone, toGrid, grid);
+        if (opts.fillInterior) fillInterior(grid);
+
+        // Give up colour precision first (baked textures keep colour anyway), then resolution
+        const levels = opts.bakeTexture ? [1] : COLOR_LEVELS;
+        for (const level of levels) {
+            const boxes = greedyMerge(grid, level);
+            const { model, boxesByBone } = buildModel(identifier, sourceBones, boxes, toGrid, dims, opts.bakeTexture);
+            const nodes = model.bedrockData!.bones.length + boxes.length;
+            if (nodes > opts.maxNodes && resolution > MIN_RESOLUTION) continue;
+
+            if (!opts.bakeTexture) return { model, resolution };
+            const packed = packUVs({ ...model, type: 'ENTITY' }, '16x');
+            const baked = { ...packed, type: model.type };
+            return { model: baked, textureData: bakeBoxTexture(baked, boxesByBone, grid), resolution };
+        }
+    }
+};
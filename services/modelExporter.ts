@@ -3,7 +3,9 @@ import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter';
 import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter';
 import { STLExporter } from 'three/examples/jsm/exporters/STLExporter';
 import JSZip from 'jszip';
-import { MinecraftModel, ModelCube, ModelBone, AnimationDefinition } from '../types';
+import { MinecraftModel, ModelCube, ModelBone, AnimationDefinition, AnimationChannel, AnimationBoneData } from '../types';
+import { toHytaleTextureLayout } from './faceUv';
+import { Vec3, getSortedKeyframes, getSortedEntries, getSegmentMode, bakeKeyframes } from './animationMath';
 
 const SCALE_FACTOR = 1 / 16; 
 
@@ -18,6 +20,49 @@ const eulerToQuaternion = (x: number, y: number, z: number) => {
     return { x: q.x, y: q.y, z: q.z, w: q.w };
 };
 
+// --- Hytale Animation Tracks ---
+
+const TICKS_PER_SECOND = 20;
+
+// .blockyanim keyframes are either "linear" or "smooth" (catmull-rom), so step
+// and bezier segments are baked into one linear keyframe per tick
+const buildHytaleTrack = (channel: AnimationChannel | undefined, toDelta: (v: Vec3) => object) => {
+    if (!channel) return [];
+    const keyframes = bakeKeyframes(getSortedKeyframes(channel), 1 / TICKS_PER_SECOND, ['linear', 'catmullrom']);
+    return keyframes.map((kf, i) => {
+        const next = keyframes[i + 1];
+        const mode = next ? getSegmentMode(kf, next) : kf.lerpMode;
+        return {
+            time: Math.round(kf.time * TICKS_PER_SECOND),
+            delta: toDelta(kf.value),
+            interpolationType: mode === 'catmullrom' ? 'smooth' : 'linear'
+        };
+    });
+};
+
+// Scale, visibility and UV offset of one cube node. Stretch scales about the
+// cube centre, so the centre is moved along with it to scale about the bone pivot.
+const buildHytaleShapeTracks = (cube: ModelCube, pivot: [number, number, number], boneData: AnimationBoneData) => {
+    if (!boneData.scale && !boneData.visible && !boneData.uv_offset) return undefined;
+    const off = cube.origin.map((o, a) => o + cube.size[a] / 2 - pivot[a]);
+
+    return {
+        position: buildHytaleTrack(boneData.scale, v => ({ x: off[0] * (v[0] - 1), y: off[1] * (v[1] - 1), z: off[2] * (v[2] - 1) })),
+        orientation: [],
+        shapeStretch: buildHytaleTrack(boneData.scale, v => ({ x: v[0], y: v[1], z: v[2] })),
+        shapeVisible: getSortedEntries(boneData.visible).map(kf => ({
+            time: Math.round(kf.time * TICKS_PER_SECOND),
+            delta: kf.value !== false,
+            interpolationType: "linear"
+        })),
+        shapeUvOffset: getSortedEntries(boneData.uv_offset).map(kf => ({
+            time: Math.round(kf.time * TICKS_PER_SECOND),
+            delta: { x: kf.value?.[0] || 0, y: kf.value?.[1] || 0 },
+            interpolationType: "linear"
+        }))
+    };
+};
+
 // --- Hytale Node Construction ---
 
 interface HytaleNode {
@@ -32,31 +77,11 @@ interface HytaleNode {
 let nodeIdCounter = 0;
 const generateId = () => (++nodeIdCounter).toString();
 
-const getTextureLayout = (cube: ModelCube, textureWidth: number, textureHeight: number) => {
-    const [u, v] = cube.uv || [0, 0];
-    const [w, h, d] = cube.size;
-    
-    // Using standard mapping logic
-    const rw = Math.ceil(w);
-    const rh = Math.ceil(h);
-    const rd = Math.ceil(d);
-
-    // This mapping matches standard "Box" projection in Blockbench
-    return {
-        front: { offset: { x: u + rd, y: v + rd }, mirror: { x: false, y: false }, angle: 0 },
-        back: { offset: { x: u + rd + rw + rd, y: v + rd }, mirror: { x: false, y: false }, angle: 0 },
-        left: { offset: { x: u + rd + rw, y: v + rd }, mirror: { x: false, y: false }, angle: 0 },
-        right: { offset: { x: u, y: v + rd }, mirror: { x: false, y: false }, angle: 0 },
-        top: { offset: { x: u + rd, y: v }, mirror: { x: false, y: false }, angle: 0 },
-        bottom: { offset: { x: u + rd + rw, y: v }, mirror: { x: false, y: false }, angle: 0 },
-    };
-};
-
 const buildHytaleNodeTree = (
     bones: ModelBone[], 
     parentId: string | undefined, 
     parentPivot: [number, number, number],
-    textureSize: [number, number]
+    uvScale: number = 1
 ): HytaleNode[] => {
     const nodes: HytaleNode[] = [];
     
@@ -127,7 +152,7 @@ const buildHytaleNodeTree = (
                         settings: {
                             size: { x: w, y: h, z: d }
                         },
-                        textureLayout: getTextureLayout(cube, textureSize[0], textureSize[1]),
+                        textureLayout: toHytaleTextureLayout(cube, uvScale),
                         unwrapMode: "custom",
                         visible: true,
                         doubleSided: false,
@@ -174,7 +199,7 @@ const buildHytaleNodeTree = (
         }
 
         // 4. Recursion
-        const childrenNodes = buildHytaleNodeTree(bones, bone.name, bone.pivot || [0,0,0], textureSize);
+        const childrenNodes = buildHytaleNodeTree(bones, bone.name, bone.pivot || [0,0,0], uvScale);
         boneNode.children.push(...childrenNodes);
 
         nodes.push(boneNode);
@@ -185,7 +210,16 @@ const buildHytaleNodeTree = (
 
 // --- Export Functions ---
 
-const downloadBlob = (blob: Blob, filename: string) => {
+// crypto.randomUUID only exists in secure contexts, e.g. not on a LAN dev server over http
+export const newUuid = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+            const r = Math.random() * 16 | 0;
+            return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+        });
+
+export const downloadBlob = (blob: Blob, filename: string) => {
     const link = document.createElement('a');
     link.href = URL.createObjectURL(blob);
     link.download = filename;
@@ -197,7 +231,7 @@ const downloadBlob = (blob: Blob, filename: string) => {
     }, 100);
 };
 
-export const exportHytaleModel = async (model: MinecraftModel, textureData?: string | null) => {
+export const exportHytaleModel = async (model: MinecraftModel, textureData?: string | null, uvScale: number = 1) => {
     if (!model.bedrockData) {
         alert("Model data is missing.");
         return;
@@ -209,16 +243,13 @@ export const exportHytaleModel = async (model: MinecraftModel, textureData?: str
 
     nodeIdCounter = 0; // Reset ID counter
     const filename = (model.identifier || "hytale_model").replace(/[:/]/g, '_');
-    
-    // Safety check for texture size
-    const textureSize = model.bedrockData.texture_size || [64, 64];
 
     // --- 1. Model Geometry (.blockymodel) ---
     const rootNodes = buildHytaleNodeTree(
         model.bedrockData.bones, 
         undefined, 
         [0, 0, 0], 
-        textureSize
+        uvScale
     );
 
     const blockyModel = {
@@ -239,7 +270,7 @@ export const exportHytaleModel = async (model: MinecraftModel, textureData?: str
     if (model.animations && Object.keys(model.animations).length > 0) {
         Object.entries(model.animations).forEach(([animName, animDef]) => {
             const hytaleAnim: any = {
-                duration: Math.ceil((animDef.animation_length || 1.0) * 20), // Convert seconds to ticks (approx 20 fps)
+                duration: Math.ceil((animDef.animation_length || 1.0) * TICKS_PER_SECOND),
                 holdLastKeyframe: !!animDef.loop,
                 nodeAnimations: {},
                 formatVersion: 1
@@ -249,45 +280,22 @@ export const exportHytaleModel = async (model: MinecraftModel, textureData?: str
                 Object.entries(animDef.bones).forEach(([boneName, boneData]) => {
                     const tracks: any = {};
                     
-                    // Position
-                    if (boneData.position) {
-                        const frames = Object.entries(boneData.position).map(([timeStr, val]) => {
-                            const time = parseFloat(timeStr);
-                            const v = Array.isArray(val) ? val : (val as any).post;
-                            return {
-                                time: Math.ceil(time * 20), // Seconds to frames
-                                delta: { x: v?.[0] || 0, y: v?.[1] || 0, z: v?.[2] || 0 },
-                                interpolationType: "smooth"
-                            };
-                        });
-                        tracks.position = frames;
-                    } else {
-                        tracks.position = [];
-                    }
+                    tracks.position = buildHytaleTrack(boneData.position, v => ({ x: v[0], y: v[1], z: v[2] }));
+                    tracks.orientation = buildHytaleTrack(boneData.rotation, v => eulerToQuaternion(v[0], v[1], v[2]));
 
-                    // Rotation/Orientation
-                    if (boneData.rotation) {
-                        const frames = Object.entries(boneData.rotation).map(([timeStr, val]) => {
-                            const time = parseFloat(timeStr);
-                            const v = Array.isArray(val) ? val : (val as any).post;
-                            const q = eulerToQuaternion(v?.[0] || 0, v?.[1] || 0, v?.[2] || 0);
-                            return {
-                                time: Math.ceil(time * 20),
-                                delta: { x: q.x, y: q.y, z: q.z, w: q.w },
-                                interpolationType: "smooth"
-                            };
-                        });
-                        tracks.orientation = frames;
-                    } else {
-                        tracks.orientation = [];
-                    }
-                    
                     // Defaults
                     tracks.shapeStretch = [];
                     tracks.shapeVisible = [];
                     tracks.shapeUvOffset = [];
 
                     hytaleAnim.nodeAnimations[boneName] = tracks;
+
+                    // Bone nodes carry no shape, so shape tracks go on the cube nodes
+                    const bone = model.bedrockData?.bones.find(b => b.name === boneName);
+                    bone?.cubes.forEach((cube, idx) => {
+                        const shapeTracks = buildHytaleShapeTracks(cube, bone.pivot || [0, 0, 0], boneData);
+                        if (shapeTracks) hytaleAnim.nodeAnimations[`${boneName}_shape_${idx}`] = shapeTracks;
+                    });
                 });
             }
 
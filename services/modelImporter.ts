@@ -2,17 +2,35 @@ import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
 import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader';
 import { STLLoader } from 'three/examples/jsm/loaders/STLLoader';
-import { MinecraftModel, ModelBone, ModelCube } from '../types';
-
-// Scale factor: Standard Minecraft Player is 32 pixels high (2 blocks).
-// We try to normalize imported meshes to fit roughly within this height.
-const TARGET_SIZE = 32; 
-const MAX_APPROXIMATION_CUBES = 100; // Limit generated cubes for logic layer to prevent lag
+import JSZip from 'jszip';
+import { MinecraftModel, ModelBone, ModelCube, AnimationDefinition, AnimationChannel, AnimationBoneData, KeyframeValue, VisibilityChannel, UvOffsetChannel } from '../types';
+import { convertBlockbenchToModel } from './blockbenchFormat';
+import { voxelizeObject, VoxelizeOptions } from './meshVoxelizer';
+import { fromHytaleTextureLayout } from './faceUv';
+
+// --- Helper: Hytale Orientation ---
+// The exporter builds quaternions from 'ZYX' Euler angles, so invert with the same order
+
+const quaternionToEuler = (o: any): [number, number, number] => {
+    const q = new THREE.Quaternion(
+        o?.x || 0,
+        o?.y || 0,
+        o?.z || 0,
+        o?.w !== undefined ? o.w : 1
+    );
+    const euler = new THREE.Euler().setFromQuaternion(q, 'ZYX');
+    return [
+        THREE.MathUtils.radToDeg(euler.x),
+        THREE.MathUtils.radToDeg(euler.y),
+        THREE.MathUtils.radToDeg(euler.z)
+    ];
+};
 
 // --- Helper: Convert Hytale/Blockbench to Internal Format ---
 
 const convertHytaleToBedrock = (hytaleData: any, filename: string): MinecraftModel => {
     const bones: ModelBone[] = [];
+    const uvScale = deriveHytaleUvScale(hytaleData) || 1;
     
     // Helper to find a bone by name
     const getBone = (name: string) => bones.find(b => b.name === name);
@@ -53,39 +71,18 @@ const convertHytaleToBedrock = (hytaleData: any, filename: string): MinecraftMod
                  ];
 
                  // Rotation: Convert Quat to Euler
-                 const q = new THREE.Quaternion(
-                    node.orientation?.x || 0, 
-                    node.orientation?.y || 0, 
-                    node.orientation?.z || 0, 
-                    node.orientation?.w !== undefined ? node.orientation.w : 1
-                 );
-                 const euler = new THREE.Euler().setFromQuaternion(q, 'ZYX');
-                 const rot: [number, number, number] = [
-                     THREE.MathUtils.radToDeg(euler.x),
-                     THREE.MathUtils.radToDeg(euler.y),
-                     THREE.MathUtils.radToDeg(euler.z)
-                 ];
+                 const rot = quaternionToEuler(node.orientation);
 
-                 // Extract UV
-                 let uv: [number, number] | undefined = undefined;
-                 if (node.shape.textureLayout?.right?.offset) {
-                     // Reverse engineer exporter logic: right.offset.x = u
-                     // top.offset.y = v
-                     const layout = node.shape.textureLayout;
-                     uv = [
-                         layout.right?.offset?.x || 0,
-                         layout.top?.offset?.y || 0
-                     ];
-                 }
-
-                 parentBone.cubes.push({
+                 const cube: ModelCube = {
                      origin: origin,
                      size: [size.x, size.y, size.z],
                      rotation: rot, 
-                     uv: uv,
                      color: "#FFFFFF",
                      pivot: [currentPivot.x, currentPivot.y, currentPivot.z] // Java/Bedrock cubes rotate around a pivot. Here it's the node pos.
-                 });
+                 };
+                 // Plain box nets come back as box UV; mirrored, turned or scattered faces as per-face rects
+                 Object.assign(cube, fromHytaleTextureLayout(node.shape.textureLayout, cube, uvScale));
+                 parentBone.cubes.push(cube);
                  return; // Stop recursion for leaves
              }
         }
@@ -104,18 +101,7 @@ const convertHytaleToBedrock = (hytaleData: any, filename: string): MinecraftMod
         }
 
         // 5. Create Bone (Container / Group)
-        const q = new THREE.Quaternion(
-            node.orientation?.x || 0, 
-            node.orientation?.y || 0, 
-            node.orientation?.z || 0, 
-            node.orientation?.w !== undefined ? node.orientation.w : 1
-        );
-        const euler = new THREE.Euler().setFromQuaternion(q, 'ZYX');
-        const rot: [number, number, number] = [
-            THREE.MathUtils.radToDeg(euler.x),
-            THREE.MathUtils.radToDeg(euler.y),
-            THREE.MathUtils.radToDeg(euler.z)
-        ];
+        const rot = quaternionToEuler(node.orientation);
 
         const newBone: ModelBone = {
             name: node.name,
@@ -162,6 +148,198 @@ const convertHytaleToBedrock = (hytaleData: any, filename: string): MinecraftMod
 };
 
 
+// --- Hytale UV Scale ---
+// The exporter lays out each box as right | front | left | back with face
+// widths of ceil(size * uvScale), so the gap between the right and top
+// offsets is the scaled depth. ceil() only ever rounds up, so the smallest
+// ratio across all boxes is the real scale.
+
+const deriveHytaleUvScale = (hytaleData: any): number | undefined => {
+    let scale: number | undefined;
+    const visit = (node: any) => {
+        const layout = node.shape?.textureLayout;
+        const depth = node.shape?.settings?.size?.z;
+        if (node.shape?.type === 'box' && layout?.right?.offset && layout?.top?.offset && depth > 0) {
+            const ratio = (layout.top.offset.x - layout.right.offset.x) / depth;
+            if (ratio > 0 && (scale === undefined || ratio < scale)) scale = ratio;
+        }
+        (node.children || []).forEach(visit);
+    };
+    (hytaleData.nodes || []).forEach(visit);
+    return scale;
+};
+
+// --- Hytale Animations (.blockyanim) ---
+
+const TICKS_PER_SECOND = 20;
+
+const formatKeyframeTime = (seconds: number) =>
+    Number.isInteger(seconds) ? seconds.toFixed(1) : String(Number(seconds.toFixed(4)));
+
+// "smooth" is Hytale's catmull-rom; anything else plays back linearly
+const withInterpolation = (value: [number, number, number], frame: any): KeyframeValue =>
+    frame.interpolationType === 'smooth' ? { post: value, lerp_mode: 'catmullrom' } : value;
+
+export const convertBlockyAnimToAnimation = (anim: any): AnimationDefinition => {
+    const bones: NonNullable<AnimationDefinition['bones']> = {};
+
+    const keyTime = (frame: any) => formatKeyframeTime((frame.time || 0) / TICKS_PER_SECOND);
+
+    Object.entries(anim.nodeAnimations || {}).forEach(([nodeName, tracks]: [string, any]) => {
+        // The exporter puts shape tracks on "<bone>_shape_<n>" cube nodes; fold them back onto the bone
+        const shapeOf = nodeName.match(/^(.+)_shape_\d+$/)?.[1];
+        const boneData: AnimationBoneData = bones[shapeOf || nodeName] || {};
+
+        if (!shapeOf) {
+            const position: AnimationChannel = {};
+            (tracks.position || []).forEach((frame: any) => {
+                const d = frame.delta || {};
+                position[keyTime(frame)] = withInterpolation([d.x || 0, d.y || 0, d.z || 0], frame);
+            });
+
+            const rotation: AnimationChannel = {};
+            (tracks.orientation || []).forEach((frame: any) => {
+                rotation[keyTime(frame)] = withInterpolation(quaternionToEuler(frame.delta), frame);
+            });
+
+            if (Object.keys(position).length > 0) boneData.position = position;
+            if (Object.keys(rotation).length > 0) boneData.rotation = rotation;
+        }
+
+        // Every cube of a bone gets the same shape tracks, so the first one wins
+        if (!boneData.scale && tracks.shapeStretch?.length) {
+            const scale: AnimationChannel = {};
+            tracks.shapeStretch.forEach((frame: any) => {
+                const d = frame.delta || {};
+                scale[keyTime(frame)] = withInterpolation([d.x ?? 1, d.y ?? 1, d.z ?? 1], frame);
+            });
+            boneData.scale = scale;
+        }
+        if (!boneData.visible && tracks.shapeVisible?.length) {
+            const visible: VisibilityChannel = {};
+            tracks.shapeVisible.forEach((frame: any) => { visible[keyTime(frame)] = frame.delta !== false; });
+            boneData.visible = visible;
+        }
+        if (!boneData.uv_offset && tracks.shapeUvOffset?.length) {
+            const uvOffset: UvOffsetChannel = {};
+            tracks.shapeUvOffset.forEach((frame: any) => { uvOffset[keyTime(frame)] = [frame.delta?.x || 0, frame.delta?.y || 0]; });
+            boneData.uv_offset = uvOffset;
+        }
+
+        if (Object.keys(boneData).length > 0) bones[shapeOf || nodeName] = boneData;
+    });
+
+    return {
+        // The exporter writes loop as holdLastKeyframe
+        loop: !!anim.holdLastKeyframe,
+        animation_length: (anim.duration || TICKS_PER_SECOND) / TICKS_PER_SECOND,
+        bones
+    };
+};
+
+// --- Hytale Zip (as written by exportHytaleModel) ---
+
+export interface ImportedModel {
+    model: MinecraftModel;
+    textureData?: string;
+    uvScale?: number;
+    resolution?: number; // mesh imports: voxels along the longest side, may be lower than requested
+}
+
+const baseName = (path: string) => path.split('/').pop() || path;
+
+// Width and height live in the IHDR chunk right after the 8-byte signature
+const readPngSize = (bytes: Uint8Array): [number, number] | undefined => {
+    if (bytes.length < 24 || bytes[1] !== 0x50 || bytes[2] !== 0x4E || bytes[3] !== 0x47) return undefined;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return [view.getUint32(16), view.getUint32(20)];
+};
+
+const importHytaleZip = async (file: File): Promise<ImportedModel> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(await file.arrayBuffer());
+    } catch (e: any) {
+        throw new Error(`Failed to read zip: ${e.message}`);
+    }
+
+    const entries = Object.values(zip.files).filter(f => !f.dir);
+    const modelEntry = entries.find(f => f.name.toLowerCase().endsWith('.blockymodel'));
+    if (!modelEntry) {
+        throw new Error("Zip does not contain a .blockymodel file.");
+    }
+
+    let hytaleData: any;
+    try {
+        hytaleData = JSON.parse(await modelEntry.async('string'));
+    } catch (e: any) {
+        throw new Error(`Failed to parse ${baseName(modelEntry.name)}: ${e.message}`);
+    }
+
+    const modelName = baseName(modelEntry.name).replace(/\.blockymodel$/i, '');
+    const model = convertHytaleToBedrock(hytaleData, modelName);
+    const uvScale = deriveHytaleUvScale(hytaleData);
+
+    // Animations
+    const animEntries = entries.filter(f => f.name.toLowerCase().endsWith('.blockyanim'));
+    if (animEntries.length > 0) {
+        model.animations = {};
+        for (const entry of animEntries) {
+            const animName = baseName(entry.name).replace(/\.blockyanim$/i, '');
+            try {
+                model.animations[animName] = convertBlockyAnimToAnimation(JSON.parse(await entry.async('string')));
+            } catch (e) {
+                console.warn(`Skipping unreadable animation ${entry.name}`, e);
+            }
+        }
+    }
+
+    // Texture: prefer the one named after the model
+    const pngEntries = entries.filter(f => f.name.toLowerCase().endsWith('.png'));
+    const textureEntry = pngEntries.find(f => baseName(f.name).toLowerCase() === `${modelName.toLowerCase()}.png`) || pngEntries[0];
+    let textureData: string | undefined;
+    if (textureEntry) {
+        const bytes = await textureEntry.async('uint8array');
+        const size = readPngSize(bytes);
+        if (size && model.bedrockData) {
+            model.bedrockData.texture_size = size;
+        }
+        textureData = `data:image/png;base64,${await textureEntry.async('base64')}`;
+    }
+
+    return { model, textureData, uvScale };
+};
+
+// Entry point for the Import button: single files resolve to a model, bundles
+// may also carry a texture and the UV scale it was painted at
+export const importModelFile = async (file: File, meshOptions: Partial<VoxelizeOptions> = {}): Promise<ImportedModel> => {
+    if (isMeshFileName(file.name)) {
+        return importMeshFile(file, meshOptions);
+    }
+    if (file.name.toLowerCase().trim().endsWith('.zip')) {
+        return importHytaleZip(file);
+    }
+    if (file.name.toLowerCase().trim().endsWith('.bbmodel')) {
+        let json: any;
+        try {
+            json = JSON.parse(await file.text());
+        } catch (e: any) {
+            throw new Error(`Failed to parse .bbmodel JSON: ${e.message}`);
+        }
+        return convertBlockbenchToModel(json, file.name);
+    }
+    if (file.name.toLowerCase().trim().endsWith('.blockymodel')) {
+        let json: any;
+        try {
+            json = JSON.parse(await file.text());
+        } catch (e: any) {
+            throw new Error(`Failed to parse .blockymodel JSON: ${e.message}`);
+        }
+        return { model: convertHytaleToBedrock(json, file.name.toLowerCase().trim()), uvScale: deriveHytaleUvScale(json) };
+    }
+    return { model: await parseModelFile(file) };
+};
+
 export const parseModelFile = async (file: File): Promise<MinecraftModel> => {
     const filename = file.name.toLowerCase().trim();
     const mimeType = file.type;
@@ -208,148 +386,53 @@ export const parseModelFile = async (file: File): Promise<MinecraftModel> => {
         }
     }
 
-    // 2. 3D Formats (GLTF, OBJ, STL) -> Generic Model
-    let group: THREE.Group = new THREE.Group();
-    
-    const url = URL.createObjectURL(file); 
-    let format: 'gltf' | 'glb' | 'obj' | 'stl' | undefined;
-
-    // Robust detection using extension OR mime type
-    if (filename.endsWith('.gltf') || mimeType.includes('gltf') || mimeType.includes('json')) {
-        format = 'gltf';
-    } 
-    if (filename.endsWith('.glb') || mimeType.includes('glb') || mimeType.includes('octet-stream')) {
-        // Octet-stream is generic, but often used for binary files like GLB/STL
-        if (filename.endsWith('.glb')) format = 'glb';
-    }
-    if (filename.endsWith('.obj') || mimeType.includes('wavefront') || mimeType.includes('obj')) {
-        format = 'obj';
-    }
-    if (filename.endsWith('.stl') || mimeType.includes('stl')) {
-        format = 'stl';
-    }
+    // 2. 3D Formats (GLTF, OBJ, STL) -> voxelized Generic Model
+    return (await importMeshFile(file)).model;
+};
+
+type MeshFormat = 'gltf' | 'glb' | 'obj' | 'stl';
+
+const detectMeshFormat = (filename: string, mimeType: string): MeshFormat | undefined => {
+    // Extension first; mime types for these formats are unreliable
+    if (filename.endsWith('.gltf')) return 'gltf';
+    if (filename.endsWith('.glb')) return 'glb';
+    if (filename.endsWith('.obj')) return 'obj';
+    if (filename.endsWith('.stl')) return 'stl';
+    if (mimeType.includes('gltf') || mimeType.includes('json')) return 'gltf';
+    if (mimeType.includes('wavefront') || mimeType.includes('obj')) return 'obj';
+    if (mimeType.includes('stl')) return 'stl';
+    return undefined;
+};
+
+export const isMeshFileName = (name: string) => /\.(gltf|glb|obj|stl)$/i.test(name.trim());
 
+// Loads a polygon mesh and converts it to blocky geometry with the voxelizer
+export const importMeshFile = async (file: File, options: Partial<VoxelizeOptions> = {}): Promise<ImportedModel> => {
+    const filename = file.name.toLowerCase().trim();
+    const format = detectMeshFormat(filename, file.type);
+    if (!format) throw new Error(`Unsupported format: ${file.name} (${file.type})`);
+
+    const url = URL.createObjectURL(file);
+    let loadedObject: THREE.Object3D;
     try {
-        let loadedObject: THREE.Object3D | null = null;
         if (format === 'gltf' || format === 'glb') {
-            const loader = new GLTFLoader();
-            const gltf = await loader.loadAsync(url);
-            loadedObject = gltf.scene;
+            loadedObject = (await new GLTFLoader().loadAsync(url)).scene;
         } else if (format === 'obj') {
-            const loader = new OBJLoader();
-            loadedObject = await loader.loadAsync(url);
-        } else if (format === 'stl') {
-            const loader = new STLLoader();
-            const geom = await loader.loadAsync(url);
-            loadedObject = new THREE.Mesh(geom, new THREE.MeshStandardMaterial());
+            loadedObject = await new OBJLoader().loadAsync(url);
         } else {
-            // Last ditch attempt: check extension if mime failed
-            if (filename.endsWith('.gltf')) { format = 'gltf'; }
-            else if (filename.endsWith('.glb')) { format = 'glb'; }
-            else if (filename.endsWith('.obj')) { format = 'obj'; }
-            else if (filename.endsWith('.stl')) { format = 'stl'; }
-            else throw new Error(`Unsupported format: ${file.name} (${file.type})`);
-        }
-
-        if (loadedObject) {
-            // Fix Rotation matches Viewer3D logic
-            // For OBJ and STL, we only rotate STL (Z-up standard).
-            // We assume OBJ is Y-up to avoid flipping Blockbench/Minecraft models.
-            if (format === 'stl') {
-                loadedObject.rotation.x = -Math.PI / 2;
-                loadedObject.updateMatrixWorld();
-            }
-            group.add(loadedObject);
+            const geom = await new STLLoader().loadAsync(url);
+            // STL has no materials; keep the colours if the file carried any
+            loadedObject = new THREE.Mesh(geom, new THREE.MeshStandardMaterial({ vertexColors: !!geom.getAttribute('color') }));
+            // STL is Z-up; OBJ is assumed Y-up to avoid flipping Blockbench/Minecraft exports
+            loadedObject.rotation.x = -Math.PI / 2;
         }
-
     } catch (e: any) {
-        URL.revokeObjectURL(url); // Revoke if load failed
         throw new Error(`Import failed: ${e.message}`);
+    } finally {
+        URL.revokeObjectURL(url);
     }
 
-    // Convert to internal structure for Sidebar/AI context (Approximation)
-    const model = convertThreeGroupToModel(group, file.name);
-    
-    // Attach source for high-fidelity rendering
-    model.sourceBlobUrl = url;
-    model.sourceFormat = format;
-
-    return model;
+    const identifier = filename.replace(/\./g, '_');
+    const { model, textureData, resolution } = voxelizeObject(loadedObject, identifier, options);
+    return { model, textureData, uvScale: textureData ? 1 : undefined, resolution };
 };
-
-// Convert ThreeJS Scene Graph to Minecraft Bones/Cubes
-const convertThreeGroupToModel = (group: THREE.Group, filename: string): MinecraftModel => {
-    // 1. Normalize Scale
-    const box = new THREE.Box3().setFromObject(group);
-    const size = new THREE.Vector3();
-    box.getSize(size);
-    const maxDim = Math.max(size.x, size.y, size.z);
-    const scale = maxDim > 0 ? (TARGET_SIZE / maxDim) : 1;
-    
-    const rootBone: ModelBone = {
-        name: "root",
-        pivot: [0, 0, 0],
-        cubes: []
-    };
-
-    const bones: ModelBone[] = [rootBone];
-    let cubeCount = 0;
-
-    // 2. Traverse and convert Meshes to Cubes (Approx)
-    group.traverse((child) => {
-        if (child instanceof THREE.Mesh && cubeCount < MAX_APPROXIMATION_CUBES) {
-            // Apply normalization scale
-            const mBox = new THREE.Box3().setFromObject(child);
-            const mSize = new THREE.Vector3();
-            mBox.getSize(mSize);
-            const mCenter = new THREE.Vector3();
-            mBox.getCenter(mCenter);
-
-            // Scale to MC units
-            const w = Math.max(1, mSize.x * scale);
-            const h = Math.max(1, mSize.y * scale);
-            const d = Math.max(1, mSize.z * scale);
-            
-            const cx = (mCenter.x - box.getCenter(new THREE.Vector3()).x) * scale;
-            const cy = (mCenter.y - box.min.y) * scale; 
-            const cz = (mCenter.z - box.getCenter(new THREE.Vector3()).z) * scale;
-
-            const origin: [number, number, number] = [
-                cx - w/2,
-                cy,
-                cz - d/2
-            ];
-
-            const cube: ModelCube = {
-                origin: origin,
-                size: [w, h, d],
-                color: "#" + new THREE.Color().setHex(Math.random() * 0xffffff).getHexString(),
-                rotation: [0,0,0] 
-            };
-
-            rootBone.cubes.push(cube);
-            cubeCount++;
-        }
-    });
-
-    if (cubeCount === 0) {
-        // Fallback cube if no meshes found or conversion failed
-        rootBone.cubes.push({
-            origin: [-8, 0, -8],
-            size: [16, 16, 16],
-            color: "#888888"
-        });
-    }
-
-    return {
-        type: 'GENERIC',
-        loader: 'VANILLA', 
-        identifier: filename.replace(/\./g, '_'),
-        bedrockData: {
-            format_version: "1.12.0",
-            identifier: filename.replace(/\./g, '_'),
-            texture_size: [64, 64],
-            bones: bones
-        }
-    };
-};
\ No newline at end of file
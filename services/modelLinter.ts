@@ -0,0 +1,426 @@
+import * as THREE from 'three';
+import { MinecraftModel, ModelBone, ModelCube, CubeFaceName, CubeFaceUV, AnimationChannel, KeyframeValue } from '../types';
+import { HYTALE_NODE_LIMIT, countModelNodes, optimizeNodeBudget } from './nodeBudget';
+import { TextureDensity, UvRect, getBoxUVRects, packUVLayout, rectsOverlap } from './textureMapper';
+import { FaceRotation, getFaceRect } from './faceUv';
+import { uniqueBoneName } from './hierarchyEditor';
+import { detectRig } from './proceduralAnimation';
+
+// --- Model Linter ---
+// Rule-based checks over a finished model, as opposed to modelValidator which
+// guards the shape of raw AI output. Every diagnostic points at a bone (and
+// cube) so the UI can select it, and carries a quick-fix when one is safe.
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+    | 'node_limit'
+    | 'duplicate_name'
+    | 'missing_parent'
+    | 'cyclic_parent'
+    | 'degenerate_cube'
+    | 'floating_cube'
+    | 'facing_positive_z'
+    | 'attachment_outside'
+    | 'unknown_animation_bone'
+    | 'uv_out_of_bounds'
+    | 'uv_overlap';
+
+export interface LintFix {
+    label: string;
+    apply: (model: MinecraftModel) => MinecraftModel;
+    // Set when the app's own UV packer should run instead, since it also pads the texture
+    repacksUVs?: boolean;
+}
+
+export interface LintDiagnostic {
+    rule: LintRule;
+    severity: LintSeverity;
+    message: string;
+    boneIndex?: number;
+    cubeIndex?: number;
+    fix?: LintFix;
+}
+
+export interface LintOptions {
+    uvScale?: number; // texture pixels per model unit, as in the viewer
+    density?: TextureDensity;
+}
+
+type Vec3 = [number, number, number];
+
+// How far apart (in units) two cubes or an attachment and a cube may be and still count as touching
+const CONTACT_TOLERANCE = 0.05;
+const ATTACHMENT_TOLERANCE = 1;
+
+// --- Helpers ---
+
+const updateBones = (model: MinecraftModel, edit: (bones: ModelBone[]) => ModelBone[]): MinecraftModel => ({
+    ...model,
+    bedrockData: { ...model.bedrockData!, bones: edit([...model.bedrockData!.bones]) }
+});
+
+const updateBone = (model: MinecraftModel, index: number, edit: (bone: ModelBone) => ModelBone) =>
+    updateBones(model, bones => { bones[index] = edit(bones[index]); return bones; });
+
+interface Box { min: Vec3; max: Vec3; }
+
+const cubeBox = (cube: ModelCube): Box => {
+    const inflate = cube.inflate || 0;
+    const a = cube.origin.map(o => o - inflate);
+    const b = cube.origin.map((o, i) => o + cube.size[i] + inflate);
+    return {
+        min: a.map((v, i) => Math.min(v, b[i])) as Vec3,
+        max: a.map((v, i) => Math.max(v, b[i])) as Vec3
+    };
+};
+
+const boxesTouch = (a: Box, b: Box, tolerance: number) =>
+    [0, 1, 2].every(i => a.min[i] <= b.max[i] + tolerance && b.min[i] <= a.max[i] + tolerance);
+
+const distanceToBox = (p: number[], box: Box) =>
+    Math.hypot(...[0, 1, 2].map(i => Math.max(box.min[i] - p[i], 0, p[i] - box.max[i])));
+
+// --- Structure ---
+
+const checkStructure = (model: MinecraftModel, out: LintDiagnostic[]) => {
+    const bones = model.bedrockData!.bones;
+    const nodes = countModelNodes(model);
+    if (nodes.total > HYTALE_NODE_LIMIT) {
+        out.push({
+            rule: 'node_limit', severity: 'error',
+            message: `${nodes.total} nodes (${nodes.bones} bones + ${nodes.cubes} cubes); Hytale allows ${HYTALE_NODE_LIMIT}.`,
+            fix: { label: 'Optimize nodes', apply: m => optimizeNodeBudget(m).model }
+        });
+    }
+
+    const seen = new Map<string, number>();
+    bones.forEach((bone, boneIndex) => {
+        const first = seen.get(bone.name);
+        if (first === undefined) {
+            seen.set(bone.name, boneIndex);
+            return;
+        }
+        out.push({
+            rule: 'duplicate_name', severity: 'error', boneIndex,
+            message: `Bone name "${bone.name}" is already used by bone #${first + 1}.`,
+            fix: {
+                label: 'Rename',
+                apply: m => updateBone(m, boneIndex, b => ({ ...b, name: uniqueBoneName(m.bedrockData!.bones, b.name) }))
+            }
+        });
+    });
+
+    const byName = new Map(bones.map(b => [b.name, b]));
+    bones.forEach((bone, boneIndex) => {
+        if (!bone.parent) return;
+        if (!byName.has(bone.parent)) {
+            out.push({
+                rule: 'missing_parent', severity: 'error', boneIndex,
+                message: `"${bone.name}" has parent "${bone.parent}", which does not exist.`,
+                fix: { label: 'Make root', apply: m => updateBone(m, boneIndex, ({ parent, ...b }) => b) }
+            });
+            return;
+        }
+        // Walk up; coming back to this bone means it sits on a cycle
+        const visited = new Set<string>();
+        for (let p: string | undefined = bone.parent; p && byName.has(p) && !visited.has(p); p = byName.get(p)!.parent) {
+            if (p === bone.name) {
+                out.push({
+                    rule: 'cyclic_parent', severity: 'error', boneIndex,
+                    message: `"${bone.name}" is its own ancestor.`,
+                    fix: { label: 'Make root', apply: m => updateBone(m, boneIndex, ({ parent, ...b }) => b) }
+                });
+                break;
+            }
+            visited.add(p);
+        }
+    });
+};
+
+// --- Geometry ---
+
+const checkCubes = (model: MinecraftModel, out: LintDiagnostic[]) => {
+    const bones = model.bedrockData!.bones;
+    bones.forEach((bone, boneIndex) => bone.cubes.forEach((cube, cubeIndex) => {
+        if (cube.size.some(s => s < 0)) {
+            out.push({
+                rule: 'degenerate_cube', severity: 'error', boneIndex, cubeIndex,
+                message: `Cube ${cubeIndex + 1} in "${bone.name}" has a negative size ${JSON.stringify(cube.size)}.`,
+                fix: {
+                    label: 'Flip to positive',
+                    apply: m => updateBone(m, boneIndex, b => ({
+                        ...b,
+                        cubes: b.cubes.map((c, i) => i !== cubeIndex ? c : {
+                            ...c,
+                            origin: c.origin.map((o, a) => Math.min(o, o + c.size[a])) as Vec3,
+                            size: c.size.map(Math.abs) as Vec3
+                        })
+                    }))
+                }
+            });
+        } else if (cube.size.some(s => s === 0)) {
+            // One flat axis is a legitimate plane; two or more means nothing renders
+            const flat = cube.size.filter(s => s === 0).length;
+            out.push({
+                rule: 'degenerate_cube', severity: flat > 1 ? 'warning' : 'info', boneIndex, cubeIndex,
+                message: flat > 1
+                    ? `Cube ${cubeIndex + 1} in "${bone.name}" has no area and is invisible.`
+                    : `Cube ${cubeIndex + 1} in "${bone.name}" is a zero-thickness plane.`,
+                fix: flat > 1 ? {
+                    label: 'Remove cube',
+                    apply: m => updateBone(m, boneIndex, b => ({ ...b, cubes: b.cubes.filter((_, i) => i !== cubeIndex) }))
+                } : undefined
+            });
+        }
+    }));
+
+    // Floating cubes: anything not touching the largest connected group
+    const all = bones.flatMap((bone, boneIndex) => bone.cubes.map((cube, cubeIndex) => ({ boneIndex, cubeIndex, box: cubeBox(cube) })));
+    if (all.length < 2) return;
+    const group = all.map((_, i) => i);
+    const find = (i: number): number => group[i] === i ? i : (group[i] = find(group[i]));
+    for (let i = 0; i < all.length; i++) {
+        for (let j = i + 1; j < all.length; j++) {
+            if (boxesTouch(all[i].box, all[j].box, CONTACT_TOLERANCE)) group[find(i)] = find(j);
+        }
+    }
+    const sizes = new Map<number, number>();
+    all.forEach((_, i) => sizes.set(find(i), (sizes.get(find(i)) || 0) + 1));
+    const main = [...sizes.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    all.forEach((c, i) => {
+        if (find(i) === main) return;
+        out.push({
+            rule: 'floating_cube', severity: 'warning', boneIndex: c.boneIndex, cubeIndex: c.cubeIndex,
+            message: `Cube ${c.cubeIndex + 1} in "${bones[c.boneIndex].name}" does not touch the rest of the model.`
+        });
+    });
+};
+
+// --- Orientation ---
+
+const FACE_TOKENS = /eye|nose|snout|beak|mouth|face|muzzle|jaw|teeth|horn/i;
+
+const centerOf = (cubes: ModelCube[]) => {
+    if (cubes.length === 0) return undefined;
+    const boxes = cubes.map(cubeBox);
+    return [0, 1, 2].map(i => (Math.min(...boxes.map(b => b.min[i])) + Math.max(...boxes.map(b => b.max[i]))) / 2);
+};
+
+const flipKeyframe = (value: KeyframeValue, flip: (v: number[]) => Vec3): KeyframeValue =>
+    Array.isArray(value) ? flip(value) : { ...value, post: flip(value.post), ...(value.pre ? { pre: flip(value.pre) } : {}) };
+
+const flipChannel = (channel: AnimationChannel | undefined, flip: (v: number[]) => Vec3) =>
+    channel ? Object.fromEntries(Object.entries(channel).map(([t, v]) => [t, flipKeyframe(v, flip)])) : undefined;
+
+const SWAPPED_FACE: Record<CubeFaceName, CubeFaceName> = {
+    north: 'south', south: 'north', east: 'west', west: 'east', up: 'up', down: 'down'
+};
+
+const HALF_TURN_Y = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI);
+const roundAngle = (deg: number) => (Math.round(deg * 1e4) / 1e4) || 0;
+const wrapAngle = (deg: number) => roundAngle(deg > 180 ? deg - 360 : deg <= -180 ? deg + 360 : deg);
+
+// Box UV regions follow the cube's own axes, so a box cube also turns half about its
+// own Y to keep every region on the surface it was painted for
+const turnInPlace = ([rx, ry, rz]: Vec3): Vec3 => {
+    if (!rz) return [rx, wrapAngle(ry + 180), 0];
+    const euler = new THREE.Euler(...[rx, ry, rz].map(THREE.MathUtils.degToRad) as Vec3, 'XYZ');
+    const turned = new THREE.Euler().setFromQuaternion(new THREE.Quaternion().setFromEuler(euler).multiply(HALF_TURN_Y), 'XYZ');
+    return [turned.x, turned.y, turned.z].map(r => roundAngle(THREE.MathUtils.radToDeg(r))) as Vec3;
+};
+
+// Top and bottom faces stay in place but their image turns with the model
+const turnFace = (face: CubeFaceUV): CubeFaceUV => {
+    const { rotation, ...rest } = face;
+    const turned = (((rotation || 0) + 180) % 360) as FaceRotation;
+    return turned ? { ...rest, rotation: turned } : rest;
+};
+
+// Half turn about Y: x and z change sign, and so do rotations about those axes
+export const turnModelAround = (model: MinecraftModel): MinecraftModel => {
+    const point = (p: number[]): Vec3 => [-p[0] || 0, p[1], -p[2] || 0];
+    const rotation = (r: number[]): Vec3 => [-r[0] || 0, r[1], -r[2] || 0];
+    const turned = updateBones(model, bones => bones.map(bone => ({
+        ...bone,
+        pivot: point(bone.pivot),
+        ...(bone.rotation ? { rotation: rotation(bone.rotation) } : {}),
+        // AI rigs list attachments as bare names, which have no position to turn
+        ...(bone.attachments ? {
+            attachments: bone.attachments.map(a => typeof a === 'string' ? a : { ...a, position: point(a.position || [0, 0, 0]) })
+        } : {}),
+        cubes: bone.cubes.map(cube => ({
+            ...cube,
+            origin: [-(cube.origin[0] + cube.size[0]) || 0, cube.origin[1], -(cube.origin[2] + cube.size[2]) || 0] as Vec3,
+            ...(cube.faces
+                ? cube.rotation ? { rotation: rotation(cube.rotation) } : {}
+                : { rotation: turnInPlace(rotation(cube.rotation || [0, 0, 0])) }),
+            ...(cube.pivot ? { pivot: point(cube.pivot) } : {}),
+            ...(cube.faces ? {
+                faces: Object.fromEntries(Object.entries(cube.faces).map(([name, face]) => [
+                    SWAPPED_FACE[name as CubeFaceName],
+                    face && (name === 'up' || name === 'down') ? turnFace(face) : face
+                ]))
+            } : {})
+        }))
+    })));
+    if (!model.animations) return turned;
+    return {
+        ...turned,
+        animations: Object.fromEntries(Object.entries(model.animations).map(([key, anim]) => [key, {
+            ...anim,
+            bones: Object.fromEntries(Object.entries(anim.bones || {}).map(([name, data]) => [name, {
+                ...data,
+                ...(data.rotation ? { rotation: flipChannel(data.rotation, rotation) } : {}),
+                ...(data.position ? { position: flipChannel(data.position, point) } : {})
+            }]))
+        }]))
+    };
+};
+
+const checkOrientation = (model: MinecraftModel, out: LintDiagnostic[]) => {
+    const bones = model.bedrockData!.bones;
+    const modelCenter = centerOf(bones.flatMap(b => b.cubes));
+    if (!modelCenter) return;
+
+    // Face features name the front; failing that, a head that sticks out along Z
+    const features = bones.filter(b => FACE_TOKENS.test(b.name) && b.cubes.length > 0);
+    const rig = detectRig(model);
+    const head = rig.head ? bones.find(b => b.name === rig.head) : undefined;
+    const reference = features.length > 0 ? features : head ? [head] : [];
+    const refCenter = centerOf(reference.flatMap(b => b.cubes));
+    const bodyCenter = features.length > 0 && head ? centerOf(head.cubes) : modelCenter;
+    if (!refCenter || !bodyCenter || refCenter[2] - bodyCenter[2] <= CONTACT_TOLERANCE * 10) return;
+
+    out.push({
+        rule: 'facing_positive_z', severity: 'warning', boneIndex: bones.indexOf(reference[0]),
+        message: `The front ("${reference[0].name}") faces +Z; Hytale and Minecraft models face -Z.`,
+        fix: { label: 'Turn around', apply: turnModelAround }
+    });
+};
+
+// --- Attachments ---
+
+const checkAttachments = (model: MinecraftModel, out: LintDiagnostic[]) => {
+    const bones = model.bedrockData!.bones;
+    const boxes = bones.flatMap(b => b.cubes.map(cubeBox));
+    if (boxes.length === 0) return;
+
+    bones.forEach((bone, boneIndex) => (bone.attachments || []).forEach((att, attIndex) => {
+        if (typeof att === 'string') return;
+        const point = bone.pivot.map((p, i) => p + (att.position?.[i] || 0));
+        const nearest = boxes.reduce((best, box) => distanceToBox(point, box) < distanceToBox(point, best) ? box : best);
+        const distance = distanceToBox(point, nearest);
+        if (distance <= ATTACHMENT_TOLERANCE) return;
+
+        out.push({
+            rule: 'attachment_outside', severity: 'warning', boneIndex,
+            message: `Attachment "${att.name}" on "${bone.name}" is ${distance.toFixed(1)} units away from any cube.`,
+            fix: {
+                label: 'Snap to surface',
+                apply: m => updateBone(m, boneIndex, b => ({
+                    ...b,
+                    attachments: b.attachments!.map((a, i) => i !== attIndex ? a : {
+                        ...a,
+                        position: point.map((p, k) => Math.min(Math.max(p, nearest.min[k]), nearest.max[k]) - b.pivot[k]) as Vec3
+                    })
+                }))
+            }
+        });
+    }));
+};
+
+// --- Animations ---
+
+const checkAnimations = (model: MinecraftModel, out: LintDiagnostic[]) => {
+    const names = new Set(model.bedrockData!.bones.map(b => b.name));
+    Object.entries(model.animations || {}).forEach(([animName, anim]) => {
+        const unknown = Object.keys(anim.bones || {}).filter(name => !names.has(name));
+        if (unknown.length === 0) return;
+        out.push({
+            rule: 'unknown_animation_bone', severity: 'warning',
+            message: `Animation "${animName}" animates missing bone${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}.`,
+            fix: {
+                label: 'Remove tracks',
+                apply: m => ({
+                    ...m,
+                    animations: {
+                        ...m.animations,
+                        [animName]: {
+                            ...m.animations![animName],
+                            bones: Object.fromEntries(Object.entries(m.animations![animName].bones || {}).filter(([name]) => !unknown.includes(name)))
+                        }
+                    }
+                })
+            }
+        });
+    });
+};
+
+// --- UVs ---
+
+
+// Texture-space rectangles a cube samples from: the two strips of a box UV, or each face
+const cubeUvRects = (cube: ModelCube, uvScale: number): UvRect[] => {
+    if (cube.faces) return Object.values(cube.faces).map(face => getFaceRect(face!));
+    if (!cube.uv) return [];
+    const [u, v] = cube.uv;
+    return getBoxUVRects(cube, uvScale).map(r => ({ ...r, x: r.x + u, y: r.y + v }));
+};
+
+// Limbs that share one UV island on purpose (e.g. mirrored legs) are not overlaps
+const sharesIsland = (a: ModelCube, b: ModelCube) =>
+    !a.faces && !b.faces && !!a.uv && !!b.uv && a.uv[0] === b.uv[0] && a.uv[1] === b.uv[1] &&
+    a.size.every((s, i) => s === b.size[i]);
+
+const checkUvs = (model: MinecraftModel, options: LintOptions, out: LintDiagnostic[]) => {
+    const bones = model.bedrockData!.bones;
+    const [texW, texH] = model.bedrockData!.texture_size || [64, 64];
+    const uvScale = options.uvScale || 1;
+    const repack: LintFix = {
+        label: 'Repack UVs',
+        repacksUVs: true,
+        apply: m => packUVLayout(m, { density: options.density, uvScale: options.uvScale, stable: true }).model
+    };
+
+    const islands = bones.flatMap((bone, boneIndex) => bone.cubes.map((cube, cubeIndex) => ({
+        boneIndex, cubeIndex, cube, rects: cubeUvRects(cube, uvScale)
+    })));
+
+    islands.forEach(({ boneIndex, cubeIndex, rects }) => {
+        if (rects.every(r => r.x >= 0 && r.y >= 0 && r.x + r.w <= texW && r.y + r.h <= texH)) return;
+        out.push({
+            rule: 'uv_out_of_bounds', severity: 'warning', boneIndex, cubeIndex,
+            message: `Cube ${cubeIndex + 1} in "${bones[boneIndex].name}" samples outside the ${texW}×${texH} texture.`,
+            fix: repack
+        });
+    });
+
+    for (let i = 0; i < islands.length; i++) {
+        for (let j = i + 1; j < islands.length; j++) {
+            const a = islands[i];
+            const b = islands[j];
+            if (sharesIsland(a.cube, b.cube)) continue;
+            if (!a.rects.some(ra => b.rects.some(rb => rectsOverlap(ra, rb)))) continue;
+            out.push({
+                rule: 'uv_overlap', severity: 'info', boneIndex: b.boneIndex, cubeIndex: b.cubeIndex,
+                message: `UVs of cube ${b.cubeIndex + 1} in "${bones[b.boneIndex].name}" overlap cube ${a.cubeIndex + 1} in "${bones[a.boneIndex].name}".`,
+                fix: repack
+            });
+        }
+    }
+};
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export const lintModel = (model: MinecraftModel, options: LintOptions = {}): LintDiagnostic[] => {
+    if (!model.bedrockData?.bones) return [];
+    const out: LintDiagnostic[] = [];
+    checkStructure(model, out);
+    checkCubes(model, out);
+    checkOrientation(model, out);
+    checkAttachments(model, out);
+    checkAnimations(model, out);
+    checkUvs(model, options, out);
+    return out.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+};
@@ -0,0 +1,492 @@
+import { MinecraftModel, BedrockModel, ModelBone, ModelCube, AnimationDefinition, AnimationChannel, KeyframeValue, JavaBlockModel, JavaBlockElement, JavaBlockState, BlockStateVariant } from '../types';
+import { LERP_MODES } from './animationMath';
+
+// --- Structured Validation for AI-generated (or imported) model data ---
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationCode =
+    | 'missing_geometry'
+    | 'invalid_vector'
+    | 'missing_size'
+    | 'negative_size'
+    | 'missing_cubes'
+    | 'missing_name'
+    | 'duplicate_bone'
+    | 'missing_parent'
+    | 'cyclic_parent'
+    | 'invalid_texture_size'
+    | 'invalid_animation_length'
+    | 'unknown_animation_bone'
+    | 'invalid_keyframe'
+    | 'invalid_java_rotation'
+    | 'element_out_of_bounds'
+    | 'undefined_texture_variable'
+    | 'invalid_blockstate';
+
+export interface ValidationIssue {
+    code: ValidationCode;
+    severity: ValidationSeverity;
+    path: string; // e.g. "bedrockData.bones[3].cubes[0].size"
+    message: string;
+    // Whether repairModel can fix it without asking the AI again
+    repairable: boolean;
+    boneName?: string;
+}
+
+const isNum = (v: any) => typeof v === 'number' && Number.isFinite(v);
+
+const isVec3 = (v: any): v is [number, number, number] =>
+    Array.isArray(v) && v.length === 3 && v.every(isNum);
+
+// A size needs all three extents; guessing a missing one as 0 would make flat cubes
+const hasFullSize = (v: any) => Array.isArray(v) && [0, 1, 2].every(i => isNum(v[i]));
+
+// Pads/truncates to 3 numeric components, replacing garbage with 0
+const toVec3 = (v: any, fallback: [number, number, number] = [0, 0, 0]): [number, number, number] => {
+    if (!Array.isArray(v)) return fallback;
+    return [0, 1, 2].map(i => isNum(v[i]) ? v[i] : 0) as [number, number, number];
+};
+
+// --- Validators ---
+
+const validateCube = (cube: ModelCube, path: string, boneName: string, issues: ValidationIssue[]) => {
+    if (!isVec3(cube.origin)) {
+        issues.push({ code: 'invalid_vector', severity: 'error', path: `${path}.origin`, boneName, repairable: true,
+            message: `Cube origin must be [x, y, z], got ${JSON.stringify(cube.origin)}.` });
+    }
+
+    if (cube.size === undefined || cube.size === null || (Array.isArray(cube.size) && (cube.size as number[]).length === 0)) {
+        issues.push({ code: 'missing_size', severity: 'error', path: `${path}.size`, boneName, repairable: false,
+            message: `Cube in bone "${boneName}" has no size.` });
+    } else if (!isVec3(cube.size)) {
+        issues.push({ code: 'invalid_vector', severity: 'error', path: `${path}.size`, boneName, repairable: hasFullSize(cube.size),
+            message: `Cube size must be [w, h, d], got ${JSON.stringify(cube.size)}.` });
+    } else if (cube.size.some(s => s < 0)) {
+        issues.push({ code: 'negative_size', severity: 'error', path: `${path}.size`, boneName, repairable: true,
+            message: `Cube in bone "${boneName}" has a negative size ${JSON.stringify(cube.size)}.` });
+    }
+
+    (['rotation', 'pivot'] as const).forEach(key => {
+        if (cube[key] !== undefined && cube[key] !== null && !isVec3(cube[key])) {
+            issues.push({ code: 'invalid_vector', severity: 'error', path: `${path}.${key}`, boneName, repairable: true,
+                message: `Cube ${key} must be [x, y, z], got ${JSON.stringify(cube[key])}.` });
+        }
+    });
+};
+
+export const validateBedrockModel = (data: BedrockModel | undefined | null): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+
+    if (!data || !Array.isArray(data.bones)) {
+        issues.push({ code: 'missing_geometry', severity: 'error', path: 'bedrockData.bones', repairable: false,
+            message: "bedrock_data.bones is missing." });
+        return issues;
+    }
+
+    if (data.texture_size !== undefined && !(Array.isArray(data.texture_size) && data.texture_size.length === 2 && data.texture_size.every(n => isNum(n) && n > 0))) {
+        issues.push({ code: 'invalid_texture_size', severity: 'warning', path: 'bedrockData.texture_size', repairable: true,
+            message: `texture_size must be [width, height], got ${JSON.stringify(data.texture_size)}.` });
+    }
+
+    const seen = new Set<string>();
+    data.bones.forEach((bone, bIdx) => {
+        const path = `bedrockData.bones[${bIdx}]`;
+
+        if (!bone.name) {
+            issues.push({ code: 'missing_name', severity: 'error', path: `${path}.name`, repairable: true,
+                message: `Bone #${bIdx} has no name.` });
+        } else if (seen.has(bone.name)) {
+            issues.push({ code: 'duplicate_bone', severity: 'error', path: `${path}.name`, boneName: bone.name, repairable: true,
+                message: `Bone name "${bone.name}" is used more than once.` });
+        }
+        seen.add(bone.name);
+
+        if (!isVec3(bone.pivot)) {
+            issues.push({ code: 'invalid_vector', severity: 'error', path: `${path}.pivot`, boneName: bone.name, repairable: true,
+                message: `Bone "${bone.name}" pivot must be [x, y, z], got ${JSON.stringify(bone.pivot)}.` });
+        }
+        if (bone.rotation !== undefined && bone.rotation !== null && !isVec3(bone.rotation)) {
+            issues.push({ code: 'invalid_vector', severity: 'error', path: `${path}.rotation`, boneName: bone.name, repairable: true,
+                message: `Bone "${bone.name}" rotation must be [x, y, z], got ${JSON.stringify(bone.rotation)}.` });
+        }
+
+        if (!Array.isArray(bone.cubes)) {
+            issues.push({ code: 'missing_cubes', severity: 'warning', path: `${path}.cubes`, boneName: bone.name, repairable: true,
+                message: `Bone "${bone.name}" has no cubes array.` });
+        } else {
+            bone.cubes.forEach((cube, cIdx) => validateCube(cube, `${path}.cubes[${cIdx}]`, bone.name, issues));
+        }
+    });
+
+    // Parent references: must exist and must not form a loop
+    const byName = new Map(data.bones.map(b => [b.name, b] as [string, ModelBone]));
+    data.bones.forEach((bone, bIdx) => {
+        if (!bone.parent) return;
+        const path = `bedrockData.bones[${bIdx}].parent`;
+
+        if (!byName.has(bone.parent)) {
+            issues.push({ code: 'missing_parent', severity: 'error', path, boneName: bone.name, repairable: true,
+                message: `Bone "${bone.name}" references missing parent "${bone.parent}".` });
+            return;
+        }
+
+        // Only bones on the loop itself are flagged, not bones hanging below it
+        const visited = new Set<string>([bone.name]);
+        let current = byName.get(bone.parent);
+        while (current && !visited.has(current.name)) {
+            visited.add(current.name);
+            current = current.parent ? byName.get(current.parent) : undefined;
+        }
+        if (current?.name === bone.name) {
+            issues.push({ code: 'cyclic_parent', severity: 'error', path, boneName: bone.name, repairable: true,
+                message: `Bone "${bone.name}" is part of a parent cycle.` });
+        }
+    });
+
+    return issues;
+};
+
+const isValidCurve = (value: Exclude<KeyframeValue, any[]>) =>
+    (value.lerp_mode === undefined || LERP_MODES.includes(value.lerp_mode)) &&
+    (value.bezier === undefined || (Array.isArray(value.bezier) && value.bezier.length === 4 && value.bezier.every(isNum)));
+
+const validateChannel = (channel: AnimationChannel, path: string, boneName: string, issues: ValidationIssue[]) => {
+    Object.entries(channel).forEach(([time, value]) => {
+        const vec = Array.isArray(value) ? value : (value as any)?.post;
+        if (!isNum(parseFloat(time)) || parseFloat(time) < 0) {
+            issues.push({ code: 'invalid_keyframe', severity: 'error', path: `${path}["${time}"]`, boneName, repairable: true,
+                message: `Keyframe time "${time}" on bone "${boneName}" is not a non-negative number.` });
+        } else if (!isVec3(vec)) {
+            issues.push({ code: 'invalid_keyframe', severity: 'error', path: `${path}["${time}"]`, boneName, repairable: true,
+                message: `Keyframe at ${time}s on bone "${boneName}" must be [x, y, z], got ${JSON.stringify(value)}.` });
+        } else if (!Array.isArray(value) && !isValidCurve(value)) {
+            issues.push({ code: 'invalid_keyframe', severity: 'warning', path: `${path}["${time}"]`, boneName, repairable: true,
+                message: `Keyframe at ${time}s on bone "${boneName}" has an unknown curve ${JSON.stringify(value.lerp_mode)}; it will play linearly.` });
+        }
+    });
+};
+
+export const validateAnimations = (
+    animations: Record<string, AnimationDefinition> | undefined,
+    bones: ModelBone[]
+): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!animations) return issues;
+
+    const boneNames = new Set(bones.map(b => b.name));
+
+    Object.entries(animations).forEach(([animName, anim]) => {
+        const path = `animations["${animName}"]`;
+
+        if (anim.animation_length !== undefined && !(isNum(anim.animation_length) && anim.animation_length > 0)) {
+            issues.push({ code: 'invalid_animation_length', severity: 'warning', path: `${path}.animation_length`, repairable: true,
+                message: `Animation "${animName}" has invalid length ${JSON.stringify(anim.animation_length)}.` });
+        }
+
+        Object.entries(anim.bones || {}).forEach(([boneName, data]) => {
+            const bonePath = `${path}.bones["${boneName}"]`;
+            if (!boneNames.has(boneName)) {
+                issues.push({ code: 'unknown_animation_bone', severity: 'warning', path: bonePath, boneName, repairable: true,
+                    message: `Animation "${animName}" animates missing bone "${boneName}".` });
+                return;
+            }
+            (['rotation', 'position', 'scale'] as const).forEach(key => {
+                if (data[key]) validateChannel(data[key]!, `${bonePath}.${key}`, boneName, issues);
+            });
+        });
+    });
+
+    return issues;
+};
+
+export const validateModel = (model: MinecraftModel): ValidationIssue[] => {
+    if (model.type === 'BLOCK') return [];
+    const issues = validateBedrockModel(model.bedrockData);
+    if (model.bedrockData && Array.isArray(model.bedrockData.bones)) {
+        issues.push(...validateAnimations(model.animations, model.bedrockData.bones));
+    }
+    return issues;
+};
+
+// --- Automatic Repair ---
+
+export interface RepairOptions {
+    // Also apply lossy fixes (e.g. dropping cubes without a size) for issues
+    // that would otherwise need another round trip to the AI.
+    dropUnrepairable?: boolean;
+}
+
+const repairChannel = (channel: AnimationChannel): AnimationChannel | undefined => {
+    const repaired: AnimationChannel = {};
+    Object.entries(channel).forEach(([time, value]) => {
+        const t = parseFloat(time);
+        if (!isNum(t) || t < 0) return;
+        if (Array.isArray(value)) {
+            repaired[time] = toVec3(value);
+        } else if (value && typeof value === 'object') {
+            const { lerp_mode, bezier, ...rest } = value;
+            repaired[time] = {
+                ...rest,
+                post: toVec3(value.post),
+                // Unknown curves fall back to linear
+                ...(lerp_mode && LERP_MODES.includes(lerp_mode) ? { lerp_mode } : {}),
+                ...(Array.isArray(bezier) && bezier.length === 4 && bezier.every(isNum) ? { bezier } : {})
+            };
+        }
+    });
+    return Object.keys(repaired).length ? repaired : undefined;
+};
+
+export const repairModel = (
+    model: MinecraftModel,
+    options: RepairOptions = {}
+): { model: MinecraftModel; remaining: ValidationIssue[] } => {
+    if (model.type === 'BLOCK' || !model.bedrockData || !Array.isArray(model.bedrockData.bones)) {
+        return { model, remaining: validateModel(model) };
+    }
+
+    const data: BedrockModel = JSON.parse(JSON.stringify(model.bedrockData));
+
+    if (data.texture_size !== undefined && !(Array.isArray(data.texture_size) && data.texture_size.length === 2 && data.texture_size.every(n => isNum(n) && n > 0))) {
+        data.texture_size = [64, 64];
+    }
+
+    // 1. Names: fill blanks and de-duplicate with numeric suffixes
+    const used = new Set<string>();
+    data.bones.forEach((bone, bIdx) => {
+        let name = bone.name || `bone_${bIdx}`;
+        if (used.has(name)) {
+            let n = 2;
+            while (used.has(`${name}_${n}`)) n++;
+            name = `${name}_${n}`;
+        }
+        bone.name = name;
+        used.add(name);
+    });
+
+    // 2. Vectors and cubes
+    data.bones.forEach(bone => {
+        bone.pivot = toVec3(bone.pivot);
+        if (bone.rotation !== undefined && bone.rotation !== null) bone.rotation = toVec3(bone.rotation);
+        if (!Array.isArray(bone.cubes)) bone.cubes = [];
+
+        bone.cubes = bone.cubes.filter(cube => {
+            if (!hasFullSize(cube.size)) return !options.dropUnrepairable;
+
+            cube.origin = toVec3(cube.origin);
+            cube.size = toVec3(cube.size);
+            // Negative extents: move the origin to the true min corner
+            cube.size.forEach((s, axis) => {
+                if (s < 0) {
+                    cube.origin[axis] += s;
+                    cube.size[axis] = -s;
+                }
+            });
+            if (cube.rotation !== undefined && cube.rotation !== null) cube.rotation = toVec3(cube.rotation);
+            if (cube.pivot !== undefined && cube.pivot !== null) cube.pivot = toVec3(cube.pivot);
+            return true;
+        });
+    });
+
+    // 3. Parents: detach missing references, then break cycles
+    data.bones.forEach(bone => {
+        if (bone.parent && !used.has(bone.parent)) bone.parent = undefined;
+    });
+    const byName = new Map(data.bones.map(b => [b.name, b] as [string, ModelBone]));
+    // Only the edge that closes a loop is cut; bones below the loop keep their parent
+    data.bones.forEach(bone => {
+        const visited = new Set<string>([bone.name]);
+        let current = bone.parent ? byName.get(bone.parent) : undefined;
+        while (current && !visited.has(current.name)) {
+            visited.add(current.name);
+            current = current.parent ? byName.get(current.parent) : undefined;
+        }
+        if (current?.name === bone.name) bone.parent = undefined;
+    });
+
+    // 4. Animations: drop channels for unknown bones, fix keyframes
+    let animations = model.animations;
+    if (animations) {
+        animations = {};
+        Object.entries(model.animations!).forEach(([animName, anim]) => {
+            const bones: Record<string, any> = {};
+            Object.entries(anim.bones || {}).forEach(([boneName, channels]) => {
+                if (!used.has(boneName)) return;
+                bones[boneName] = {
+                    ...channels,
+                    rotation: channels.rotation ? repairChannel(channels.rotation) : undefined,
+                    position: channels.position ? repairChannel(channels.position) : undefined,
+                    scale: channels.scale ? repairChannel(channels.scale) : undefined
+                };
+            });
+            // An invalid length is dropped rather than guessed; a missing one stays missing
+            const { animation_length, ...rest } = anim;
+            animations![animName] = {
+                ...rest,
+                ...(isNum(animation_length) && animation_length! > 0 ? { animation_length } : {}),
+                bones
+            };
+        });
+    }
+
+    const repaired: MinecraftModel = { ...model, bedrockData: data, animations };
+    return { model: repaired, remaining: validateModel(repaired) };
+};
+
+// --- Java Block Models ---
+// Java Edition refuses to load block models whose elements leave the
+// -16..32 range or rotate by anything other than one axis at ±22.5/45 degrees.
+
+export const JAVA_ROTATION_ANGLES = [-45, -22.5, 0, 22.5, 45];
+const JAVA_MIN_COORD = -16;
+const JAVA_MAX_COORD = 32;
+
+const validateJavaElement = (el: JavaBlockElement, path: string, textures: Record<string, string>, issues: ValidationIssue[]) => {
+    (['from', 'to'] as const).forEach(key => {
+        if (!isVec3(el[key])) {
+            issues.push({ code: 'invalid_vector', severity: 'error', path: `${path}.${key}`, repairable: false,
+                message: `Element ${key} must be [x, y, z], got ${JSON.stringify(el[key])}.` });
+        } else if (el[key].some(n => n < JAVA_MIN_COORD || n > JAVA_MAX_COORD)) {
+            issues.push({ code: 'element_out_of_bounds', severity: 'error', path: `${path}.${key}`, repairable: true,
+                message: `Element ${key} ${JSON.stringify(el[key])} is outside the ${JAVA_MIN_COORD}..${JAVA_MAX_COORD} range Java allows.` });
+        }
+    });
+
+    const rot: any = el.rotation;
+    if (rot) {
+        if (Array.isArray(rot) || !['x', 'y', 'z'].includes(rot.axis)) {
+            issues.push({ code: 'invalid_java_rotation', severity: 'error', path: `${path}.rotation`, repairable: true,
+                message: `Java elements rotate around a single axis ("x", "y" or "z"), got ${JSON.stringify(rot)}.` });
+        } else if (!JAVA_ROTATION_ANGLES.includes(rot.angle)) {
+            issues.push({ code: 'invalid_java_rotation', severity: 'error', path: `${path}.rotation.angle`, repairable: true,
+                message: `Rotation angle ${rot.angle} is not one of ${JAVA_ROTATION_ANGLES.join(', ')}.` });
+        }
+        if (rot.origin !== undefined && !isVec3(rot.origin)) {
+            issues.push({ code: 'invalid_vector', severity: 'error', path: `${path}.rotation.origin`, repairable: true,
+                message: `Rotation origin must be [x, y, z], got ${JSON.stringify(rot.origin)}.` });
+        }
+    }
+
+    Object.entries(el.faces || {}).forEach(([faceName, face]) => {
+        if (!face) return;
+        if (!resolveTextureVariable(face.texture, textures)) {
+            issues.push({ code: 'undefined_texture_variable', severity: 'warning', path: `${path}.faces.${faceName}.texture`, repairable: false,
+                message: `Face texture "${face.texture}" does not resolve to a texture; it will render as missing.` });
+        }
+    });
+};
+
+// Follows "#var" references until a real texture path (or a dead end)
+const resolveTextureVariable = (ref: string, textures: Record<string, string>): string | undefined => {
+    let current = ref;
+    const seen = new Set<string>();
+    while (current && current.startsWith('#')) {
+        const key = current.slice(1);
+        if (seen.has(key)) return undefined;
+        seen.add(key);
+        current = textures[key];
+    }
+    return current || undefined;
+};
+
+export const validateJavaBlockModel = (data: JavaBlockModel | undefined | null): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!data || (!Array.isArray(data.elements) && !data.parent)) {
+        issues.push({ code: 'missing_geometry', severity: 'error', path: 'javaBlockData', repairable: false,
+            message: 'Block model has neither elements nor a parent model.' });
+        return issues;
+    }
+    const textures = data.textures || {};
+    (data.elements || []).forEach((el, idx) => validateJavaElement(el, `javaBlockData.elements[${idx}]`, textures, issues));
+    return issues;
+};
+
+const validateVariant = (variant: BlockStateVariant, path: string, issues: ValidationIssue[]) => {
+    if (!variant || typeof variant.model !== 'string' || !variant.model) {
+        issues.push({ code: 'invalid_blockstate', severity: 'error', path: `${path}.model`, repairable: false,
+            message: 'Blockstate variant has no model.' });
+        return;
+    }
+    (['x', 'y'] as const).forEach(axis => {
+        const v = variant[axis];
+        if (v !== undefined && ![0, 90, 180, 270].includes(v)) {
+            issues.push({ code: 'invalid_blockstate', severity: 'error', path: `${path}.${axis}`, repairable: true,
+                message: `Blockstate ${axis} rotation must be 0, 90, 180 or 270, got ${v}.` });
+        }
+    });
+};
+
+export const validateJavaBlockState = (state: JavaBlockState | undefined | null): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!state) return issues;
+    if (state.variants && state.multipart) {
+        issues.push({ code: 'invalid_blockstate', severity: 'error', path: 'javaBlockState', repairable: false,
+            message: 'A blockstate uses either "variants" or "multipart", not both.' });
+    }
+    Object.entries(state.variants || {}).forEach(([key, v]) => {
+        (Array.isArray(v) ? v : [v]).forEach((variant, i) => validateVariant(variant, `javaBlockState.variants["${key}"]${Array.isArray(v) ? `[${i}]` : ''}`, issues));
+    });
+    (state.multipart || []).forEach((part, idx) => {
+        const apply = part.apply;
+        (Array.isArray(apply) ? apply : [apply]).forEach((variant, i) => validateVariant(variant, `javaBlockState.multipart[${idx}].apply${Array.isArray(apply) ? `[${i}]` : ''}`, issues));
+    });
+    return issues;
+};
+
+const snapJavaAngle = (angle: number) =>
+    JAVA_ROTATION_ANGLES.reduce((best, a) => Math.abs(a - angle) < Math.abs(best - angle) ? a : best, 0);
+
+const snapQuarterTurn = (v: number) => ((Math.round(v / 90) * 90) % 360 + 360) % 360;
+
+const clampCoord = (v: [number, number, number]): [number, number, number] =>
+    v.map(n => Math.min(JAVA_MAX_COORD, Math.max(JAVA_MIN_COORD, n))) as [number, number, number];
+
+// Lossy fixes for the repairable Java issues: snap rotations, clamp coordinates
+export const repairJavaBlockModel = (data: JavaBlockModel): JavaBlockModel => ({
+    ...data,
+    elements: data.elements?.map(el => {
+        const fixed: JavaBlockElement = { ...el };
+        if (isVec3(el.from)) fixed.from = clampCoord(el.from);
+        if (isVec3(el.to)) fixed.to = clampCoord(el.to);
+
+        const rot: any = el.rotation;
+        if (rot) {
+            let axis: 'x' | 'y' | 'z' = rot.axis;
+            let angle: number = rot.angle;
+            if (Array.isArray(rot)) {
+                // Keep the dominant axis of an Euler triple
+                const idx = [0, 1, 2].reduce((best, i) => Math.abs(rot[i] || 0) > Math.abs(rot[best] || 0) ? i : best, 0);
+                axis = (['x', 'y', 'z'] as const)[idx];
+                angle = rot[idx] || 0;
+            } else if (!['x', 'y', 'z'].includes(axis)) {
+                axis = 'y';
+            }
+            const origin = isVec3(rot.origin) ? rot.origin : [8, 8, 8];
+            fixed.rotation = { ...(Array.isArray(rot) ? {} : rot), origin, axis, angle: snapJavaAngle(isNum(angle) ? angle : 0) as any };
+        }
+        return fixed;
+    })
+});
+
+export const repairJavaBlockState = (state: JavaBlockState): JavaBlockState => {
+    const fixVariant = (v: BlockStateVariant): BlockStateVariant => ({
+        ...v,
+        ...(v.x !== undefined ? { x: snapQuarterTurn(v.x) } : {}),
+        ...(v.y !== undefined ? { y: snapQuarterTurn(v.y) } : {})
+    });
+    const fix = <T extends BlockStateVariant | BlockStateVariant[]>(v: T): T =>
+        (Array.isArray(v) ? v.map(fixVariant) : fixVariant(v as BlockStateVariant)) as T;
+
+    return {
+        ...state,
+        variants: state.variants
+            ? Object.fromEntries(Object.entries(state.variants).map(([k, v]) => [k, fix(v)]))
+            : undefined,
+        multipart: state.multipart?.map(part => ({ ...part, apply: fix(part.apply) }))
+    };
+};
+
+// Compact, model-readable summary for correction prompts
+export const formatIssuesForPrompt = (issues: ValidationIssue[]): string =>
+    issues.map(i => `- [${i.code}] ${i.path}: ${i.message}`).join('\n');
@@ -0,0 +1,236 @@
+import { MinecraftModel, ModelBone, ModelCube } from '../types';
+
+// --- Hytale Node Budget ---
+// Every bone and every cube becomes a node in the .blockymodel, and the game
+// refuses models with more than 255 of them.
+
+export const HYTALE_NODE_LIMIT = 255;
+
+export interface NodeCount {
+    bones: number;
+    cubes: number;
+    total: number;
+}
+
+export const countModelNodes = (model: MinecraftModel): NodeCount => {
+    const bones = model.bedrockData?.bones || [];
+    const cubes = bones.reduce((acc, b) => acc + (b.cubes?.length || 0), 0);
+    return { bones: bones.length, cubes, total: bones.length + cubes };
+};
+
+export interface NodeBudgetReport {
+    before: NodeCount;
+    after: NodeCount;
+    limit: number;
+    removedHiddenCubes: number;
+    mergedCubes: number;
+    // Merges that had to combine differently coloured cubes to reach the limit
+    recoloredMerges: number;
+    collapsedBones: number;
+    withinLimit: boolean;
+}
+
+// --- Geometry Helpers ---
+
+const EPSILON = 1e-4;
+const near = (a: number, b: number) => Math.abs(a - b) < EPSILON;
+
+const sameVec = (a?: number[], b?: number[]) => {
+    const va = a || [0, 0, 0];
+    const vb = b || [0, 0, 0];
+    return near(va[0], vb[0]) && near(va[1], vb[1]) && near(va[2], vb[2]);
+};
+
+const isRotated = (cube: ModelCube) => !!cube.rotation && cube.rotation.some(r => !near(r, 0));
+
+// Cubes can only be combined when they share a rotation frame
+const sameFrame = (a: ModelCube, b: ModelCube) =>
+    sameVec(a.rotation, b.rotation) && (!isRotated(a) || sameVec(a.pivot, b.pivot));
+
+// Inflate and mirror carry over to the merged cube, so both halves must agree on them
+const sameSurface = (a: ModelCube, b: ModelCube) =>
+    near(a.inflate || 0, b.inflate || 0) && !!a.mirror === !!b.mirror;
+
+const minOf = (c: ModelCube, axis: number) => c.origin[axis];
+const maxOf = (c: ModelCube, axis: number) => c.origin[axis] + c.size[axis];
+
+const contains = (outer: ModelCube, inner: ModelCube) =>
+    [0, 1, 2].every(axis =>
+        minOf(outer, axis) <= minOf(inner, axis) + EPSILON &&
+        maxOf(outer, axis) >= maxOf(inner, axis) - EPSILON
+    );
+
+// Two boxes merge into one exact box when they have identical extents on two
+// axes and touch (or overlap) on the third. Flat quads in the same plane are
+// the degenerate case of the same rule.
+const mergeAxis = (a: ModelCube, b: ModelCube): number => {
+    for (let axis = 0; axis < 3; axis++) {
+        const others = [0, 1, 2].filter(o => o !== axis);
+        const alignedOthers = others.every(o => near(minOf(a, o), minOf(b, o)) && near(maxOf(a, o), maxOf(b, o)));
+        const touching = minOf(a, axis) <= maxOf(b, axis) + EPSILON && minOf(b, axis) <= maxOf(a, axis) + EPSILON;
+        if (alignedOthers && touching) return axis;
+    }
+    return -1;
+};
+
+const volume = (c: ModelCube) => c.size[0] * c.size[1] * c.size[2];
+
+const mergeCubes = (a: ModelCube, b: ModelCube, axis: number): ModelCube => {
+    const lo = Math.min(minOf(a, axis), minOf(b, axis));
+    const hi = Math.max(maxOf(a, axis), maxOf(b, axis));
+    const origin = [...a.origin] as [number, number, number];
+    const size = [...a.size] as [number, number, number];
+    origin[axis] = lo;
+    size[axis] = hi - lo;
+    // Keep the dominant cube's look. Its box UV and face rects fit the old size,
+    // so both are dropped and the merged cube gets a fresh island when UVs are repacked.
+    const dominant = volume(b) > volume(a) ? b : a;
+    return { ...dominant, origin, size, uv: undefined, faces: undefined };
+};
+
+// --- Passes ---
+
+const removeHiddenCubes = (cubes: ModelCube[]): { cubes: ModelCube[]; removed: number } => {
+    const kept: ModelCube[] = [];
+    cubes.forEach((cube, idx) => {
+        const hidden = cubes.some((other, oIdx) => {
+            if (oIdx === idx || !sameFrame(cube, other) || !contains(other, cube)) return false;
+            // Identical twins: keep the first one
+            return contains(cube, other) ? oIdx < idx : true;
+        });
+        if (!hidden) kept.push(cube);
+    });
+    return { cubes: kept, removed: cubes.length - kept.length };
+};
+
+const mergeAdjacentCubes = (cubes: ModelCube[], ignoreColor: boolean): { cubes: ModelCube[]; merged: number; recolored: number } => {
+    const working = [...cubes];
+    let merged = 0;
+    let recolored = 0;
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (let i = 0; i < working.length && !changed; i++) {
+            for (let j = i + 1; j < working.length && !changed; j++) {
+                const a = working[i];
+                const b = working[j];
+                const colorMatch = (a.color || '').toLowerCase() === (b.color || '').toLowerCase();
+                if (!sameFrame(a, b) || !sameSurface(a, b) || (!colorMatch && !ignoreColor)) continue;
+
+                const axis = mergeAxis(a, b);
+                if (axis === -1) continue;
+
+                working[i] = mergeCubes(a, b, axis);
+                working.splice(j, 1);
+                merged++;
+                if (!colorMatch) recolored++;
+                changed = true;
+            }
+        }
+    }
+
+    return { cubes: working, merged, recolored };
+};
+
+const collapseEmptyBones = (model: MinecraftModel, bones: ModelBone[]): { bones: ModelBone[]; collapsed: number } => {
+    const animated = new Set<string>();
+    Object.values(model.animations || {}).forEach(anim => {
+        Object.keys(anim.bones || {}).forEach(name => animated.add(name));
+    });
+
+    let working = bones.map(b => ({ ...b }));
+    let collapsed = 0;
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        const target = working.find(b =>
+            b.cubes.length === 0 &&
+            !(b.attachments && b.attachments.length > 0) &&
+            !animated.has(b.name) &&
+            !(b.rotation && b.rotation.some(r => !near(r, 0)))
+        );
+        if (!target) break;
+
+        // Pivots are absolute, so children keep their placement when re-parented
+        working = working
+            .filter(b => b !== target)
+            .map(b => b.parent === target.name ? { ...b, parent: target.parent } : b);
+        collapsed++;
+        changed = true;
+    }
+
+    return { bones: working, collapsed };
+};
+
+export const optimizeNodeBudget = (
+    model: MinecraftModel,
+    limit: number = HYTALE_NODE_LIMIT
+): { model: MinecraftModel; report: NodeBudgetReport } => {
+    const before = countModelNodes(model);
+
+    if (!model.bedrockData?.bones) {
+        return {
+            model,
+            report: { before, after: before, limit, removedHiddenCubes: 0, mergedCubes: 0, recoloredMerges: 0, collapsedBones: 0, withinLimit: before.total <= limit }
+        };
+    }
+
+    let removedHiddenCubes = 0;
+    let mergedCubes = 0;
+    let recoloredMerges = 0;
+
+    // 1. Lossless passes: hidden cubes, same-colour merges
+    let bones = model.bedrockData.bones.map(bone => {
+        const hidden = removeHiddenCubes(bone.cubes);
+        removedHiddenCubes += hidden.removed;
+        const merged = mergeAdjacentCubes(hidden.cubes, false);
+        mergedCubes += merged.merged;
+        return { ...bone, cubes: merged.cubes };
+    });
+
+    // 2. Structural pass: bones that only exist to group others
+    const collapsedResult = collapseEmptyBones(model, bones);
+    bones = collapsedResult.bones;
+
+    // 3. Lossy pass, only when still over budget: merge across colours
+    const countOf = (bs: ModelBone[]) => bs.length + bs.reduce((acc, b) => acc + b.cubes.length, 0);
+    for (let i = 0; i < bones.length && countOf(bones) > limit; i++) {
+        const merged = mergeAdjacentCubes(bones[i].cubes, true);
+        mergedCubes += merged.merged;
+        recoloredMerges += merged.recolored;
+        bones[i] = { ...bones[i], cubes: merged.cubes };
+    }
+
+    const optimized: MinecraftModel = {
+        ...model,
+        bedrockData: { ...model.bedrockData, bones }
+    };
+    const after = countModelNodes(optimized);
+
+    return {
+        model: optimized,
+        report: {
+            before,
+            after,
+            limit,
+            removedHiddenCubes,
+            mergedCubes,
+            recoloredMerges,
+            collapsedBones: collapsedResult.collapsed,
+            withinLimit: after.total <= limit
+        }
+    };
+};
+
+export const formatNodeBudgetReport = (report: NodeBudgetReport): string => {
+    const lines = [
+        `Nodes: ${report.before.total} → ${report.after.total} (limit ${report.limit})`,
+        `Hidden cubes removed: ${report.removedHiddenCubes}`,
+        `Cubes merged: ${report.mergedCubes}${report.recoloredMerges ? ` (${report.recoloredMerges} across colours)` : ''}`,
+        `Empty bones collapsed: ${report.collapsedBones}`
+    ];
+    if (!report.withinLimit) lines.push(`Still ${report.after.total - report.limit} over the limit.`);
+    return lines.join('\n');
+};
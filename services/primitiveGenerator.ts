@@ -0,0 +1,341 @@
+import * as THREE from 'three';
+import { ModelBone, ModelCube } from '../types';
+
+// --- Deterministic Procedural Primitives ---
+// Builds exact cube geometry locally instead of asking the AI. Shapes are
+// generated around a vertical (Y) axis centred on the origin, then the bone
+// is rotated when another axis is requested.
+
+export type PrimitiveShape = 'cube' | 'cylinder' | 'cone' | 'sphere' | 'torus' | 'arch' | 'stairs';
+export type PrimitiveAxis = 'x' | 'y' | 'z';
+export type SphereMode = 'voxel' | 'ring';
+
+export interface PrimitiveParams {
+    shape: PrimitiveShape;
+    radius?: number; // Defaults to DEFAULT_PRIMITIVE_RADIUS, e.g. while its field is cleared
+    height?: number; // Cylinder/cone/cube height, arch leg height, stairs rise
+    segments?: number; // Ring segments, or step count for stairs
+    hollow?: boolean;
+    thickness?: number; // Wall thickness when hollow, tube radius for tori
+    depth?: number; // Arch depth, stairs run
+    axis?: PrimitiveAxis;
+    sphereMode?: SphereMode;
+    center?: [number, number, number]; // Base centre in model space
+    color?: string;
+}
+
+export const PRIMITIVE_SHAPES: PrimitiveShape[] = ['cube', 'cylinder', 'cone', 'sphere', 'torus', 'arch', 'stairs'];
+
+const DEFAULT_COLOR = "#9ca3af";
+export const DEFAULT_PRIMITIVE_RADIUS = 4;
+
+// Rounded so generated JSON stays readable and diff-friendly
+const round = (v: number) => Math.round(v * 1000) / 1000;
+
+// Box centred at (cx, cy, cz) with the given size and rotation (about its own centre)
+const boxAt = (
+    cx: number, cy: number, cz: number,
+    w: number, h: number, d: number,
+    color: string,
+    rotation?: [number, number, number]
+): ModelCube => {
+    const cube: ModelCube = {
+        origin: [round(cx - w / 2), round(cy - h / 2), round(cz - d / 2)],
+        size: [round(w), round(h), round(d)],
+        color
+    };
+    if (rotation && rotation.some(r => Math.abs(r) > 1e-6)) {
+        cube.rotation = rotation.map(round) as [number, number, number];
+    }
+    return cube;
+};
+
+// Yaw around Y then pitch/roll in the plank's local frame, expressed as the
+// XYZ Euler angles the viewer and exporter use.
+const localToXYZDegrees = (yawDeg: number, pitchDeg: number, rollDeg: number = 0): [number, number, number] => {
+    const d2r = THREE.MathUtils.degToRad;
+    const euler = new THREE.Euler(d2r(pitchDeg), d2r(yawDeg), d2r(rollDeg), 'YXZ');
+    const xyz = new THREE.Euler().setFromQuaternion(new THREE.Quaternion().setFromEuler(euler), 'XYZ');
+    return [
+        THREE.MathUtils.radToDeg(xyz.x),
+        THREE.MathUtils.radToDeg(xyz.y),
+        THREE.MathUtils.radToDeg(xyz.z)
+    ];
+};
+
+// --- Ring Builders ---
+
+// Regular N-gon prism (N even) as N/2 crossing strips: exact, no star shape.
+const solidDisk = (radius: number, y: number, height: number, segments: number, color: string): ModelCube[] => {
+    const n = Math.max(4, segments + (segments % 2));
+    const apothem = radius * Math.cos(Math.PI / n);
+    const side = 2 * radius * Math.sin(Math.PI / n);
+    const cubes: ModelCube[] = [];
+    for (let k = 0; k < n / 2; k++) {
+        cubes.push(boxAt(0, y, 0, side, height, 2 * apothem, color, [0, (360 / n) * k, 0]));
+    }
+    return cubes;
+};
+
+// "Rotated Ring": planks on the perimeter, each turned to face the centre.
+const ringWall = (radius: number, y: number, height: number, segments: number, thickness: number, color: string): ModelCube[] => {
+    const n = Math.max(3, segments);
+    const side = 2 * radius * Math.sin(Math.PI / n);
+    const dist = radius * Math.cos(Math.PI / n) - thickness / 2;
+    const cubes: ModelCube[] = [];
+    for (let k = 0; k < n; k++) {
+        const angle = (360 / n) * k;
+        const rad = THREE.MathUtils.degToRad(angle);
+        cubes.push(boxAt(dist * Math.sin(rad), y, dist * Math.cos(rad), side, height, thickness, color, [0, angle, 0]));
+    }
+    return cubes;
+};
+
+// --- Shape Builders (centred on the origin, Y up) ---
+
+interface ShapeResult {
+    cubes: ModelCube[];
+    halfHeight: number; // Half the Y extent before any axis rotation
+}
+
+const buildCube = (p: Required<PrimitiveParams>): ShapeResult => {
+    const size = p.radius * 2;
+    if (!p.hollow) {
+        return { cubes: [boxAt(0, 0, 0, size, p.height, size, p.color)], halfHeight: p.height / 2 };
+    }
+    const t = p.thickness;
+    const inner = size - 2 * t;
+    return {
+        cubes: [
+            boxAt(0, 0, -(size - t) / 2, size, p.height, t, p.color), // North
+            boxAt(0, 0, (size - t) / 2, size, p.height, t, p.color), // South
+            boxAt(-(size - t) / 2, 0, 0, t, p.height, inner, p.color), // West
+            boxAt((size - t) / 2, 0, 0, t, p.height, inner, p.color) // East
+        ],
+        halfHeight: p.height / 2
+    };
+};
+
+const buildCylinder = (p: Required<PrimitiveParams>): ShapeResult => ({
+    cubes: p.hollow
+        ? ringWall(p.radius, 0, p.height, p.segments, p.thickness, p.color)
+        : solidDisk(p.radius, 0, p.height, p.segments, p.color),
+    halfHeight: p.height / 2
+});
+
+const buildCone = (p: Required<PrimitiveParams>): ShapeResult => {
+    const layers = Math.max(2, Math.min(16, Math.round(p.height)));
+    const layerH = p.height / layers;
+    const cubes: ModelCube[] = [];
+    for (let i = 0; i < layers; i++) {
+        const r = p.radius * (1 - i / layers);
+        const y = -p.height / 2 + layerH * (i + 0.5);
+        if (p.hollow && r > p.thickness) {
+            cubes.push(...ringWall(r, y, layerH, p.segments, p.thickness, p.color));
+        } else {
+            cubes.push(...solidDisk(r, y, layerH, p.segments, p.color));
+        }
+    }
+    return { cubes, halfHeight: p.height / 2 };
+};
+
+// Voxel stack: one plate per unit slice, each plate split into rows of equal width.
+const buildVoxelSphere = (p: Required<PrimitiveParams>): ShapeResult => {
+    const r = p.radius;
+    const slices = Math.max(2, Math.round(r * 2));
+    const sliceH = (r * 2) / slices;
+    const innerR = r - p.thickness;
+    const cubes: ModelCube[] = [];
+
+    for (let i = 0; i < slices; i++) {
+        const y = -r + sliceH * (i + 0.5);
+        const rho = Math.sqrt(Math.max(0, r * r - y * y));
+        const innerRho = p.hollow && innerR > 0 ? Math.sqrt(Math.max(0, innerR * innerR - y * y)) : 0;
+        const rows = Math.max(1, Math.round(rho * 2));
+        const rowD = (rho * 2) / rows;
+
+        // Merge consecutive rows with identical width into a single box
+        let runStart = 0;
+        const halfWidth = (row: number) => {
+            const z = -rho + rowD * (row + 0.5);
+            return Math.round(Math.sqrt(Math.max(0, rho * rho - z * z)) * 2) / 2;
+        };
+        const innerHalf = (row: number) => {
+            const z = -rho + rowD * (row + 0.5);
+            return innerRho > Math.abs(z) ? Math.round(Math.sqrt(innerRho * innerRho - z * z) * 2) / 2 : 0;
+        };
+        for (let row = 1; row <= rows; row++) {
+            if (row < rows && halfWidth(row) === halfWidth(runStart) && innerHalf(row) === innerHalf(runStart)) continue;
+
+            const hw = halfWidth(runStart);
+            const ih = innerHalf(runStart);
+            const zMid = -rho + rowD * (runStart + row) / 2;
+            const depth = rowD * (row - runStart);
+            if (hw > 0) {
+                if (ih > 0 && ih < hw) {
+                    cubes.push(boxAt(-(hw + ih) / 2, y, zMid, hw - ih, sliceH, depth, p.color));
+                    cubes.push(boxAt((hw + ih) / 2, y, zMid, hw - ih, sliceH, depth, p.color));
+                } else if (ih === 0) {
+                    cubes.push(boxAt(0, y, zMid, hw * 2, sliceH, depth, p.color));
+                }
+            }
+            runStart = row;
+        }
+    }
+    return { cubes, halfHeight: r };
+};
+
+// Rotated rings on latitude bands, each plank tilted to follow the surface.
+const buildRingSphere = (p: Required<PrimitiveParams>): ShapeResult => {
+    const r = p.radius;
+    const bands = Math.max(2, Math.round(p.segments / 2));
+    const bandAngle = Math.PI / bands;
+    const bandH = 2 * r * Math.sin(bandAngle / 2);
+    const cubes: ModelCube[] = [];
+
+    for (let b = 0; b < bands; b++) {
+        const lat = -Math.PI / 2 + bandAngle * (b + 0.5);
+        const ringR = r * Math.cos(lat);
+        const y = r * Math.sin(lat);
+        const count = Math.max(4, Math.round(p.segments * Math.cos(lat)));
+        const side = 2 * ringR * Math.sin(Math.PI / count) + p.thickness * Math.abs(Math.sin(lat));
+        const dist = ringR - (p.thickness / 2) * Math.cos(lat);
+        for (let k = 0; k < count; k++) {
+            const yaw = (360 / count) * k;
+            const rad = THREE.MathUtils.degToRad(yaw);
+            // Positive pitch tilts the plank's outward normal (+Z) upward
+            const pitch = -THREE.MathUtils.radToDeg(lat);
+            cubes.push(boxAt(
+                dist * Math.sin(rad), y - (p.thickness / 2) * Math.sin(lat), dist * Math.cos(rad),
+                side, bandH, p.thickness, p.color,
+                localToXYZDegrees(yaw, pitch)
+            ));
+        }
+    }
+
+    if (!p.hollow) {
+        const core = ((r - p.thickness) * 2) / Math.sqrt(3);
+        if (core > 0) cubes.push(boxAt(0, 0, 0, core, core, core, p.color));
+    }
+    return { cubes, halfHeight: r };
+};
+
+const buildTorus = (p: Required<PrimitiveParams>): ShapeResult => {
+    const tube = p.thickness;
+    const n = Math.max(6, p.segments);
+    const side = 2 * (p.radius + tube) * Math.sin(Math.PI / n);
+    const cubes: ModelCube[] = [];
+    for (let k = 0; k < n; k++) {
+        const angle = (360 / n) * k;
+        const rad = THREE.MathUtils.degToRad(angle);
+        cubes.push(boxAt(p.radius * Math.sin(rad), 0, p.radius * Math.cos(rad), side, tube * 2, tube * 2, p.color, [0, angle, 0]));
+    }
+    return { cubes, halfHeight: tube };
+};
+
+// Semicircular arch in the XY plane with two legs, opening along Z.
+const buildArch = (p: Required<PrimitiveParams>): ShapeResult => {
+    const r = p.radius;
+    const t = p.thickness;
+    const legH = p.height;
+    const n = Math.max(3, Math.round(p.segments / 2));
+    const mid = r - t / 2;
+    const side = 2 * r * Math.sin(Math.PI / (2 * n));
+    const totalH = legH + r;
+    const base = -totalH / 2;
+    const cubes: ModelCube[] = [];
+
+    if (legH > 0) {
+        cubes.push(boxAt(-mid, base + legH / 2, 0, t, legH, p.depth, p.color));
+        cubes.push(boxAt(mid, base + legH / 2, 0, t, legH, p.depth, p.color));
+    }
+    for (let k = 0; k < n; k++) {
+        const a = (Math.PI / n) * (k + 0.5);
+        cubes.push(boxAt(
+            mid * Math.cos(a), base + legH + mid * Math.sin(a), 0,
+            side, t, p.depth, p.color,
+            [0, 0, THREE.MathUtils.radToDeg(a) - 90]
+        ));
+    }
+    return { cubes, halfHeight: totalH / 2 };
+};
+
+// Steps rise towards +Z so the lowest step faces the model front (-Z).
+const buildStairs = (p: Required<PrimitiveParams>): ShapeResult => {
+    const steps = Math.max(1, Math.round(p.segments));
+    const stepH = p.height / steps;
+    const stepD = p.depth / steps;
+    const width = p.radius * 2;
+    const cubes: ModelCube[] = [];
+    for (let i = 0; i < steps; i++) {
+        const z = -p.depth / 2 + stepD * (i + 0.5);
+        if (p.hollow) {
+            const top = -p.height / 2 + stepH * (i + 1);
+            cubes.push(boxAt(0, top - p.thickness / 2, z, width, Math.min(p.thickness, stepH * (i + 1)), stepD, p.color));
+        } else {
+            const h = stepH * (i + 1);
+            cubes.push(boxAt(0, -p.height / 2 + h / 2, z, width, h, stepD, p.color));
+        }
+    }
+    return { cubes, halfHeight: p.height / 2 };
+};
+
+// --- Public API ---
+
+const withDefaults = (params: PrimitiveParams): Required<PrimitiveParams> => {
+    const radius = Math.max(0.5, params.radius ?? DEFAULT_PRIMITIVE_RADIUS);
+    return {
+        shape: params.shape,
+        radius,
+        height: params.height ?? radius * 2,
+        segments: params.segments ?? (params.shape === 'stairs' ? 4 : Math.max(8, Math.round(radius * 3))),
+        hollow: params.hollow ?? false,
+        thickness: Math.max(0.25, params.thickness ?? 1),
+        depth: params.depth ?? (params.shape === 'stairs' ? radius * 2 : 2),
+        axis: params.axis ?? 'y',
+        sphereMode: params.sphereMode ?? 'voxel',
+        center: params.center ?? [0, 0, 0],
+        color: params.color ?? DEFAULT_COLOR
+    };
+};
+
+// Rotation that takes the generated +Y axis onto the requested axis
+const AXIS_ROTATION: Record<PrimitiveAxis, [number, number, number]> = {
+    y: [0, 0, 0],
+    x: [0, 0, -90],
+    z: [90, 0, 0]
+};
+
+export const generatePrimitiveBone = (params: PrimitiveParams, name: string, parent?: string): ModelBone => {
+    const p = withDefaults(params);
+
+    let result: ShapeResult;
+    switch (p.shape) {
+        case 'cylinder': result = buildCylinder(p); break;
+        case 'cone': result = buildCone(p); break;
+        case 'sphere': result = p.sphereMode === 'ring' ? buildRingSphere(p) : buildVoxelSphere(p); break;
+        case 'torus': result = buildTorus(p); break;
+        case 'arch': result = buildArch(p); break;
+        case 'stairs': result = buildStairs(p); break;
+        case 'cube':
+        default: result = buildCube(p); break;
+    }
+
+    // Sit the shape on its base centre. Sideways shapes rest on their radius.
+    const lift = p.axis === 'y' ? result.halfHeight : p.radius;
+    const pivot: [number, number, number] = [p.center[0], round(p.center[1] + lift), p.center[2]];
+
+    const cubes = result.cubes.map(cube => ({
+        ...cube,
+        origin: [
+            round(cube.origin[0] + pivot[0]),
+            round(cube.origin[1] + pivot[1]),
+            round(cube.origin[2] + pivot[2])
+        ] as [number, number, number]
+    }));
+
+    const bone: ModelBone = { name, pivot, cubes };
+    if (parent) bone.parent = parent;
+    if (p.axis !== 'y') bone.rotation = AXIS_ROTATION[p.axis];
+    return bone;
+};
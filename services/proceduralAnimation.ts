@@ -0,0 +1,292 @@
+import { MinecraftModel, ModelBone, AnimationDefinition, AnimationChannel, AnimationBoneData } from '../types';
+import { formatKeyframeTime, KEYFRAME_TIME_STEP } from './animationEditor';
+import { getBedrockNames } from './bedrockExporter';
+
+// --- Deterministic Procedural Animation ---
+// Finds limbs by bone name (falling back to pivot position) and builds
+// looping cycles from sine waves, so the same rig and settings always give
+// the same keyframes.
+
+export type ProceduralAnimationType = 'idle' | 'walk' | 'run' | 'attack' | 'fly' | 'swim';
+export const PROCEDURAL_ANIMATION_TYPES: ProceduralAnimationType[] = ['idle', 'walk', 'run', 'attack', 'fly', 'swim'];
+
+export interface ProceduralAnimationParams {
+    type: ProceduralAnimationType;
+    speed: number; // Cycles per second multiplier, 1 = natural pace
+    stride: number; // Leg/arm swing multiplier
+    amplitude: number; // Body, head, wing and tail motion multiplier
+}
+
+export const DEFAULT_PROCEDURAL_PARAMS: Omit<ProceduralAnimationParams, 'type'> = { speed: 1, stride: 1, amplitude: 1 };
+
+// --- Limb Detection ---
+
+export type LimbSide = 'left' | 'right' | 'center';
+
+export interface DetectedLimb {
+    bone: string;
+    side: LimbSide;
+    row: number; // Front-to-back index among limbs on the same side
+}
+
+export interface DetectedRig {
+    head?: string;
+    body?: string;
+    arms: DetectedLimb[];
+    legs: DetectedLimb[];
+    wings: DetectedLimb[];
+    fins: DetectedLimb[];
+    tails: string[];
+}
+
+const ROLE_PATTERNS = {
+    head: /head|skull/i,
+    body: /body|torso|chest|pelvis|spine|waist/i,
+    arm: /arm(?!or)|hand|claw/i,
+    leg: /leg|foot|thigh/i,
+    wing: /wing/i,
+    fin: /fin(?![a-z])|flipper/i,
+    tail: /tail/i
+};
+
+const getSide = (bone: ModelBone): LimbSide => {
+    const name = bone.name.toLowerCase();
+    if (/left|(^|[_.\s])l($|[_.\s\d])/.test(name)) return 'left';
+    if (/right|(^|[_.\s])r($|[_.\s\d])/.test(name)) return 'right';
+    // Models face -Z, so their left is +X (arm_left in the player template sits at x = 5)
+    const x = bone.pivot?.[0] || 0;
+    return x > 0.5 ? 'left' : x < -0.5 ? 'right' : 'center';
+};
+
+// Only the top of a chain swings (leg_left, not leg_left_lower)
+const topOfChain = (bones: ModelBone[], pattern: RegExp): ModelBone[] => {
+    const matching = bones.filter(b => pattern.test(b.name));
+    const names = new Set(matching.map(b => b.name));
+    return matching.filter(b => !b.parent || !names.has(b.parent));
+};
+
+const toLimbs = (bones: ModelBone[]): DetectedLimb[] => {
+    const limbs = bones.map(b => ({ bone: b, side: getSide(b) }));
+    return limbs.map(({ bone, side }) => ({
+        bone: bone.name,
+        side,
+        // Front is -Z
+        row: limbs.filter(o => o.side === side && (o.bone.pivot?.[2] || 0) < (bone.pivot?.[2] || 0)).length
+    }));
+};
+
+export const detectRig = (model: MinecraftModel): DetectedRig => {
+    const bones = model.bedrockData?.bones || [];
+    const claimed = new Set<string>();
+    const claim = (list: ModelBone[]) => {
+        const free = list.filter(b => !claimed.has(b.name));
+        free.forEach(b => claimed.add(b.name));
+        return free;
+    };
+
+    // More specific roles first so "wing_arm" is a wing and "tail_fin" a tail
+    const wings = claim(topOfChain(bones, ROLE_PATTERNS.wing));
+    const tails = claim(topOfChain(bones, ROLE_PATTERNS.tail));
+    const fins = claim(topOfChain(bones, ROLE_PATTERNS.fin));
+    const legs = claim(topOfChain(bones, ROLE_PATTERNS.leg));
+    const arms = claim(topOfChain(bones, ROLE_PATTERNS.arm));
+    const head = claim(topOfChain(bones, ROLE_PATTERNS.head))[0];
+    let body = claim(topOfChain(bones, ROLE_PATTERNS.body))[0];
+
+    // Without a named body, the first bone with geometry that parents the others stands in
+    if (!body) {
+        body = bones.find(b => !claimed.has(b.name) && b.cubes.length > 0 && bones.some(c => c.parent === b.name))
+            || bones.find(b => !claimed.has(b.name) && b.cubes.length > 0);
+    }
+
+    return {
+        head: head?.name,
+        body: body?.name,
+        arms: toLimbs(arms),
+        legs: toLimbs(legs),
+        wings: toLimbs(wings),
+        fins: toLimbs(fins),
+        tails: tails.map(b => b.name)
+    };
+};
+
+export const describeRig = (rig: DetectedRig): string => {
+    const parts: string[] = [];
+    if (rig.head) parts.push('head');
+    if (rig.body) parts.push('body');
+    const count = (n: number, word: string) => n > 0 && parts.push(`${n} ${word}${n > 1 ? 's' : ''}`);
+    count(rig.arms.length, 'arm');
+    count(rig.legs.length, 'leg');
+    count(rig.wings.length, 'wing');
+    count(rig.fins.length, 'fin');
+    count(rig.tails.length, 'tail');
+    return parts.length > 0 ? parts.join(', ') : 'nothing recognisable';
+};
+
+// --- Cycle Building ---
+
+const TWO_PI = Math.PI * 2;
+
+// Seconds per cycle at speed 1
+const BASE_LENGTH: Record<ProceduralAnimationType, number> = {
+    idle: 2.0,
+    walk: 1.0,
+    run: 0.6,
+    attack: 0.6,
+    fly: 0.5,
+    swim: 1.2
+};
+
+const SAMPLES_PER_CYCLE = 8;
+
+type Vec3 = [number, number, number];
+type Pose = (angle: number) => Vec3;
+
+const round = (v: number) => Math.round(v * 100) / 100;
+const sideSign = (side: LimbSide) => side === 'right' ? -1 : 1;
+
+// Legs alternate left/right, and along each side, so quadrupeds trot diagonally
+const limbPhase = (limb: DetectedLimb) => ((limb.side === 'right' ? 1 : 0) + limb.row) % 2 === 0 ? 0 : Math.PI;
+
+// Keyframes land on whole ticks so the Hytale export keeps every sample;
+// the last interval may be shorter so the cycle length stays close to the target
+const cycleLength = (type: ProceduralAnimationType, speed: number) => {
+    const ticks = Math.max(4, Math.round(BASE_LENGTH[type] / Math.max(0.1, speed) / KEYFRAME_TIME_STEP));
+    return Number((ticks * KEYFRAME_TIME_STEP).toFixed(4));
+};
+
+const sampleCycle = (pose: Pose, length: number): AnimationChannel => {
+    const ticks = Math.round(length / KEYFRAME_TIME_STEP);
+    const every = Math.max(1, Math.round(ticks / SAMPLES_PER_CYCLE));
+    const keyTicks: number[] = [];
+    for (let tick = 0; tick < ticks; tick += every) keyTicks.push(tick);
+    keyTicks.push(ticks);
+
+    const channel: AnimationChannel = {};
+    keyTicks.forEach(tick => {
+        const value = pose((tick / ticks) * TWO_PI).map(round) as Vec3;
+        channel[formatKeyframeTime(tick * KEYFRAME_TIME_STEP)] = { post: value, lerp_mode: 'catmullrom' };
+    });
+    return channel;
+};
+
+type AddTrack = (bone: string | undefined, channel: 'rotation' | 'position', pose: Pose) => void;
+
+// --- Animation Types ---
+
+type CycleBuilder = (rig: DetectedRig, add: AddTrack, p: ProceduralAnimationParams) => void;
+
+const buildIdle: CycleBuilder = (rig, add, { amplitude: amp }) => {
+    add(rig.body, 'position', a => [0, amp * 0.3 * Math.sin(a), 0]);
+    add(rig.head, 'rotation', a => [amp * 2 * Math.sin(a + Math.PI / 2), 0, 0]);
+    rig.arms.forEach(arm => add(arm.bone, 'rotation', a => [amp * 2 * Math.sin(a), 0, sideSign(arm.side) * amp * (2 + 1.5 * Math.sin(a))]));
+    rig.wings.forEach(wing => add(wing.bone, 'rotation', a => [0, 0, sideSign(wing.side) * amp * 5 * Math.sin(a)]));
+    rig.tails.forEach(tail => add(tail, 'rotation', a => [0, amp * 6 * Math.sin(a), 0]));
+};
+
+const buildGait = (strideDeg: number, bob: number, lean: number): CycleBuilder => (rig, add, { stride, amplitude: amp }) => {
+    const swing = strideDeg * stride;
+    rig.legs.forEach(leg => add(leg.bone, 'rotation', a => [swing * Math.sin(a + limbPhase(leg)), 0, 0]));
+    // Arms swing against the leg on their side
+    rig.arms.forEach(arm => add(arm.bone, 'rotation', a => [swing * 0.8 * Math.sin(a + limbPhase(arm) + Math.PI), 0, 0]));
+    // Two steps per cycle, so the body bobs twice
+    add(rig.body, 'position', a => [0, -bob * amp * Math.abs(Math.sin(a)), 0]);
+    if (lean) add(rig.body, 'rotation', a => [lean * amp + amp * 2 * Math.sin(2 * a), 0, 0]);
+    add(rig.head, 'rotation', a => [-lean * amp + amp * 2 * Math.sin(2 * a), amp * 3 * Math.sin(a), 0]);
+    rig.wings.forEach(wing => add(wing.bone, 'rotation', a => [0, 0, sideSign(wing.side) * amp * 4 * Math.sin(2 * a)]));
+    rig.tails.forEach(tail => add(tail, 'rotation', a => [0, amp * 12 * Math.sin(a), 0]));
+};
+
+const buildFly: CycleBuilder = (rig, add, { stride, amplitude: amp }) => {
+    // Creatures without wings flap their arms
+    const flappers = rig.wings.length > 0 ? rig.wings : rig.arms;
+    flappers.forEach(wing => add(wing.bone, 'rotation', a => [0, 0, sideSign(wing.side) * amp * 40 * Math.sin(a)]));
+    // Legs tuck back and trail slightly
+    rig.legs.forEach(leg => add(leg.bone, 'rotation', a => [-25 * stride + 5 * stride * Math.sin(a + limbPhase(leg)), 0, 0]));
+    // The body rises on the downstroke
+    add(rig.body, 'position', a => [0, -amp * 1.5 * Math.sin(a), 0]);
+    add(rig.head, 'rotation', a => [amp * 3 * Math.sin(a), 0, 0]);
+    rig.tails.forEach(tail => add(tail, 'rotation', a => [amp * 8 * Math.sin(a - Math.PI / 2), 0, 0]));
+};
+
+const buildSwim: CycleBuilder = (rig, add, { stride, amplitude: amp }) => {
+    add(rig.body, 'rotation', a => [0, amp * 8 * Math.sin(a), 0]);
+    add(rig.head, 'rotation', a => [0, -amp * 4 * Math.sin(a), 0]);
+    // The wave travels down the body into the tail
+    rig.tails.forEach(tail => add(tail, 'rotation', a => [0, amp * 20 * Math.sin(a - Math.PI / 2), 0]));
+    [...rig.fins, ...rig.arms, ...rig.wings].forEach(fin => add(fin.bone, 'rotation', a => [0, 0, sideSign(fin.side) * amp * 25 * Math.sin(a)]));
+    rig.legs.forEach(leg => add(leg.bone, 'rotation', a => [20 * stride * Math.sin(a + limbPhase(leg)), 0, 0]));
+};
+
+// A one-shot overhead swing with the right arm, or a head lunge when there are no arms
+const buildAttack = (rig: DetectedRig, params: ProceduralAnimationParams, length: number): AnimationDefinition['bones'] => {
+    const { stride, amplitude: amp } = params;
+    const at = (fraction: number) => formatKeyframeTime(Math.round((fraction * length) / KEYFRAME_TIME_STEP) * KEYFRAME_TIME_STEP);
+    const keys = (values: Vec3[], fractions: number[]): AnimationChannel => {
+        const channel: AnimationChannel = {};
+        values.forEach((v, i) => {
+            // Ease out of the wind-up, snap through the strike, ease back
+            channel[at(fractions[i])] = i === 1
+                ? { post: v.map(round) as Vec3, lerp_mode: 'bezier', bezier: [0.6, 0, 0.9, 0.4] }
+                : { post: v.map(round) as Vec3, lerp_mode: 'bezier', bezier: [0.2, 0.6, 0.4, 1] };
+        });
+        return channel;
+    };
+    const fractions = [0, 0.35, 0.55, 1];
+    const bones: Record<string, AnimationBoneData> = {};
+
+    const arm = rig.arms.find(a => a.side === 'right') || rig.arms[0];
+    if (arm) {
+        bones[arm.bone] = { rotation: keys([[0, 0, 0], [150 * stride, 0, 0], [30 * stride, 0, 0], [0, 0, 0]], fractions) };
+    } else if (rig.head) {
+        bones[rig.head] = { rotation: keys([[0, 0, 0], [-20 * amp, 0, 0], [25 * amp, 0, 0], [0, 0, 0]], fractions) };
+    }
+    if (rig.body) {
+        const twist = (arm?.side === 'left' ? -1 : 1) * amp;
+        bones[rig.body] = {
+            rotation: keys([[0, 0, 0], [0, -15 * twist, 0], [0, 20 * twist, 0], [0, 0, 0]], fractions),
+            position: keys([[0, 0, 0], [0, 0, 1 * amp], [0, 0, -2 * amp], [0, 0, 0]], fractions)
+        };
+    }
+    return bones;
+};
+
+const CYCLES: Record<Exclude<ProceduralAnimationType, 'attack'>, CycleBuilder> = {
+    idle: buildIdle,
+    walk: buildGait(35, 0.5, 0),
+    run: buildGait(55, 1.2, 8),
+    fly: buildFly,
+    swim: buildSwim
+};
+
+// --- Public API ---
+
+export const proceduralAnimationName = (model: MinecraftModel, type: ProceduralAnimationType) =>
+    `animation.${getBedrockNames(model).name}.${type}`;
+
+export const generateProceduralAnimation = (model: MinecraftModel, params: ProceduralAnimationParams): AnimationDefinition => {
+    if (!model.bedrockData) {
+        throw new Error("Procedural animations need an entity model.");
+    }
+
+    const rig = detectRig(model);
+    const length = cycleLength(params.type, params.speed);
+
+    let bones: AnimationDefinition['bones'];
+    if (params.type === 'attack') {
+        bones = buildAttack(rig, params, length);
+    } else {
+        const tracks: Record<string, AnimationBoneData> = {};
+        const add: AddTrack = (bone, channel, pose) => {
+            if (bone) tracks[bone] = { ...(tracks[bone] || {}), [channel]: sampleCycle(pose, length) };
+        };
+        CYCLES[params.type](rig, add, params);
+        bones = tracks;
+    }
+
+    if (!bones || Object.keys(bones).length === 0) {
+        throw new Error(`No bones found to ${params.type} with. Name bones like head, body, arm_left, leg_right, wing_left or tail.`);
+    }
+
+    return { loop: params.type !== 'attack', animation_length: length, bones };
+};
@@ -0,0 +1,112 @@
+import { MinecraftModel, ChatMessage } from '../types';
+import { downloadBlob } from './modelExporter';
+
+// --- Project File Format ---
+// A project bundles everything needed to resume work: the model itself, the
+// texture, the chat history and the editor settings that exports depend on.
+// Unlike the Hytale zip, it is lossless for the app's own state.
+
+export const PROJECT_FORMAT = 'hytaleforge-project';
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.hfproj';
+
+export interface ProjectSettings {
+    textureDensity: '16x' | '32x' | '64x';
+    uvScaleFactor: number;
+    lastPrompt: string;
+}
+
+export interface ProjectState {
+    model: MinecraftModel;
+    textureData: string | null;
+    history: ChatMessage[];
+    settings: ProjectSettings;
+}
+
+export interface ProjectFile extends ProjectState {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    savedAt: string; // ISO timestamp
+}
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+    textureDensity: '16x',
+    uvScaleFactor: 1,
+    lastPrompt: ''
+};
+
+// Blob URLs die with the page, so imported meshes fall back to their cube approximation
+const stripSessionData = (model: MinecraftModel): MinecraftModel => {
+    if (!model.sourceBlobUrl) return model;
+    const { sourceBlobUrl, sourceFormat, ...rest } = model;
+    return rest;
+};
+
+export const createProjectFile = (state: ProjectState): ProjectFile => ({
+    format: PROJECT_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    model: stripSessionData(state.model),
+    textureData: state.textureData,
+    history: state.history.map(msg => msg.modelData ? { ...msg, modelData: stripSessionData(msg.modelData) } : msg),
+    settings: { ...state.settings }
+});
+
+// --- Migrations ---
+// Each entry upgrades a project from version N to N + 1.
+
+const MIGRATIONS: Record<number, (data: any) => any> = {};
+
+const migrateProject = (data: any): any => {
+    let current = data;
+    while (current.version < PROJECT_FILE_VERSION) {
+        const migrate = MIGRATIONS[current.version];
+        if (!migrate) throw new Error(`No migration from project version ${current.version}.`);
+        current = { ...migrate(current), version: current.version + 1 };
+    }
+    return current;
+};
+
+export const parseProjectFile = (text: string): ProjectFile => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (e: any) {
+        throw new Error(`Project file is not valid JSON: ${e.message}`);
+    }
+
+    if (!data || data.format !== PROJECT_FORMAT) {
+        throw new Error("Not a HytaleForge project file.");
+    }
+    if (typeof data.version !== 'number' || data.version > PROJECT_FILE_VERSION) {
+        throw new Error(`Project version ${data.version} is newer than this app supports (${PROJECT_FILE_VERSION}). Please update.`);
+    }
+
+    const migrated = migrateProject(data);
+    if (!migrated.model || !migrated.model.type) {
+        throw new Error("Project file does not contain a model.");
+    }
+
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_FILE_VERSION,
+        savedAt: migrated.savedAt || new Date().toISOString(),
+        model: migrated.model,
+        textureData: migrated.textureData || null,
+        history: Array.isArray(migrated.history) ? migrated.history : [],
+        settings: { ...DEFAULT_PROJECT_SETTINGS, ...(migrated.settings || {}) }
+    };
+};
+
+export const isProjectFileName = (name: string) => name.toLowerCase().endsWith(PROJECT_FILE_EXTENSION);
+
+export const saveProjectFile = (state: ProjectState) => {
+    const project = createProjectFile(state);
+    const filename = (state.model.identifier || "hytale_model").replace(/[:/]/g, '_');
+    const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
+    downloadBlob(blob, `${filename}${PROJECT_FILE_EXTENSION}`);
+};
+
+export const loadProjectFile = async (file: File): Promise<ProjectFile> => {
+    return parseProjectFile(await file.text());
+};
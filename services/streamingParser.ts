@@ -0,0 +1,57 @@
+import { ModelBone } from '../types';
+
+// --- Incremental extraction from a partially streamed model response ---
+// The full response is only valid JSON once the stream ends, but every bone
+// object inside bedrock_data.bones is complete as soon as its closing brace
+// arrives. We scan for those and parse them individually.
+
+// Index just past the '[' that opens bedrock_data.bones, or -1 if not streamed yet
+const findBonesArrayStart = (text: string): number => {
+    const dataIdx = text.indexOf('"bedrock_data"');
+    if (dataIdx === -1) return -1;
+    const match = /"bones"\s*:\s*\[/.exec(text.substring(dataIdx));
+    return match ? dataIdx + match.index + match[0].length : -1;
+};
+
+export const extractPartialBones = (text: string): ModelBone[] => {
+    const start = findBonesArrayStart(text);
+    if (start === -1) return [];
+
+    const bones: ModelBone[] = [];
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let objectStart = -1;
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+
+        if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            if (depth === 0 && char === '{') objectStart = i;
+            depth++;
+        } else if (char === '}' || char === ']') {
+            if (depth === 0) break; // End of the bones array
+            depth--;
+            if (depth === 0 && objectStart !== -1) {
+                try {
+                    const bone = JSON.parse(text.substring(objectStart, i + 1));
+                    if (bone && bone.name && Array.isArray(bone.cubes)) bones.push(bone);
+                } catch (e) {
+                    // Malformed element, skip it; the final validation pass reports it
+                }
+                objectStart = -1;
+            }
+        }
+    }
+
+    return bones;
+};
@@ -0,0 +1,239 @@
+import { MinecraftModel, ModelBone, ModelCube, ModelAttachment, ModelSelection, CubeFaceName, CubeFaceUV, AnimationChannel, AnimationBoneData, KeyframeValue } from '../types';
+import { Vec3 } from './animationMath';
+import { getDescendantNames, getParentName } from './hierarchyEditor';
+
+// --- Symmetry ---
+// Mirrors across the X = 0 plane. Bedrock puts an entity's left side at +X,
+// so "left → right" copies the +X half onto the -X half.
+
+export type SymmetrySide = 'left' | 'right';
+
+// Side words as bone names spell them: arm_left, leftArm, LeftLeg, l_arm, arm.r.
+// Lower-case words need a non-letter before them so "bright" is not a side.
+const SIDE_WORD = /(?<![a-zA-Z])(?:left|right)|(?<![A-Z])(?:Left|Right|LEFT|RIGHT)/g;
+const SHORT_PREFIX = /^([lrLR])([_.])/;
+const SHORT_SUFFIX = /([_.])([lrLR])$/;
+
+const OPPOSITE: Record<string, string> = {
+    left: 'right', right: 'left', Left: 'Right', Right: 'Left', LEFT: 'RIGHT', RIGHT: 'LEFT',
+    l: 'r', r: 'l', L: 'R', R: 'L'
+};
+
+// Swaps left/right in a name; names without a side come back unchanged
+export const mirrorName = (name: string): string => {
+    if (name.match(SIDE_WORD)) return name.replace(SIDE_WORD, m => OPPOSITE[m]);
+    if (SHORT_PREFIX.test(name)) return name.replace(SHORT_PREFIX, (_, c, sep) => OPPOSITE[c] + sep);
+    if (SHORT_SUFFIX.test(name)) return name.replace(SHORT_SUFFIX, (_, sep, c) => sep + OPPOSITE[c]);
+    return name;
+};
+
+export const getNameSide = (name: string): SymmetrySide | undefined => {
+    const word = name.match(SIDE_WORD)?.[0] || name.match(SHORT_PREFIX)?.[1] || name.match(SHORT_SUFFIX)?.[2];
+    if (!word) return undefined;
+    return word[0].toLowerCase() === 'l' ? 'left' : 'right';
+};
+
+// --- Geometry ---
+
+const round = (v: number) => Math.round(v * 1000) / 1000 || 0; // also folds -0
+const mirrorPoint = (p: number[]): Vec3 => [round(-p[0]), round(p[1]), round(p[2])];
+const mirrorRotation = (r?: number[]): Vec3 | undefined => r ? [round(r[0]), round(-r[1]), round(-r[2])] : undefined;
+
+const MIRRORED_FACE: Record<CubeFaceName, CubeFaceName> = {
+    north: 'north', south: 'south', up: 'up', down: 'down', east: 'west', west: 'east'
+};
+
+// Box UVs flip through the mirror flag; per-face UVs swap east/west and read right-to-left
+const mirrorFaces = (faces: Partial<Record<CubeFaceName, CubeFaceUV>>) =>
+    Object.fromEntries(Object.entries(faces).map(([name, face]) => {
+        const [u1, v1, u2, v2] = face!.uv;
+        return [MIRRORED_FACE[name as CubeFaceName], { ...face, uv: [u2, v1, u1, v2] }];
+    })) as Partial<Record<CubeFaceName, CubeFaceUV>>;
+
+export const mirrorCube = (cube: ModelCube): ModelCube => {
+    const mirrored: ModelCube = {
+        ...cube,
+        origin: [round(-(cube.origin[0] + cube.size[0])), cube.origin[1], cube.origin[2]],
+        rotation: mirrorRotation(cube.rotation),
+        mirror: !cube.mirror || undefined
+    };
+    if (cube.pivot) mirrored.pivot = mirrorPoint(cube.pivot);
+    if (cube.faces) mirrored.faces = mirrorFaces(cube.faces);
+    if (!mirrored.rotation) delete mirrored.rotation;
+    if (!mirrored.mirror) delete mirrored.mirror;
+    return mirrored;
+};
+
+// AI-generated rigs list attachments as bare names; those only get their name mirrored
+const mirrorAttachment = (att: ModelAttachment | string): ModelAttachment => {
+    if (typeof att === 'string') return mirrorName(att) as unknown as ModelAttachment;
+    return { ...att, name: mirrorName(att.name), position: mirrorPoint(att.position || [0, 0, 0]) };
+};
+
+const mirrorBone = (bone: ModelBone, bones: ModelBone[]): ModelBone => {
+    const mirrored: ModelBone = {
+        ...bone,
+        name: mirrorName(bone.name),
+        pivot: mirrorPoint(bone.pivot),
+        cubes: bone.cubes.map(mirrorCube)
+    };
+    const parent = getParentName(bones, bone);
+    if (parent) mirrored.parent = bones.some(b => b.name === mirrorName(parent)) ? mirrorName(parent) : parent;
+    if (bone.rotation) mirrored.rotation = mirrorRotation(bone.rotation);
+    if (bone.attachments) {
+        mirrored.attachments = bone.attachments.map(mirrorAttachment);
+    }
+    return mirrored;
+};
+
+// --- Animation ---
+
+const mirrorKeyframe = (value: KeyframeValue, flip: (v: number[]) => Vec3): KeyframeValue => {
+    if (Array.isArray(value)) return flip(value);
+    return { ...value, post: flip(value.post), ...(value.pre ? { pre: flip(value.pre) } : {}) };
+};
+
+const mirrorChannel = (channel: AnimationChannel, flip: (v: number[]) => Vec3): AnimationChannel =>
+    Object.fromEntries(Object.entries(channel).map(([t, v]) => [t, mirrorKeyframe(v, flip)]));
+
+export const mirrorBoneAnimation = (data: AnimationBoneData): AnimationBoneData => {
+    const out: AnimationBoneData = JSON.parse(JSON.stringify(data));
+    if (data.rotation) out.rotation = mirrorChannel(data.rotation, r => mirrorRotation(r)!);
+    if (data.position) out.position = mirrorChannel(data.position, mirrorPoint);
+    return out;
+};
+
+// Copies each listed bone's animation onto its mirrored name, replacing what was there
+const mirrorAnimations = (model: MinecraftModel, pairs: [string, string][]): MinecraftModel => {
+    if (!model.animations || pairs.length === 0) return model;
+    const animations = Object.fromEntries(Object.entries(model.animations).map(([key, anim]) => {
+        const bones = { ...(anim.bones || {}) };
+        pairs.forEach(([from, to]) => {
+            if (bones[from]) bones[to] = mirrorBoneAnimation(bones[from]);
+            else delete bones[to];
+        });
+        return [key, { ...anim, bones }];
+    }));
+    return { ...model, animations };
+};
+
+// --- Operations ---
+
+const withBones = (model: MinecraftModel, bones: ModelBone[]): MinecraftModel => ({
+    ...model,
+    bedrockData: { ...model.bedrockData!, bones }
+});
+
+const isCentered = (cube: ModelCube) => Math.abs(cube.origin[0] * 2 + cube.size[0]) < 1e-3;
+const cubeCenterX = (cube: ModelCube) => cube.origin[0] + cube.size[0] / 2;
+const sameCube = (a: ModelCube, b: ModelCube) =>
+    [...a.origin, ...a.size].every((v, i) => Math.abs(v - [...b.origin, ...b.size][i]) < 1e-3);
+
+// Writes mirrored copies of the given side bones onto their counterparts,
+// creating counterparts that don't exist yet right after the source bone
+const writeCounterparts = (model: MinecraftModel, sources: string[]): MinecraftModel => {
+    let bones = [...model.bedrockData!.bones];
+    const pairs: [string, string][] = [];
+
+    sources.forEach(name => {
+        const source = bones.find(b => b.name === name)!;
+        const target = mirrorName(name);
+        if (target === name) return;
+        pairs.push([name, target]);
+        const mirrored = mirrorBone(source, bones);
+        const existing = bones.findIndex(b => b.name === target);
+        if (existing >= 0) bones[existing] = mirrored;
+        else bones.splice(bones.findIndex(b => b.name === name) + 1, 0, mirrored);
+    });
+
+    // Parents can only be resolved once every counterpart exists
+    const created = new Set(pairs.map(([, to]) => to));
+    bones = bones.map(b => {
+        if (!created.has(b.name)) return b;
+        const source = bones.find(s => s.name === mirrorName(b.name))!;
+        const parent = getParentName(bones, source);
+        if (!parent) return b;
+        return { ...b, parent: bones.some(p => p.name === mirrorName(parent)) ? mirrorName(parent) : parent };
+    });
+
+    return mirrorAnimations(withBones(model, bones), pairs);
+};
+
+// Replaces one half of a center bone's cubes with mirrored copies of the other half
+const symmetrizeCenterBone = (bone: ModelBone, from: SymmetrySide): ModelBone => {
+    const sign = from === 'left' ? 1 : -1;
+    const kept = bone.cubes.filter(c => isCentered(c) || cubeCenterX(c) * sign > 0);
+    const mirrored = kept.filter(c => !isCentered(c)).map(mirrorCube);
+    return { ...bone, cubes: [...kept, ...mirrored] };
+};
+
+export const symmetrizeModel = (model: MinecraftModel, from: SymmetrySide): MinecraftModel => {
+    if (!model.bedrockData) throw new Error("Symmetry tools need an entity model.");
+    const bones = model.bedrockData.bones;
+    const sources = bones.filter(b => getNameSide(b.name) === from && mirrorName(b.name) !== b.name).map(b => b.name);
+    // Unsided bones hanging off a sided limb (e.g. a "hand" under "arm_left") live wholly on one side
+    const onLimbs = new Set(bones.filter(b => getNameSide(b.name)).flatMap(b => [...getDescendantNames(bones, b.name)]));
+    const centered = withBones(model, bones.map(b => getNameSide(b.name) || onLimbs.has(b.name) ? b : symmetrizeCenterBone(b, from)));
+    return writeCounterparts(centered, sources);
+};
+
+// Bones: mirror the bone (and its subtree) onto the opposite side, or flip a center bone in place.
+// Cubes: add a mirrored copy to the counterpart bone, or to the same bone if there is none.
+export const mirrorSelection = (model: MinecraftModel, selection: ModelSelection): MinecraftModel => {
+    const bones = model.bedrockData?.bones;
+    const bone = bones?.[selection.boneIndex];
+    if (!bones || !bone) throw new Error("Nothing selected to mirror.");
+
+    if (selection.cubeIndex !== undefined) {
+        const cube = bone.cubes[selection.cubeIndex];
+        if (!cube) throw new Error("Cube not found.");
+        const targetIndex = bones.findIndex(b => b.name === mirrorName(bone.name));
+        const next = [...bones];
+        const target = targetIndex >= 0 ? targetIndex : selection.boneIndex;
+        next[target] = { ...next[target], cubes: [...next[target].cubes, mirrorCube(cube)] };
+        return withBones(model, next);
+    }
+
+    if (mirrorName(bone.name) === bone.name) {
+        const next = [...bones];
+        next[selection.boneIndex] = { ...mirrorBone(bone, bones), name: bone.name, parent: bone.parent };
+        return withBones(model, next);
+    }
+
+    const subtree = [bone.name, ...bones.filter(b => getDescendantNames(bones, bone.name).has(b.name)).map(b => b.name)];
+    return writeCounterparts(model, subtree.filter(name => mirrorName(name) !== name));
+};
+
+// --- Live Symmetry ---
+
+// After an edit, pushes every changed side bone onto its counterpart and keeps
+// mirrored cube pairs inside center bones in step.
+export const applySymmetry = (before: MinecraftModel, after: MinecraftModel): MinecraftModel => {
+    const oldBones = before.bedrockData?.bones || [];
+    const newBones = after.bedrockData?.bones || [];
+    if (oldBones.length !== newBones.length) return after;
+
+    const changed = newBones.filter((b, i) => b !== oldBones[i]);
+    const sides = changed.filter(b => mirrorName(b.name) !== b.name && newBones.some(o => o.name === mirrorName(b.name)));
+    // If both halves changed (e.g. a parent moved), the edit already handled them
+    const sources = sides.filter(b => !sides.some(o => o.name === mirrorName(b.name))).map(b => b.name);
+
+    let result = after;
+    const centerChanged = changed.filter(b => mirrorName(b.name) === b.name);
+    if (centerChanged.length) {
+        const bones = newBones.map((bone, i) => {
+            if (!centerChanged.includes(bone)) return bone;
+            const old = oldBones[i];
+            if (old.cubes.length !== bone.cubes.length) return bone;
+            const cubes = [...bone.cubes];
+            bone.cubes.forEach((cube, c) => {
+                if (cube === old.cubes[c] || sameCube(cube, old.cubes[c])) return;
+                const partner = old.cubes.findIndex((o, j) => j !== c && sameCube(mirrorCube(old.cubes[c]), o));
+                if (partner >= 0) cubes[partner] = mirrorCube(cube);
+            });
+            return { ...bone, cubes };
+        });
+        result = withBones(result, bones);
+    }
+    return sources.length ? writeCounterparts(result, sources) : result;
+};
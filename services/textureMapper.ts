@@ -1,112 +1,337 @@
-import { MinecraftModel, ModelCube } from '../types';
+import { MinecraftModel, ModelCube, CubeFaceName } from '../types';
+import { getNameSide, mirrorName } from './symmetry';
+import { CUBE_FACE_NAMES, getFaceSize, getFaceRect, isFaceTurned, setFaceRect } from './faceUv';
 
 // Constants for packing
 const PADDING = 2; // Increase padding to prevent bleed
 const MIN_TEXTURE_SIZE = 64;
 
-interface BoxPackerItem {
-    id: string; // boneIndex_cubeIndex
-    w: number;
+export type TextureDensity = '16x' | '32x' | '64x';
+
+export interface PackOptions {
+    density?: TextureDensity;
+    uvScale?: number;        // texture pixels per model unit; overrides density once a texture is applied
+    stable?: boolean;        // keep every island that is still valid, place only new or broken ones
+    shareIslands?: boolean;  // let identical and mirrored cubes sample the same island
+}
+
+export interface PackReport {
+    textureSize: [number, number];
+    cubes: number;
+    islands: number;      // distinct islands in the atlas
+    shared: number;       // cubes reusing another cube's island
+    kept: number;         // islands left where they were (stable mode)
+    placed: number;       // islands given a new position
+    usedPixels: number;
+    efficiency: number;   // usedPixels / atlas area, 0..1
+    grown: boolean;       // stable mode had to enlarge the texture
+}
+
+export interface UvRect { x: number; y: number; w: number; h: number; }
+
+interface Island {
+    cubes: { boneIndex: number; cubeIndex: number; mirror?: boolean }[];  // mirror: flag to write back on a shared island
+    face?: CubeFaceName;  // per-face islands hold one face of one cube
+    w: number;            // footprint of the box UV net or face
     h: number;
-    cubeRef: ModelCube;
+    rects: UvRect[];      // the pixels the island currently samples, relative to its corner
+    uv?: [number, number];
 }
 
 // Pixel Density: 
 // 1 = 16px/unit (Standard)
 // 2 = 32px/unit (Prop)
 // 4 = 64px/unit (Avatar)
-const getBoxUVSize = (cube: ModelCube, densityScale: number): { w: number, h: number } => {
-    const [w, h, d] = cube.size;
-    const rw = Math.ceil(w * densityScale);
-    const rh = Math.ceil(h * densityScale);
-    const rd = Math.ceil(d * densityScale);
-    
-    // Standard Box UV footprint
-    return {
-        w: 2 * (rw + rd),
-        h: rd + rh
-    };
+export const DENSITY_SCALE: Record<TextureDensity, number> = { '16x': 1, '32x': 2, '64x': 4 };
+
+const getBoxUVDims = (cube: ModelCube, scale: number): [number, number, number] =>
+    cube.size.map(s => Math.ceil(Math.abs(s) * scale)) as [number, number, number];
+
+// Standard Box UV net: top + bottom strip above the four side faces
+export const getBoxUVRects = (cube: ModelCube, scale: number): UvRect[] => {
+    const [w, h, d] = getBoxUVDims(cube, scale);
+    return [
+        { x: d, y: 0, w: 2 * w, h: d },
+        { x: 0, y: d, w: 2 * (w + d), h }
+    ].filter(r => r.w > 0 && r.h > 0);
 };
 
-export const packUVs = (model: MinecraftModel, density: '16x' | '32x' | '64x' = '16x'): MinecraftModel => {
-    if (model.type !== 'ENTITY' || !model.bedrockData?.bones) return model;
+export const rectsOverlap = (a: UvRect, b: UvRect) =>
+    a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
 
-    let densityScale = 1;
-    if (density === '32x') densityScale = 2;
-    if (density === '64x') densityScale = 4;
+const offsetRects = (rects: UvRect[], [u, v]: [number, number]) => rects.map(r => ({ ...r, x: r.x + u, y: r.y + v }));
 
-    const items: BoxPackerItem[] = [];
+// --- Island Sharing ---
 
-    // 1. Collect all cubes
-    model.bedrockData.bones.forEach((bone, bIdx) => {
-        bone.cubes.forEach((cube, cIdx) => {
-            const size = getBoxUVSize(cube, densityScale);
-            items.push({
-                id: `${bIdx}_${cIdx}`,
-                w: size.w,
-                h: size.h,
-                cubeRef: cube
-            });
+const sizeKey = (cube: ModelCube, scale: number) => `${getBoxUVDims(cube, scale).join('x')}/${cube.inflate || 0}`;
+
+// "arm_right" and "arm_left", or "leg0" and "leg3", name the same kind of limb
+const limbKey = (name: string) => (getNameSide(name) === 'right' ? mirrorName(name) : name).replace(/\d+$/, '');
+
+const isXMirrorOf = (a: ModelCube, b: ModelCube) =>
+    Math.abs(a.origin[0] + a.size[0] + b.origin[0]) < 1e-3 &&
+    Math.abs(a.origin[1] - b.origin[1]) < 1e-3 &&
+    Math.abs(a.origin[2] - b.origin[2]) < 1e-3;
+
+// Which side of the model's X axis a cube sits on; 0 for cubes centered on it
+const xSide = (cube: ModelCube) => Math.sign(Math.round((cube.origin[0] + cube.size[0] / 2) * 1000));
+
+const sameUv = (a: ModelCube, b: ModelCube) => !!a.uv && !!b.uv && a.uv[0] === b.uv[0] && a.uv[1] === b.uv[1];
+
+// Per-face cubes: every face with pixels is its own island, sized to the cube.
+// Faces a flat quad has no depth for take no space at all.
+const collectFaceIslands = (model: MinecraftModel, scale: number): Island[] =>
+    model.bedrockData!.bones.flatMap((bone, boneIndex) => bone.cubes.flatMap((cube, cubeIndex) =>
+        CUBE_FACE_NAMES.flatMap(name => {
+            const face = cube.faces?.[name];
+            if (!face) return [];
+            const [fw, fh] = getFaceSize(cube, name, scale);
+            if (fw === 0 || fh === 0) return [];
+            const { x, y, w, h } = getFaceRect(face);
+            const current = { x: 0, y: 0, w, h };
+            return [{
+                cubes: [{ boneIndex, cubeIndex }],
+                face: name,
+                w: isFaceTurned(face) ? fh : fw,
+                h: isFaceTurned(face) ? fw : fh,
+                rects: current.w > 0 && current.h > 0 ? [current] : [],
+                uv: [x, y] as [number, number]
+            }];
+        })));
+
+// Groups cubes into islands. Cubes only ever share when their nets are the same size;
+// stable mode also keeps islands that were already shared, sharing mode adds limb
+// pairs (same cube of a left/right or numbered bone) and exact X mirror images.
+const collectIslands = (model: MinecraftModel, scale: number, options: PackOptions): Island[] => {
+    const bones = model.bedrockData!.bones;
+    const entries = bones.flatMap((bone, boneIndex) => bone.cubes.map((cube, cubeIndex) => ({
+        boneIndex, cubeIndex, cube, key: sizeKey(cube, scale), limb: `${limbKey(bone.name)}#${cubeIndex}`
+    }))).filter(e => !e.cube.faces);
+
+    const parent = entries.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    for (let i = 0; i < entries.length; i++) {
+        for (let j = i + 1; j < entries.length; j++) {
+            const a = entries[i];
+            const b = entries[j];
+            if (a.key !== b.key) continue;
+            const share = (options.stable && sameUv(a.cube, b.cube)) ||
+                (options.shareIslands && (a.limb === b.limb || isXMirrorOf(a.cube, b.cube)));
+            if (share) parent[find(j)] = find(i);
+        }
+    }
+
+    const islands = new Map<number, Island>();
+    const leaders = new Map<number, ModelCube>();
+    entries.forEach((e, i) => {
+        const root = find(i);
+        const island = islands.get(root);
+        if (island) {
+            const ref: Island['cubes'][number] = { boneIndex: e.boneIndex, cubeIndex: e.cubeIndex };
+            if (options.shareIslands) {
+                // A cube on the other side samples the island flipped, so its outer side gets the leader's outer texels
+                const leader = leaders.get(root)!;
+                const opposite = xSide(e.cube) * xSide(leader) < 0;
+                ref.mirror = opposite ? !leader.mirror : !!leader.mirror;
+            }
+            island.cubes.push(ref);
+            return;
+        }
+        leaders.set(root, e.cube);
+        const [w, h, d] = getBoxUVDims(e.cube, scale);
+        islands.set(root, {
+            cubes: [{ boneIndex: e.boneIndex, cubeIndex: e.cubeIndex }],
+            w: 2 * (w + d),
+            h: d + h,
+            rects: getBoxUVRects(e.cube, scale),
+            uv: e.cube.uv ? [e.cube.uv[0], e.cube.uv[1]] : undefined
         });
     });
+    return [...islands.values(), ...collectFaceIslands(model, scale)];
+};
 
-    // 2. Sort by height (descending) for simple shelf packing
-    items.sort((a, b) => b.h - a.h);
+// --- MaxRects ---
+// Free space is a list of maximal (possibly overlapping) rectangles; each placement
+// splits every free rect it touches and drops the ones contained in another.
 
-    // 3. Simple Shelf Packing
-    const totalArea = items.reduce((acc, item) => acc + (item.w * item.h), 0);
-    
-    // Estimate side length, then find next power of 2
-    let dim = MIN_TEXTURE_SIZE;
-    while ((dim * dim) < totalArea * 1.5) { 
-        dim *= 2;
-    }
+const subtractRect = (free: UvRect[], used: UvRect): UvRect[] => {
+    const next: UvRect[] = [];
+    free.forEach(f => {
+        if (!rectsOverlap(f, used)) {
+            next.push(f);
+            return;
+        }
+        if (used.x > f.x) next.push({ x: f.x, y: f.y, w: used.x - f.x, h: f.h });
+        if (used.x + used.w < f.x + f.w) next.push({ x: used.x + used.w, y: f.y, w: f.x + f.w - used.x - used.w, h: f.h });
+        if (used.y > f.y) next.push({ x: f.x, y: f.y, w: f.w, h: used.y - f.y });
+        if (used.y + used.h < f.y + f.h) next.push({ x: f.x, y: used.y + used.h, w: f.w, h: f.y + f.h - used.y - used.h });
+    });
+    const contains = (a: UvRect, b: UvRect) => a.x <= b.x && a.y <= b.y && a.x + a.w >= b.x + b.w && a.y + a.h >= b.y + b.h;
+    return next.filter((r, i) => !next.some((o, j) => j !== i && contains(o, r) && (!contains(r, o) || j < i)));
+};
 
-    let textureW = dim;
-    let textureH = dim;
-    
-    let currentX = 0;
-    let currentY = 0;
-    let rowHeight = 0;
-
-    items.forEach(item => {
-        if (currentX + item.w > textureW) {
-            // New Row
-            currentX = 0;
-            currentY += rowHeight + PADDING;
-            rowHeight = 0;
+// Best-short-side-fit, ties broken towards the top-left so layouts stay readable
+const findPosition = (free: UvRect[], w: number, h: number): [number, number] | null => {
+    let best: [number, number] | null = null;
+    let bestShort = Infinity;
+    let bestLong = Infinity;
+    for (const f of free) {
+        if (f.w < w || f.h < h) continue;
+        const short = Math.min(f.w - w, f.h - h);
+        const long = Math.max(f.w - w, f.h - h);
+        const better = short < bestShort || (short === bestShort && (long < bestLong ||
+            (long === bestLong && best !== null && (f.y < best[1] || (f.y === best[1] && f.x < best[0])))));
+        if (better) {
+            best = [f.x, f.y];
+            bestShort = short;
+            bestLong = long;
         }
+    }
+    return best;
+};
+
+// Places islands into a width × height atlas around the fixed ones; null if they don't all fit
+const placeIslands = (islands: Island[], fixed: UvRect[], width: number, height: number): [number, number][] | null => {
+    // Padding sits on the right/bottom of each island, so let it hang past the atlas edge
+    let free: UvRect[] = [{ x: 0, y: 0, w: width + PADDING, h: height + PADDING }];
+    fixed.forEach(r => { free = subtractRect(free, { ...r, w: r.w + PADDING, h: r.h + PADDING }); });
+
+    const positions: [number, number][] = [];
+    for (const island of islands) {
+        const pos = findPosition(free, island.w + PADDING, island.h + PADDING);
+        if (!pos) return null;
+        positions.push(pos);
+        free = subtractRect(free, { x: pos[0], y: pos[1], w: island.w + PADDING, h: island.h + PADDING });
+    }
+    return positions;
+};
+
+const bySizeDescending = (a: Island, b: Island) => b.h - a.h || b.w - a.w;
+
+// --- Packing ---
 
-        // Check vertical overflow
-        if (currentY + item.h > textureH) {
-             textureH *= 2;
+export const packUVLayout = (model: MinecraftModel, options: PackOptions = {}): { model: MinecraftModel; report: PackReport | null } => {
+    if (model.type !== 'ENTITY' || !model.bedrockData?.bones) return { model, report: null };
+
+    const scale = options.uvScale || DENSITY_SCALE[options.density || '16x'];
+    const islands = collectIslands(model, scale, options);
+    const currentSize = model.bedrockData.texture_size || [MIN_TEXTURE_SIZE, MIN_TEXTURE_SIZE];
+
+    let width: number;
+    let height: number;
+    const kept: Island[] = [];
+    let pending: Island[];
+
+    if (options.stable) {
+        [width, height] = currentSize;
+        // Keep islands in model order; a later island that collides with a kept one is re-placed
+        const keptRects: UvRect[] = [];
+        pending = [];
+        islands.forEach(island => {
+            const rects = island.uv ? offsetRects(island.rects, island.uv) : [];
+            const valid = island.uv && rects.length > 0 && island.uv[0] >= 0 && island.uv[1] >= 0 &&
+                rects.every(r => r.x + r.w <= width && r.y + r.h <= height) &&
+                !rects.some(r => keptRects.some(k => rectsOverlap(r, k)));
+            if (valid) {
+                kept.push(island);
+                keptRects.push(...rects);
+            } else {
+                pending.push(island);
+            }
+        });
+        pending.sort(bySizeDescending);
+
+        // Grow downwards or rightwards only, so kept pixels stay where they are
+        let positions = placeIslands(pending, keptRects, width, height);
+        while (!positions) {
+            if (height <= width) height *= 2;
+            else width *= 2;
+            positions = placeIslands(pending, keptRects, width, height);
         }
+        pending.forEach((island, i) => { island.uv = positions![i]; });
+    } else {
+        pending = [...islands].sort(bySizeDescending);
+        const totalArea = pending.reduce((acc, i) => acc + (i.w + PADDING) * (i.h + PADDING), 0);
+        // Estimate side length, then find next power of 2
+        let dim = MIN_TEXTURE_SIZE;
+        while (dim * dim < totalArea) dim *= 2;
+        let positions = placeIslands(pending, [], dim, dim);
+        while (!positions) {
+            dim *= 2;
+            positions = placeIslands(pending, [], dim, dim);
+        }
+        pending.forEach((island, i) => { island.uv = positions![i]; });
+        width = dim;
+        height = dim;
+    }
 
-        // Assign UV
-        item.cubeRef.uv = [currentX, currentY];
-        
-        // Update cursors
-        currentX += item.w + PADDING;
-        rowHeight = Math.max(rowHeight, item.h);
+    const newModel: MinecraftModel = JSON.parse(JSON.stringify(model));
+    newModel.bedrockData!.texture_size = [width, height];
+    const placed = new Set(pending);
+    islands.forEach(island => {
+        island.cubes.forEach(({ boneIndex, cubeIndex, mirror }) => {
+            const cube = newModel.bedrockData!.bones[boneIndex].cubes[cubeIndex];
+            if (!island.face) {
+                cube.uv = [island.uv![0], island.uv![1]];
+                if (mirror) cube.mirror = true;
+                else if (mirror === false) delete cube.mirror;
+            } else if (placed.has(island)) {
+                cube.faces![island.face] = setFaceRect(cube.faces![island.face]!, island.uv!, island.w, island.h);
+                island.rects = [{ x: 0, y: 0, w: island.w, h: island.h }];
+            }
+        });
     });
 
-    // Enforce Square if possible, or power of two
-    if (textureH > textureW) textureW = textureH;
-    if (textureW > textureH) textureH = textureW;
+    const usedPixels = islands.reduce((acc, i) => acc + i.rects.reduce((a, r) => a + r.w * r.h, 0), 0);
+    const boxIslands = islands.filter(i => !i.face);
+    const boxCubes = boxIslands.reduce((acc, i) => acc + i.cubes.length, 0);
+    const cubes = boxCubes + new Set(islands.filter(i => i.face).map(i => `${i.cubes[0].boneIndex}_${i.cubes[0].cubeIndex}`)).size;
+    return {
+        model: newModel,
+        report: {
+            textureSize: [width, height],
+            cubes,
+            islands: islands.length,
+            shared: boxCubes - boxIslands.length,
+            kept: kept.length,
+            placed: pending.length,
+            usedPixels,
+            efficiency: usedPixels / (width * height),
+            grown: width !== currentSize[0] || height !== currentSize[1]
+        }
+    };
+};
 
-    // Update Model Metadata
-    const newModel = JSON.parse(JSON.stringify(model));
-    newModel.bedrockData.texture_size = [textureW, textureH];
-    
-    // Re-apply UVs to the new model structure
-    items.forEach(item => {
-        const [bIdx, cIdx] = item.id.split('_').map(Number);
-        newModel.bedrockData.bones[bIdx].cubes[cIdx].uv = item.cubeRef.uv;
-    });
+export const packUVs = (model: MinecraftModel, density: TextureDensity = '16x'): MinecraftModel =>
+    packUVLayout(model, { density }).model;
 
-    return newModel;
+export const formatPackReport = (report: PackReport): string => {
+    const [w, h] = report.textureSize;
+    const parts = [`${w}×${h}`, `${report.islands} islands`, `${Math.round(report.efficiency * 100)}% used`];
+    if (report.shared) parts.push(`${report.shared} shared`);
+    if (report.kept) parts.push(`${report.kept} kept`);
+    return parts.join(' · ');
 };
 
+// Extends a texture to a larger canvas without moving existing pixels,
+// for stable repacks that had to grow the atlas
+export const padTextureImage = (dataUrl: string, width: number, height: number): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error("Canvas is not available."));
+            ctx.drawImage(img, 0, 0);
+            resolve(canvas.toDataURL('image/png'));
+        };
+        img.onerror = () => reject(new Error("Could not read the current texture."));
+        img.src = dataUrl;
+    });
+
 // Scales the UVs of a model to match a new texture resolution
 export const scaleModelUVs = (model: MinecraftModel, newWidth: number, newHeight: number): MinecraftModel => {
     if (!model.bedrockData) return model;
@@ -137,7 +362,12 @@ export const scaleModelUVs = (model: MinecraftModel, newWidth: number, newHeight
 };
 
 
-export const drawTextureLayout = (model: MinecraftModel, density: '16x' | '32x' | '64x' = '16x'): string => {
+const FACE_LAYOUT_COLORS: Record<CubeFaceName, string> = {
+    up: '#ffcccc', down: '#cc0000', east: '#ccccff', north: '#ccffcc', west: '#0000cc', south: '#00cc00'
+};
+
+// uvScale overrides the density once the layout lives in an applied texture's pixel space
+export const drawTextureLayout = (model: MinecraftModel, density: '16x' | '32x' | '64x' = '16x', uvScale?: number): string => {
     if (model.type !== 'ENTITY' || !model.bedrockData) return "";
 
     const [texW, texH] = model.bedrockData.texture_size || [MIN_TEXTURE_SIZE, MIN_TEXTURE_SIZE];
@@ -155,9 +385,22 @@ export const drawTextureLayout = (model: MinecraftModel, density: '16x' | '32x'
     let scale = 1;
     if (density === '32x') scale = 2;
     if (density === '64x') scale = 4;
+    if (uvScale) scale = uvScale;
 
     model.bedrockData.bones.forEach((bone, bIdx) => {
         bone.cubes.forEach((cube) => {
+            if (cube.faces) {
+                // Per-face cubes: same colours as the matching box regions below
+                ctx.lineWidth = 1;
+                ctx.strokeStyle = '#000000';
+                Object.entries(cube.faces).forEach(([name, face]) => {
+                    const [u1, v1, u2, v2] = face!.uv;
+                    ctx.fillStyle = FACE_LAYOUT_COLORS[name as CubeFaceName];
+                    ctx.fillRect(Math.min(u1, u2), Math.min(v1, v2), Math.abs(u2 - u1), Math.abs(v2 - v1));
+                    ctx.strokeRect(Math.min(u1, u2), Math.min(v1, v2), Math.abs(u2 - u1), Math.abs(v2 - v1));
+                });
+                return;
+            }
             if (!cube.uv) return;
             const [u, v] = cube.uv;
             
@@ -0,0 +1,145 @@
+import { MinecraftModel } from '../types';
+
+// --- Pixel Painting ---
+// Strokes are painted into a raw RGBA buffer sized to the model's texture_size,
+// so one buffer pixel is one UV texel. The buffer is encoded back to a PNG data URL
+// for the viewer, the UV canvas and history.
+
+export type PaintTool = 'pencil' | 'eraser' | 'fill' | 'picker' | 'line';
+export type Texel = [number, number];
+export type Rgba = [number, number, number, number];
+
+export interface PixelBuffer {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+export const PAINT_TOOLS: PaintTool[] = ['pencil', 'eraser', 'fill', 'picker', 'line'];
+const TRANSPARENT: Rgba = [0, 0, 0, 0];
+
+export const createPixelBuffer = (width: number, height: number): PixelBuffer => ({
+    width, height, data: new Uint8ClampedArray(width * height * 4)
+});
+
+export const clonePixelBuffer = (buffer: PixelBuffer): PixelBuffer => ({
+    ...buffer, data: new Uint8ClampedArray(buffer.data)
+});
+
+// Draws the texture stretched over the UV canvas, the same way the viewer samples it
+export const decodeTexture = (dataUrl: string | null, width: number, height: number): Promise<PixelBuffer> => {
+    if (!dataUrl) return Promise.resolve(createPixelBuffer(width, height));
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error("Canvas 2D context is not available."));
+            ctx.imageSmoothingEnabled = false;
+            ctx.drawImage(img, 0, 0, width, height);
+            resolve({ width, height, data: ctx.getImageData(0, 0, width, height).data });
+        };
+        img.onerror = () => reject(new Error("Could not read the texture image."));
+        img.src = dataUrl;
+    });
+};
+
+export const encodeTexture = (buffer: PixelBuffer): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = buffer.width;
+    canvas.height = buffer.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context is not available.");
+    ctx.putImageData(new ImageData(buffer.data, buffer.width, buffer.height), 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// --- Colors ---
+
+export const hexToRgba = (hex: string): Rgba => {
+    const clean = hex.replace('#', '');
+    const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean.slice(0, 6);
+    const n = parseInt(full, 16);
+    if (Number.isNaN(n)) return [0, 0, 0, 255];
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255, 255];
+};
+
+export const rgbaToHex = ([r, g, b]: Rgba): string =>
+    '#' + [r, g, b].map(c => c.toString(16).padStart(2, '0')).join('');
+
+// Distinct cube colors, in model order, so painting can start from the AI's color scheme
+export const getModelPalette = (model: MinecraftModel): string[] => {
+    const colors = new Set<string>();
+    (model.bedrockData?.bones || []).forEach(bone => bone.cubes.forEach(cube => {
+        if (cube.color) colors.add(rgbaToHex(hexToRgba(cube.color)));
+    }));
+    return [...colors];
+};
+
+// --- Tools ---
+
+const inBounds = (buffer: PixelBuffer, [x, y]: Texel) => x >= 0 && y >= 0 && x < buffer.width && y < buffer.height;
+
+export const getPixel = (buffer: PixelBuffer, texel: Texel): Rgba | null => {
+    if (!inBounds(buffer, texel)) return null;
+    const i = (texel[1] * buffer.width + texel[0]) * 4;
+    const d = buffer.data;
+    return [d[i], d[i + 1], d[i + 2], d[i + 3]];
+};
+
+export const setPixel = (buffer: PixelBuffer, texel: Texel, color: Rgba) => {
+    if (!inBounds(buffer, texel)) return;
+    buffer.data.set(color, (texel[1] * buffer.width + texel[0]) * 4);
+};
+
+// Bresenham, both ends included, so a dragged pencil leaves no gaps
+export const drawLine = (buffer: PixelBuffer, [x0, y0]: Texel, [x1, y1]: Texel, color: Rgba) => {
+    const dx = Math.abs(x1 - x0);
+    const dy = -Math.abs(y1 - y0);
+    const sx = x0 < x1 ? 1 : -1;
+    const sy = y0 < y1 ? 1 : -1;
+    let err = dx + dy;
+    let x = x0;
+    let y = y0;
+    while (true) {
+        setPixel(buffer, [x, y], color);
+        if (x === x1 && y === y1) break;
+        const e2 = 2 * err;
+        if (e2 >= dy) { err += dy; x += sx; }
+        if (e2 <= dx) { err += dx; y += sy; }
+    }
+};
+
+// Replaces the 4-connected region of exactly the clicked color
+export const floodFill = (buffer: PixelBuffer, start: Texel, color: Rgba) => {
+    const target = getPixel(buffer, start);
+    if (!target || target.every((c, i) => c === color[i])) return;
+    const { width, height, data } = buffer;
+    const matches = (p: number) =>
+        data[p * 4] === target[0] && data[p * 4 + 1] === target[1] && data[p * 4 + 2] === target[2] && data[p * 4 + 3] === target[3];
+
+    const stack = [start[1] * width + start[0]];
+    while (stack.length) {
+        const p = stack.pop()!;
+        if (!matches(p)) continue;
+        data.set(color, p * 4);
+        const x = p % width;
+        if (x > 0) stack.push(p - 1);
+        if (x < width - 1) stack.push(p + 1);
+        if (p >= width) stack.push(p - width);
+        if (p < width * (height - 1)) stack.push(p + width);
+    }
+};
+
+export const toolColor = (tool: PaintTool, hex: string): Rgba => tool === 'eraser' ? TRANSPARENT : hexToRgba(hex);
+
+// --- Viewport Hits ---
+
+// A raycast hit's interpolated UV (0..1, v up) is already the face's box or per-face mapping,
+// so the texel is just that point in texture pixels
+export const uvToTexel = (uv: { x: number; y: number }, [texW, texH]: [number, number]): Texel => [
+    Math.min(texW - 1, Math.max(0, Math.floor(uv.x * texW))),
+    Math.min(texH - 1, Math.max(0, Math.floor((1 - uv.y) * texH)))
+];
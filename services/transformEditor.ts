@@ -0,0 +1,120 @@
+import { MinecraftModel, ModelBone, ModelSelection } from '../types';
+
+// --- Viewport Transform Editing ---
+// The gizmo works in the parent's local frame: a bone is placed relative to
+// its parent's pivot, a cube's centre relative to its bone's pivot. Deltas in
+// those frames map one-to-one onto the absolute Bedrock coordinates.
+
+export type TransformMode = 'translate' | 'rotate' | 'scale';
+
+type Vec3 = [number, number, number];
+
+export interface SelectionTransform {
+    position: Vec3; // model units, parent frame
+    rotation: Vec3; // degrees, XYZ
+    scale: Vec3;
+}
+
+// 0 = snapping off
+export const TRANSLATION_SNAPS = [1, 0.5, 0.25, 0];
+export const ROTATION_SNAPS = [15, 22.5, 45, 0];
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
+const roundVec = (v: number[]) => v.map(round) as Vec3;
+const sub = (a: number[], b: number[]) => a.map((v, i) => v - (b[i] || 0)) as Vec3;
+const isZero = (v: number[]) => v.every(n => Math.abs(n) < 1e-6);
+
+const snapValue = (v: number, gridSnap: number) => gridSnap > 0 ? Math.round(v / gridSnap) * gridSnap : v;
+
+// Scaled sizes land back on the grid, never collapsing below one grid step
+const snapSize = (v: number, gridSnap: number) =>
+    gridSnap > 0 ? Math.max(gridSnap, Math.round(v / gridSnap) * gridSnap) : v;
+
+export const isValidSelection = (model: MinecraftModel, selection: ModelSelection | null | undefined): selection is ModelSelection => {
+    const bone = selection ? model.bedrockData?.bones[selection.boneIndex] : undefined;
+    if (!bone) return false;
+    return selection!.cubeIndex === undefined || !!bone.cubes[selection!.cubeIndex];
+};
+
+const parentPivotOf = (bones: ModelBone[], bone: ModelBone): Vec3 =>
+    (bones.find(b => b.name === bone.parent)?.pivot || [0, 0, 0]) as Vec3;
+
+export const getSelectionTransform = (model: MinecraftModel, selection: ModelSelection): SelectionTransform | undefined => {
+    if (!isValidSelection(model, selection)) return undefined;
+    const bones = model.bedrockData!.bones;
+    const bone = bones[selection.boneIndex];
+
+    if (selection.cubeIndex !== undefined) {
+        const cube = bone.cubes[selection.cubeIndex];
+        const center = cube.origin.map((o, a) => o + cube.size[a] / 2);
+        return { position: sub(center, bone.pivot), rotation: (cube.rotation || [0, 0, 0]) as Vec3, scale: [1, 1, 1] };
+    }
+    return { position: sub(bone.pivot, parentPivotOf(bones, bone)), rotation: (bone.rotation || [0, 0, 0]) as Vec3, scale: [1, 1, 1] };
+};
+
+// Moves a bone with everything attached to it: its cubes and all descendant bones
+const translateSubtree = (bones: ModelBone[], rootName: string, delta: Vec3): ModelBone[] => {
+    const moved = new Set([rootName]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        bones.forEach(b => {
+            if (b.parent && moved.has(b.parent) && !moved.has(b.name)) {
+                moved.add(b.name);
+                grew = true;
+            }
+        });
+    }
+
+    const shift = (v: number[]) => roundVec(v.map((n, a) => n + delta[a]));
+    return bones.map(b => moved.has(b.name)
+        ? { ...b, pivot: shift(b.pivot), cubes: b.cubes.map(c => ({ ...c, origin: shift(c.origin) })) }
+        : b);
+};
+
+export const applySelectionTransform = (
+    model: MinecraftModel,
+    selection: ModelSelection,
+    transform: SelectionTransform,
+    gridSnap: number = 0
+): MinecraftModel => {
+    const current = getSelectionTransform(model, selection);
+    if (!current) return model;
+    let bones = [...model.bedrockData!.bones];
+    const bone = bones[selection.boneIndex];
+    const scale = transform.scale.map(s => Math.abs(s) < 1e-3 ? 1e-3 : Math.abs(s)) as Vec3;
+
+    if (selection.cubeIndex !== undefined) {
+        const cube = bone.cubes[selection.cubeIndex];
+        const size = roundVec(cube.size.map((v, a) => scale[a] === 1 ? v : snapSize(v * scale[a], gridSnap)));
+        const center = transform.position.map((v, a) => v + bone.pivot[a]);
+        let origin = center.map((c, a) => c - size[a] / 2);
+        // Snapping happens here, in model space: the gizmo only sees the cube's centre,
+        // which sits off the grid for odd sizes
+        if (!isZero(sub(transform.position, current.position))) origin = origin.map(o => snapValue(o, gridSnap));
+        const cubes = [...bone.cubes];
+        cubes[selection.cubeIndex] = {
+            ...cube,
+            origin: roundVec(origin),
+            size,
+            rotation: isZero(transform.rotation) ? undefined : roundVec(transform.rotation)
+        };
+        bones[selection.boneIndex] = { ...bone, cubes };
+    } else {
+        const delta = sub(transform.position, current.position).map(d => snapValue(d, gridSnap)) as Vec3;
+        const updated: ModelBone = { ...bone };
+        if (bone.rotation || !isZero(transform.rotation)) updated.rotation = roundVec(transform.rotation);
+        if (!isZero(scale.map(s => s - 1))) {
+            // Bone scale is baked into its cubes, about the pivot
+            updated.cubes = bone.cubes.map(c => ({
+                ...c,
+                origin: roundVec(c.origin.map((o, a) => bone.pivot[a] + (o - bone.pivot[a]) * scale[a])),
+                size: roundVec(c.size.map((v, a) => scale[a] === 1 ? v : snapSize(v * scale[a], gridSnap)))
+            }));
+        }
+        bones[selection.boneIndex] = updated;
+        if (!isZero(delta)) bones = translateSubtree(bones, bone.name, delta);
+    }
+
+    return { ...model, bedrockData: { ...model.bedrockData!, bones } };
+};
@@ -0,0 +1,136 @@
+import { MinecraftModel, ModelCube, ModelSelection, CubeFaceName } from '../types';
+import { UvRect, getBoxUVRects, rectsOverlap } from './textureMapper';
+import { CUBE_FACE_NAMES, getFaceRect, setFaceRect } from './faceUv';
+
+// --- UV Islands ---
+// What the 2D UV editor draws and drags: a box-UV net or a single face.
+// Box cubes that already sample the same net (same start, same size) are one island.
+
+export interface UvIsland {
+    id: string;
+    cubes: { boneIndex: number; cubeIndex: number }[];
+    face?: CubeFaceName;
+    rects: UvRect[];    // absolute texture pixels
+    bounds: UvRect;
+}
+
+const boundsOf = (rects: UvRect[]): UvRect => {
+    if (rects.length === 0) return { x: 0, y: 0, w: 0, h: 0 };
+    const x = Math.min(...rects.map(r => r.x));
+    const y = Math.min(...rects.map(r => r.y));
+    return {
+        x, y,
+        w: Math.max(...rects.map(r => r.x + r.w)) - x,
+        h: Math.max(...rects.map(r => r.y + r.h)) - y
+    };
+};
+
+export const getUvIslands = (model: MinecraftModel, uvScale: number): UvIsland[] => {
+    const islands: UvIsland[] = [];
+    const boxIslands = new Map<string, UvIsland>();
+
+    (model.bedrockData?.bones || []).forEach((bone, boneIndex) => bone.cubes.forEach((cube, cubeIndex) => {
+        if (cube.faces) {
+            CUBE_FACE_NAMES.forEach(face => {
+                if (!cube.faces![face]) return;
+                const rect = getFaceRect(cube.faces![face]!);
+                islands.push({
+                    id: `${boneIndex}_${cubeIndex}_${face}`,
+                    cubes: [{ boneIndex, cubeIndex }],
+                    face,
+                    rects: [rect],
+                    bounds: rect
+                });
+            });
+            return;
+        }
+        if (!cube.uv) return;
+        const [u, v] = cube.uv;
+        const rects = getBoxUVRects(cube, uvScale).map(r => ({ ...r, x: r.x + u, y: r.y + v }));
+        const key = `${u},${v}:${rects.map(r => `${r.x},${r.y},${r.w},${r.h}`).join(';')}`;
+        const shared = boxIslands.get(key);
+        if (shared) {
+            shared.cubes.push({ boneIndex, cubeIndex });
+            return;
+        }
+        const island: UvIsland = { id: `${boneIndex}_${cubeIndex}`, cubes: [{ boneIndex, cubeIndex }], rects, bounds: boundsOf(rects) };
+        boxIslands.set(key, island);
+        islands.push(island);
+    }));
+    return islands;
+};
+
+export const islandHasCube = (island: UvIsland, selection: ModelSelection | null) =>
+    !!selection && island.cubes.some(c => c.boneIndex === selection.boneIndex && c.cubeIndex === selection.cubeIndex);
+
+export interface UvProblems {
+    overlapping: Set<string>;
+    outOfBounds: Set<string>;
+}
+
+export const findUvProblems = (islands: UvIsland[], textureSize: [number, number]): UvProblems => {
+    const [texW, texH] = textureSize;
+    const overlapping = new Set<string>();
+    const outOfBounds = new Set<string>();
+    islands.forEach((a, i) => {
+        if (a.rects.some(r => r.x < 0 || r.y < 0 || r.x + r.w > texW || r.y + r.h > texH)) outOfBounds.add(a.id);
+        for (let j = i + 1; j < islands.length; j++) {
+            const b = islands[j];
+            if (!rectsOverlap(a.bounds, b.bounds)) continue;
+            if (a.rects.some(ra => b.rects.some(rb => rectsOverlap(ra, rb)))) {
+                overlapping.add(a.id);
+                overlapping.add(b.id);
+            }
+        }
+    });
+    return { overlapping, outOfBounds };
+};
+
+// --- Editing ---
+
+const editCubes = (model: MinecraftModel, island: UvIsland, edit: (cube: ModelCube) => void): MinecraftModel => {
+    if (!model.bedrockData) throw new Error("UV editing needs an entity model.");
+    const bones = [...model.bedrockData.bones];
+    island.cubes.forEach(({ boneIndex, cubeIndex }) => {
+        const bone = bones[boneIndex];
+        const cubes = [...bone.cubes];
+        const cube = { ...cubes[cubeIndex] };
+        if (cube.faces) cube.faces = { ...cube.faces };
+        edit(cube);
+        cubes[cubeIndex] = cube;
+        bones[boneIndex] = { ...bone, cubes };
+    });
+    return { ...model, bedrockData: { ...model.bedrockData, bones } };
+};
+
+// Moves an island by whole pixels; every cube sharing it moves along
+export const moveUvIsland = (model: MinecraftModel, island: UvIsland, dx: number, dy: number): MinecraftModel => {
+    if (dx === 0 && dy === 0) return model;
+    return editCubes(model, island, cube => {
+        if (island.face) {
+            const face = cube.faces![island.face]!;
+            const { x, y, w, h } = getFaceRect(face);
+            cube.faces![island.face] = setFaceRect(face, [x + dx, y + dy], w, h);
+        } else {
+            const [u, v] = cube.uv || [0, 0];
+            cube.uv = [u + dx, v + dy];
+        }
+    });
+};
+
+// Only a face's rect can be resized; a box net's size follows the cube
+export const resizeUvIsland = (model: MinecraftModel, island: UvIsland, w: number, h: number): MinecraftModel => {
+    if (!island.face) throw new Error("Box UV islands are sized by their cube. Switch the cube to per-face UVs to scale its faces.");
+    return editCubes(model, island, cube => {
+        const face = cube.faces![island.face!]!;
+        const { x, y } = getFaceRect(face);
+        cube.faces![island.face!] = setFaceRect(face, [x, y], Math.max(1, Math.round(w)), Math.max(1, Math.round(h)));
+    });
+};
+
+// Changes the texture canvas; UVs are pixel coordinates, so nothing moves
+export const setTextureSize = (model: MinecraftModel, width: number, height: number): MinecraftModel => {
+    if (!model.bedrockData) throw new Error("Texture size needs an entity model.");
+    if (!(width >= 1 && height >= 1)) throw new Error("Texture size must be at least 1×1.");
+    return { ...model, bedrockData: { ...model.bedrockData, texture_size: [Math.round(width), Math.round(height)] } };
+};
@@ -9,6 +9,13 @@ export type ModelType = 'ENTITY' | 'BLOCK' | 'GENERIC';
 export type ModLoader = 'VANILLA' | 'NEOFORGE' | 'FORGE' | 'FABRIC' | 'CREATE' | 'HYTALE' | 'BLENDER' | 'UE5' | 'UNITY' | 'GODOT' | 'CREATION_ENGINE';
 
 // --- Shared / Generic Internal Structure for Viewer ---
+export type CubeFaceName = 'north' | 'south' | 'east' | 'west' | 'up' | 'down';
+
+export interface CubeFaceUV {
+  uv: [number, number, number, number]; // u1, v1, u2, v2 in texture_size units; u2 < u1 or v2 < v1 mirrors
+  rotation?: 0 | 90 | 180 | 270; // clockwise
+}
+
 export interface ModelCube {
   origin: [number, number, number]; // Min corner (Bedrock style) or calculated from 'from'
   size: [number, number, number]; // width, height, depth
@@ -17,6 +24,9 @@ export interface ModelCube {
   uv?: [number, number]; // generic uv start
   color?: string; // Hex color for fallback/preview
   textureOffset?: [number, number]; // For standard MC mapping
+  faces?: Partial<Record<CubeFaceName, CubeFaceUV>>; // Per-face UV; overrides box 'uv' when present
+  inflate?: number; // Grows the cube on every side without changing its UV size
+  mirror?: boolean; // Mirrors box UV horizontally (Bedrock 'mirror')
 }
 
 export interface ModelAttachment {
@@ -43,16 +53,40 @@ export interface BedrockModel {
 }
 
 // --- Animation Format ---
-export type KeyframeValue = [number, number, number] | { post: [number, number, number], lerp_mode?: string };
+export type LerpMode = 'linear' | 'step' | 'catmullrom' | 'bezier';
+
+// The interpolation of a keyframe applies to the segment leaving it.
+// 'pre' is the value arriving from the previous keyframe (Bedrock semantics),
+// 'bezier' holds cubic-bezier easing handles [x1, y1, x2, y2] like CSS.
+export type KeyframeValue = [number, number, number] | {
+    pre?: [number, number, number];
+    post: [number, number, number];
+    lerp_mode?: LerpMode;
+    bezier?: [number, number, number, number];
+};
 
 export interface AnimationChannel {
     [timestamp: string]: KeyframeValue; 
 }
 
+// Visibility holds each value until the next keyframe
+export interface VisibilityChannel {
+    [timestamp: string]: boolean;
+}
+
+// UV offset in texture pixels, interpolated linearly
+export interface UvOffsetChannel {
+    [timestamp: string]: [number, number];
+}
+
 export interface AnimationBoneData {
     rotation?: AnimationChannel;
     position?: AnimationChannel;
+    // Stretches the bone's own cubes about its pivot, like Hytale's shapeStretch; child bones keep their size
     scale?: AnimationChannel;
+    // Shape tracks, applied to the bone's own cubes (e.g. blinking eyes, flowing water)
+    visible?: VisibilityChannel;
+    uv_offset?: UvOffsetChannel;
 }
 
 export interface AnimationDefinition {
@@ -146,6 +180,12 @@ export interface ChatMessage {
   isError?: boolean;
 }
 
+// What is picked in the viewport or hierarchy: a whole bone, or one of its cubes
+export interface ModelSelection {
+  boneIndex: number;
+  cubeIndex?: number;
+}
+
 export enum ViewMode {
   EDITOR = 'EDITOR',
   TEXTURE = 'TEXTURE',